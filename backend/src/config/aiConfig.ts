@@ -0,0 +1,29 @@
+import { AiProviderName, AiTask } from '@/types/ai';
+
+const PROVIDERS: AiProviderName[] = ['transformers', 'http', 'fake'];
+
+function providerFromEnv(value: string | undefined, fallback: AiProviderName): AiProviderName {
+    const name = value?.trim().toLowerCase() as AiProviderName | undefined;
+    return name && PROVIDERS.includes(name) ? name : fallback;
+}
+
+const defaultProvider = providerFromEnv(process.env.AI_PROVIDER, 'transformers');
+
+export const aiConfig = {
+    // Provider per task: `transformers` (in-process models), `http` (OpenAI-compatible server) or `fake`
+    providers: {
+        sentiment: providerFromEnv(process.env.AI_PROVIDER_SENTIMENT, defaultProvider),
+        summarization: providerFromEnv(process.env.AI_PROVIDER_SUMMARIZATION, defaultProvider),
+        ner: providerFromEnv(process.env.AI_PROVIDER_NER, defaultProvider),
+        translation: providerFromEnv(process.env.AI_PROVIDER_TRANSLATION, defaultProvider),
+    } as Record<AiTask, AiProviderName>,
+    // Use the in-process model when the selected provider fails or times out
+    fallbackToLocal: process.env.AI_FALLBACK_TO_LOCAL !== 'false',
+    http: {
+        // Base URL including the API version, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+        baseUrl: (process.env.AI_HTTP_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+        model: process.env.AI_HTTP_MODEL || 'llama3.1:8b',
+        apiKey: process.env.AI_HTTP_API_KEY || '',
+        timeoutMs: parseInt(process.env.AI_HTTP_TIMEOUT_MS || '30000'),
+    },
+};
@@ -0,0 +1,67 @@
+import { AssetDefinition } from '@/types/asset';
+
+/**
+ * Local ticker/coin dictionary used by the asset extraction stage.
+ * Aliases are compared after lowercasing, accent folding and removal of company
+ * suffixes (Inc, Corp, SA...), so "Apple Inc." and "apple" both match `apple`.
+ * Avoid aliases that are common words in the languages of the feeds.
+ */
+export const assetDictionary: AssetDefinition[] = [
+    // Crypto
+    { symbol: 'BTC', name: 'Bitcoin', type: 'crypto', aliases: ['bitcoin', 'btc', 'xbt'] },
+    { symbol: 'ETH', name: 'Ethereum', type: 'crypto', aliases: ['ethereum', 'ether', 'eth'] },
+    { symbol: 'USDT', name: 'Tether', type: 'crypto', aliases: ['tether', 'usdt'] },
+    { symbol: 'USDC', name: 'USD Coin', type: 'crypto', aliases: ['usd coin', 'usdc'] },
+    { symbol: 'BNB', name: 'BNB', type: 'crypto', aliases: ['bnb', 'binance coin'] },
+    { symbol: 'SOL', name: 'Solana', type: 'crypto', aliases: ['solana', 'sol'] },
+    { symbol: 'XRP', name: 'XRP', type: 'crypto', aliases: ['xrp', 'ripple'] },
+    { symbol: 'ADA', name: 'Cardano', type: 'crypto', aliases: ['cardano', 'ada'] },
+    { symbol: 'DOGE', name: 'Dogecoin', type: 'crypto', aliases: ['dogecoin', 'doge'] },
+    { symbol: 'TRX', name: 'Tron', type: 'crypto', aliases: ['tron', 'trx'] },
+    { symbol: 'TON', name: 'Toncoin', type: 'crypto', aliases: ['toncoin', 'the open network'] },
+    { symbol: 'AVAX', name: 'Avalanche', type: 'crypto', aliases: ['avalanche', 'avax'] },
+    { symbol: 'DOT', name: 'Polkadot', type: 'crypto', aliases: ['polkadot'] },
+    { symbol: 'LINK', name: 'Chainlink', type: 'crypto', aliases: ['chainlink'] },
+    { symbol: 'POL', name: 'Polygon', type: 'crypto', aliases: ['polygon', 'matic'] },
+    { symbol: 'LTC', name: 'Litecoin', type: 'crypto', aliases: ['litecoin', 'ltc'] },
+    { symbol: 'SHIB', name: 'Shiba Inu', type: 'crypto', aliases: ['shiba inu', 'shib'] },
+    { symbol: 'XLM', name: 'Stellar', type: 'crypto', aliases: ['stellar', 'xlm'] },
+    { symbol: 'ATOM', name: 'Cosmos', type: 'crypto', aliases: ['cosmos', 'atom'] },
+    { symbol: 'UNI', name: 'Uniswap', type: 'crypto', aliases: ['uniswap'] },
+    { symbol: 'ARB', name: 'Arbitrum', type: 'crypto', aliases: ['arbitrum'] },
+    { symbol: 'SUI', name: 'Sui', type: 'crypto', aliases: ['sui'] },
+
+    // Stocks
+    { symbol: 'AAPL', name: 'Apple', type: 'stock', aliases: ['apple', 'aapl'] },
+    { symbol: 'MSFT', name: 'Microsoft', type: 'stock', aliases: ['microsoft', 'msft'] },
+    { symbol: 'NVDA', name: 'Nvidia', type: 'stock', aliases: ['nvidia', 'nvda'] },
+    { symbol: 'GOOGL', name: 'Alphabet', type: 'stock', aliases: ['alphabet', 'google', 'googl', 'goog'] },
+    { symbol: 'AMZN', name: 'Amazon', type: 'stock', aliases: ['amazon', 'amzn'] },
+    { symbol: 'META', name: 'Meta Platforms', type: 'stock', aliases: ['meta platforms', 'meta', 'facebook'] },
+    { symbol: 'TSLA', name: 'Tesla', type: 'stock', aliases: ['tesla', 'tsla'] },
+    { symbol: 'COIN', name: 'Coinbase', type: 'stock', aliases: ['coinbase'] },
+    { symbol: 'MSTR', name: 'MicroStrategy', type: 'stock', aliases: ['microstrategy', 'mstr'] },
+    { symbol: 'JPM', name: 'JPMorgan Chase', type: 'stock', aliases: ['jpmorgan', 'jp morgan', 'jpmorgan chase'] },
+    { symbol: 'GS', name: 'Goldman Sachs', type: 'stock', aliases: ['goldman sachs', 'goldman'] },
+    { symbol: 'BLK', name: 'BlackRock', type: 'stock', aliases: ['blackrock', 'blk'] },
+    { symbol: 'MC.PA', name: 'LVMH', type: 'stock', aliases: ['lvmh', 'moet hennessy louis vuitton'] },
+    { symbol: 'TTE.PA', name: 'TotalEnergies', type: 'stock', aliases: ['totalenergies', 'total energies'] },
+    { symbol: 'AIR.PA', name: 'Airbus', type: 'stock', aliases: ['airbus'] },
+    { symbol: 'BNP.PA', name: 'BNP Paribas', type: 'stock', aliases: ['bnp paribas', 'bnp'] },
+    { symbol: 'SAN.PA', name: 'Sanofi', type: 'stock', aliases: ['sanofi'] },
+
+    // Indices
+    { symbol: 'SPX', name: 'S&P 500', type: 'index', aliases: ['s&p 500', 's&p500', 'sp500', 'spx'] },
+    { symbol: 'NDX', name: 'Nasdaq 100', type: 'index', aliases: ['nasdaq', 'nasdaq 100', 'nasdaq composite', 'ndx'] },
+    { symbol: 'DJI', name: 'Dow Jones', type: 'index', aliases: ['dow jones', 'dow'] },
+    { symbol: 'CAC40', name: 'CAC 40', type: 'index', aliases: ['cac 40', 'cac40'] },
+    { symbol: 'DAX', name: 'DAX', type: 'index', aliases: ['dax'] },
+
+    // Commodities and currencies
+    { symbol: 'XAU', name: 'Gold', type: 'commodity', aliases: ['gold', 'xau'] },
+    { symbol: 'XAG', name: 'Silver', type: 'commodity', aliases: ['silver', 'xag'] },
+    { symbol: 'BRENT', name: 'Brent crude', type: 'commodity', aliases: ['brent', 'brent crude'] },
+    { symbol: 'WTI', name: 'WTI crude', type: 'commodity', aliases: ['wti', 'west texas intermediate'] },
+    { symbol: 'DXY', name: 'US Dollar Index', type: 'currency', aliases: ['dxy', 'dollar index'] },
+    { symbol: 'EURUSD', name: 'EUR/USD', type: 'currency', aliases: ['eur/usd', 'eurusd'] },
+];
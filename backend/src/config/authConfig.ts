@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+import logger from '@/utils/logger';
+
+/**
+ * Secret signing the access tokens. Without `AUTH_JWT_SECRET`, a random secret is
+ * generated at startup: tokens are then invalidated by every restart.
+ */
+function resolveJwtSecret(): string {
+    if (process.env.AUTH_JWT_SECRET) return process.env.AUTH_JWT_SECRET;
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_JWT_SECRET is required in production');
+    }
+    logger.warn('⚠️ AUTH_JWT_SECRET is not set: using a temporary secret, sessions will not survive a restart.');
+    return crypto.randomBytes(32).toString('hex');
+}
+
+export const authConfig = {
+    jwtSecret: resolveJwtSecret(),
+    tokenTtlSeconds: parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || String(7 * 24 * 60 * 60)),
+    passwordMinLength: 8,
+};
@@ -0,0 +1,23 @@
+/**
+ * Alternative names of frequent entities, merged into one canonical entity by the
+ * entity store (keys are compared after case and accent folding). Companies and
+ * coins of `assets.ts` are merged through their dictionary aliases as well.
+ */
+export const entityAliases: Record<string, string[]> = {
+    'Federal Reserve': ['fed', 'the fed', 'us federal reserve', 'reserve federale', 'reserve federale americaine'],
+    'European Central Bank': ['ecb', 'bce', 'banque centrale europeenne', 'banco central europeo'],
+    'Bank of England': ['boe'],
+    'Bank of Japan': ['boj'],
+    'Securities and Exchange Commission': ['sec', 'us sec', 'the sec'],
+    'International Monetary Fund': ['imf', 'fmi', 'fonds monetaire international'],
+    'Autorité des marchés financiers': ['amf'],
+    'European Union': ['eu', 'ue', 'union europeenne', 'union europea'],
+    'United States': ['us', 'u.s', 'usa', 'u.s.a', 'etats-unis', 'etats unis', 'estados unidos'],
+    'United Kingdom': ['uk', 'u.k', 'royaume-uni', 'royaume uni', 'reino unido'],
+    'China': ['chine', 'prc'],
+    'Jerome Powell': ['powell', 'jay powell'],
+    'Christine Lagarde': ['lagarde'],
+    'Donald Trump': ['trump'],
+    'Elon Musk': ['musk'],
+    'Binance': ['binance exchange'],
+};
@@ -0,0 +1,27 @@
+export const jobConfig = {
+    leaseMs: parseInt(process.env.JOB_LEASE_MS || '600000'),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '4'),
+    retryBaseMs: parseInt(process.env.JOB_RETRY_BASE_MS || '60000'),
+    retryMaxMs: parseInt(process.env.JOB_RETRY_MAX_MS || '3600000'),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '5000'),
+};
+
+/** Number of worker processes per stage; each process runs one job at a time. */
+export const workerPoolConfig = {
+    workers: {
+        analysis: parseInt(process.env.AI_WORKERS_ANALYSIS || '1'),
+        summary: parseInt(process.env.AI_WORKERS_SUMMARY || '1'),
+        translation: parseInt(process.env.AI_WORKERS_TRANSLATION || '1'),
+    },
+    restartBaseMs: parseInt(process.env.AI_WORKER_RESTART_BASE_MS || '5000'),
+    restartMaxMs: parseInt(process.env.AI_WORKER_RESTART_MAX_MS || '300000'),
+    // A worker that stayed up this long is considered healthy again (restart backoff reset)
+    stableAfterMs: parseInt(process.env.AI_WORKER_STABLE_AFTER_MS || '60000'),
+};
+
+/** Job priorities: bookmarked articles first, then the ones the daily briefing will use. */
+export const JOB_PRIORITY = {
+    DEFAULT: 0,
+    RECENT: 5,
+    BOOKMARKED: 10,
+} as const;
@@ -0,0 +1,33 @@
+/**
+ * A token bucket: `capacity` requests in a burst, refilled at `refillPerMinute`.
+ */
+export interface BucketPolicy {
+    capacity: number;
+    refillPerMinute: number;
+}
+
+function policy(capacityVar: string, capacity: number, refillVar: string, refillPerMinute: number): BucketPolicy {
+    return {
+        capacity: parseInt(process.env[capacityVar] || String(capacity)),
+        refillPerMinute: parseInt(process.env[refillVar] || String(refillPerMinute)),
+    };
+}
+
+export const rateLimitConfig = {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // Proxy hops in front of the API, so that `req.ip` is the client address. 0 ignores
+    // X-Forwarded-For, which any client could otherwise forge to get a fresh bucket
+    trustProxy: parseInt(process.env.RATE_LIMIT_TRUST_PROXY || '0'),
+    // Budgets per client IP (anonymous callers) and per API key
+    standard: {
+        ip: policy('RATE_LIMIT_IP_BURST', 120, 'RATE_LIMIT_IP_PER_MINUTE', 60),
+        key: policy('RATE_LIMIT_KEY_BURST', 600, 'RATE_LIMIT_KEY_PER_MINUTE', 300),
+    },
+    // Routes that start a sync, call the AI or fetch remote sites (/process, /briefing, ...)
+    expensive: {
+        ip: policy('RATE_LIMIT_EXPENSIVE_IP_BURST', 3, 'RATE_LIMIT_EXPENSIVE_IP_PER_MINUTE', 1),
+        key: policy('RATE_LIMIT_EXPENSIVE_KEY_BURST', 10, 'RATE_LIMIT_EXPENSIVE_KEY_PER_MINUTE', 5),
+    },
+};
+
+export type RateLimitTier = 'standard' | 'expensive';
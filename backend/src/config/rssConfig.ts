@@ -6,6 +6,12 @@ export const rssConfig = {
     delayBetweenFeedsMs: parseInt(process.env.RSS_DELAY_BETWEEN_FEEDS_MS || '500'),
     minContentLengthForScraping: parseInt(process.env.RSS_MIN_CONTENT_LENGTH || '250'),
     scrapeRetryDelayMs: parseInt(process.env.RSS_SCRAPE_RETRY_DELAY_MS || '1000'),
+    defaultRefreshMinutes: parseInt(process.env.RSS_DEFAULT_REFRESH_MINUTES || '30'),
+    minRefreshMinutes: parseInt(process.env.RSS_MIN_REFRESH_MINUTES || '5'),
+    maxRefreshMinutes: parseInt(process.env.RSS_MAX_REFRESH_MINUTES || '360'),
+    maxConsecutiveFailures: parseInt(process.env.RSS_MAX_CONSECUTIVE_FAILURES || '5'),
+    failureBackoffBaseMs: parseInt(process.env.RSS_FAILURE_BACKOFF_BASE_MS || '1800000'),
+    failureBackoffMaxMs: parseInt(process.env.RSS_FAILURE_BACKOFF_MAX_MS || '86400000'),
 
     categories: rssSources,
 };
@@ -14,4 +20,15 @@ export const databaseConfig = {
     collection: {
         rssArticles: 'rssArticles',
     },
+    // Lifetime of the cached global article counts (feed summary)
+    statsCacheTtlMs: parseInt(process.env.RSS_STATS_CACHE_TTL_MS || '30000'),
+};
+
+export const languageDetectionConfig = {
+    // Below this confidence, articles keep the language configured on their source
+    minConfidence: parseFloat(process.env.LANGUAGE_MIN_CONFIDENCE || '0.2'),
+    // A source is flagged when fewer than half of its recent articles are in its configured language
+    auditWindowDays: parseInt(process.env.LANGUAGE_AUDIT_WINDOW_DAYS || '30'),
+    auditMinArticles: parseInt(process.env.LANGUAGE_AUDIT_MIN_ARTICLES || '10'),
+    auditSchedule: process.env.LANGUAGE_AUDIT_CRON || '30 3 * * *',
 };
@@ -0,0 +1,11 @@
+export const translationConfig = {
+    // Languages every article is translated into, on top of the ones users prefer
+    languages: (process.env.AI_TRANSLATION_LANGUAGES || '').split(',').map(l => l.trim()).filter(Boolean),
+    // Also translate into the `preferredLanguage` of user profiles
+    followUserLanguages: process.env.AI_TRANSLATION_FOLLOW_USERS !== 'false',
+    // Characters sent to the model per UTC day (cached strings are free)
+    dailyCharacterBudget: parseInt(process.env.AI_TRANSLATION_DAILY_CHARS || '500000'),
+    cacheTtlDays: parseInt(process.env.AI_TRANSLATION_CACHE_TTL_DAYS || '30'),
+    // How long the list of target languages is reused before asking the users collection again
+    languagesRefreshMs: parseInt(process.env.AI_TRANSLATION_LANGUAGES_REFRESH_MS || '600000'),
+};
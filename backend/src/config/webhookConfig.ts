@@ -0,0 +1,8 @@
+export const webhookConfig = {
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000'),
+    retryMaxMs: parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '3600000'),
+    // Tick of the retry sweep (failed deliveries whose backoff elapsed)
+    retrySchedule: process.env.WEBHOOK_RETRY_CRON || '* * * * *',
+};
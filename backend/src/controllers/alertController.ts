@@ -0,0 +1,95 @@
+// src/controllers/alertController.ts
+import { Request, Response } from 'express';
+import { AlertService } from '@/services/alertService';
+import { AlertRepository } from '@/repositories/alertRepository';
+import { AppError, handleControllerError } from '@/utils/errorHandler';
+
+/**
+ * Lists the saved searches of a user.
+ *
+ * @route GET /api/user/:userId/searches
+ */
+export async function getSavedSearches(req: Request, res: Response): Promise<void> {
+  try {
+    const searches = await AlertService.listSavedSearches(req.params.userId as string);
+    res.status(200).json({ count: searches.length, data: searches });
+  } catch (error) {
+    handleControllerError(res, error, getSavedSearches.name);
+  }
+}
+
+/**
+ * Saves a named search ({ name, query, isAlert }).
+ *
+ * @route POST /api/user/:userId/searches
+ */
+export async function createSavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    const search = await AlertService.createSavedSearch(req.params.userId as string, req.body || {});
+    res.status(201).json({ message: 'Search saved', data: search });
+  } catch (error) {
+    handleControllerError(res, error, createSavedSearch.name);
+  }
+}
+
+/**
+ * Updates the name, query or alert flag of a saved search.
+ *
+ * @route PATCH /api/user/:userId/searches/:searchId
+ */
+export async function updateSavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    const search = await AlertService.updateSavedSearch(req.params.userId as string, req.params.searchId as string, req.body || {});
+    res.status(200).json({ message: 'Search updated', data: search });
+  } catch (error) {
+    handleControllerError(res, error, updateSavedSearch.name);
+  }
+}
+
+/**
+ * Deletes a saved search and its alerts.
+ *
+ * @route DELETE /api/user/:userId/searches/:searchId
+ */
+export async function deleteSavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    await AlertService.deleteSavedSearch(req.params.userId as string, req.params.searchId as string);
+    res.status(200).json({ message: 'Search deleted' });
+  } catch (error) {
+    handleControllerError(res, error, deleteSavedSearch.name);
+  }
+}
+
+/**
+ * Returns the alert notifications of a user with the unread count (?unread=true&limit=).
+ *
+ * @route GET /api/user/:userId/alerts
+ */
+export async function getAlerts(req: Request, res: Response): Promise<void> {
+  try {
+    const unreadOnly = req.query.unread === 'true';
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const { alerts, unreadCount } = await AlertService.getAlerts(req.params.userId as string, { unreadOnly, limit });
+    res.status(200).json({ unreadCount, count: alerts.length, data: alerts });
+  } catch (error) {
+    handleControllerError(res, error, getAlerts.name);
+  }
+}
+
+/**
+ * Marks alerts as read ({ ids } or every unread alert when omitted).
+ *
+ * @route POST /api/user/:userId/alerts/read
+ */
+export async function markAlertsRead(req: Request, res: Response): Promise<void> {
+  try {
+    const ids = req.body?.ids;
+    if (ids !== undefined && !Array.isArray(ids)) throw new AppError('ids must be an array', 400);
+
+    const updated = await AlertRepository.markRead(req.params.userId as string, ids);
+    res.status(200).json({ updated });
+  } catch (error) {
+    handleControllerError(res, error, markAlertsRead.name);
+  }
+}
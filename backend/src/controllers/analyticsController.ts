@@ -1,6 +1,7 @@
 // src/controllers/analyticsController.ts
 import { Request, Response } from 'express';
 import { AnalyticsService } from '@/services/analyticsService';
+import { AssetType } from '@/types/asset';
 import { handleControllerError } from '@/utils/errorHandler';
 import logger from '@/utils/logger';
 
@@ -77,3 +78,35 @@ export async function getTimelineAnalytics(req: Request, res: Response): Promise
         handleControllerError(res, error, getTimelineAnalytics.name);
     }
 }
+
+/**
+ * Get per-asset article counts and sentiment over time
+ * 
+ * @route GET /api/analytics/assets
+ */
+export async function getAssetsAnalytics(req: Request, res: Response): Promise<void> {
+    try {
+        const symbols = typeof req.query.symbols === 'string'
+            ? req.query.symbols.split(',').map(s => s.trim().toUpperCase()).filter(Boolean)
+            : undefined;
+
+        const data = await AnalyticsService.getAssetAnalytics({
+            dateRange: (req.query.dateRange as 'today' | 'week' | 'month' | 'all') || 'month',
+            category: req.query.category as string | undefined,
+            source: req.query.source as string | undefined,
+            granularity: (req.query.granularity as 'hour' | 'day' | 'week') || 'day',
+            symbols,
+            type: req.query.type as AssetType | undefined,
+            limit: Math.min(parseInt(req.query.limit as string) || 20, 100)
+        });
+
+        logger.info(`Fetching asset analytics: ${data.assets.length} assets`);
+
+        res.status(200).json({
+            message: 'Asset analytics retrieved successfully',
+            data
+        });
+    } catch (error) {
+        handleControllerError(res, error, getAssetsAnalytics.name);
+    }
+}
@@ -0,0 +1,51 @@
+// src/controllers/apiKeyController.ts
+import { Request, Response } from 'express';
+import { ApiKeyRepository } from '@/repositories/apiKeyRepository';
+import { ApiKeyService } from '@/services/apiKeyService';
+import { handleControllerError } from '@/utils/errorHandler';
+
+/**
+ * Lists the issued API keys (without their hashes).
+ *
+ * @route GET /api/keys
+ */
+export async function getApiKeys(_req: Request, res: Response): Promise<void> {
+  try {
+    const apiKeys = await ApiKeyRepository.findAll();
+    res.status(200).json({
+      message: 'API keys retrieved successfully',
+      count: apiKeys.length,
+      data: apiKeys.map(({ keyHash: _keyHash, ...apiKey }) => apiKey)
+    });
+  } catch (error) {
+    handleControllerError(res, error, getApiKeys.name);
+  }
+}
+
+/**
+ * Issues an API key. The response is the only one carrying the key.
+ *
+ * @route POST /api/keys
+ */
+export async function createApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { apiKey, key } = await ApiKeyService.create(req.body || {}, req.user?.id ?? null);
+    res.status(201).json({ message: 'API key issued, store it now: it will not be shown again', key, data: apiKey });
+  } catch (error) {
+    handleControllerError(res, error, createApiKey.name);
+  }
+}
+
+/**
+ * Revokes an API key.
+ *
+ * @route DELETE /api/keys/:id
+ */
+export async function revokeApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    await ApiKeyService.revoke(req.params.id as string);
+    res.status(200).json({ message: 'API key revoked' });
+  } catch (error) {
+    handleControllerError(res, error, revokeApiKey.name);
+  }
+}
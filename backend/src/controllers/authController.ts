@@ -0,0 +1,45 @@
+// src/controllers/authController.ts
+import { Request, Response } from 'express';
+import { AuthService } from '@/services/authService';
+import { handleControllerError } from '@/utils/errorHandler';
+
+/**
+ * Creates an account ({ email, password }) and opens a session.
+ *
+ * @route POST /api/auth/register
+ */
+export async function register(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await AuthService.register(req.body || {});
+    res.status(201).json({ message: 'Account created', ...session });
+  } catch (error) {
+    handleControllerError(res, error, register.name);
+  }
+}
+
+/**
+ * Opens a session ({ email, password }).
+ *
+ * @route POST /api/auth/login
+ */
+export async function login(req: Request, res: Response): Promise<void> {
+  try {
+    const session = await AuthService.login(req.body || {});
+    res.status(200).json({ message: 'Logged in', ...session });
+  } catch (error) {
+    handleControllerError(res, error, login.name);
+  }
+}
+
+/**
+ * Returns the user of the access token.
+ *
+ * @route GET /api/auth/me
+ */
+export async function getCurrentUser(req: Request, res: Response): Promise<void> {
+  try {
+    res.status(200).json({ user: req.user });
+  } catch (error) {
+    handleControllerError(res, error, getCurrentUser.name);
+  }
+}
@@ -0,0 +1,28 @@
+// src/controllers/entityController.ts
+import { Request, Response } from 'express';
+import { EntityService } from '@/services/entityService';
+import { handleControllerError } from '@/utils/errorHandler';
+
+function parseLimit(value: unknown, fallback: number, max: number): number {
+  const parsed = parseInt(String(value));
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, max) : fallback;
+}
+
+/**
+ * Returns an entity with its latest articles, daily sentiment and related entities
+ * (?articles=10&days=30&related=10).
+ *
+ * @route GET /api/entities/:id
+ */
+export async function getEntity(req: Request, res: Response): Promise<void> {
+  try {
+    const profile = await EntityService.getProfile(req.params.id as string, {
+      articleLimit: parseLimit(req.query.articles, 10, 50),
+      days: parseLimit(req.query.days, 30, 365),
+      relatedLimit: parseLimit(req.query.related, 10, 50)
+    });
+    res.status(200).json({ message: 'Entity retrieved successfully', data: profile });
+  } catch (error) {
+    handleControllerError(res, error, getEntity.name);
+  }
+}
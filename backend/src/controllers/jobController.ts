@@ -0,0 +1,63 @@
+// src/controllers/jobController.ts
+import { Request, Response } from 'express';
+import { JobRepository } from '@/repositories/jobRepository';
+import { JobStatus, JobType, JOB_TYPES } from '@/types/job';
+import { WorkerPoolService } from '@/services/workerPoolService';
+import { handleControllerError } from '@/utils/errorHandler';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'done', 'failed', 'dead'];
+
+/**
+ * Lists AI jobs with per-status counts.
+ *
+ * @route GET /api/jobs
+ */
+export async function getJobs(req: Request, res: Response): Promise<void> {
+  try {
+    const status = req.query.status as JobStatus | undefined;
+    const type = req.query.type as JobType | undefined;
+    const articleId = req.query.articleId as string | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      res.status(400).json({ error: `Invalid status. Expected one of: ${JOB_STATUSES.join(', ')}` });
+      return;
+    }
+    if (type && !JOB_TYPES.includes(type)) {
+      res.status(400).json({ error: `Invalid type. Expected one of: ${JOB_TYPES.join(', ')}` });
+      return;
+    }
+
+    const [counts, jobs] = await Promise.all([
+      JobRepository.countByStatus(),
+      JobRepository.list({ status, type, articleId, limit })
+    ]);
+
+    res.status(200).json({
+      message: 'Jobs retrieved successfully',
+      counts,
+      count: jobs.length,
+      data: jobs
+    });
+  } catch (error) {
+    handleControllerError(res, error, getJobs.name);
+  }
+}
+
+/**
+ * Reports the AI worker processes with their throughput.
+ *
+ * @route GET /api/jobs/workers
+ */
+export async function getWorkers(_req: Request, res: Response): Promise<void> {
+  try {
+    const workers = WorkerPoolService.getStatus();
+    res.status(200).json({
+      message: 'Workers retrieved successfully',
+      count: workers.length,
+      data: workers
+    });
+  } catch (error) {
+    handleControllerError(res, error, getWorkers.name);
+  }
+}
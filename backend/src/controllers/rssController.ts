@@ -1,43 +1,206 @@
 // src/controllers/rssController.ts
 import { Request, Response } from 'express';
-import { RssRepository } from '@/repositories/rssRepository';
+import { ObjectId } from 'mongodb';
+import { RssRepository, FetchOptions } from '@/repositories/rssRepository';
 import { RssService } from '@/services/rssService';
-import { handleControllerError } from '@/utils/errorHandler';
+import { AppError, handleControllerError } from '@/utils/errorHandler';
+import { assertPublicUrl } from '@/utils/publicHttp';
 import logger from '@/utils/logger';
-import { SourceRepository } from '@/repositories/sourceRepository';
+import { rssConfig } from '@/config/rssConfig';
+import { OpmlService } from '@/services/opmlService';
+import { JobQueueService } from '@/services/jobQueueService';
+import { FeedDiscoveryService } from '@/services/feedDiscoveryService';
+import { FeedValidationService, FeedValidationReport } from '@/services/feedValidationService';
+import { ArticleEventService } from '@/services/articleEventService';
+import { FeedOutputService } from '@/services/feedOutputService';
+import { FeedOutputFormat } from '@/utils/feedOutput';
+import { ArticleExportService, ExportFormat, EXPORT_FORMATS } from '@/services/articleExportService';
+import { highlightArticle, ArticleHighlight } from '@/utils/highlight';
+import { highlightTerms, parseSearchQuery } from '@/utils/searchQuery';
+import { ProcessedArticleData } from '@/types/rss';
+import { TranslationService } from '@/services/translationService';
+import { SourceRepository, SourceConfig, SourceHealth, SourceLanguageMismatch } from '@/repositories/sourceRepository';
+
+interface SourceMetadata {
+  name: string;
+  language: string;
+  enabled: boolean;
+  maxArticles?: number;
+  refreshIntervalMinutes: number | null;
+  learnedIntervalMinutes: number | null;
+  lastFetchedAt: string | null;
+  health: Pick<SourceHealth, 'lastSuccessAt' | 'lastError' | 'consecutiveFailures' | 'avgLatencyMs' | 'avgItemYield' | 'nextRetryAt' | 'disabledReason'> | null;
+  languageMismatch: SourceLanguageMismatch | null;
+}
+
+/** Reconnection delay advertised to SSE clients, and keep-alive period. */
+const STREAM_RETRY_MS = 5000;
+const STREAM_HEARTBEAT_MS = 25000;
+
+/** Extension of the feed output routes (`/feed.xml`, ...) to their format. */
+const FEED_FORMATS: Record<string, FeedOutputFormat> = { xml: 'rss', atom: 'atom', json: 'json' };
+const FEED_MAX_ITEMS = 200;
+
+/**
+ * Reads the article filters shared by the list and stream endpoints.
+ */
+function parseFetchOptions(req: Request): FetchOptions {
+  return {
+    category: req.query.category as string,
+    sentiment: req.query.sentiment as string,
+    language: req.query.language as string,
+    search: req.query.search as string,
+    sort: req.query.sort === 'relevance' ? 'relevance' : 'date',
+    feedName: req.query.source as string,
+    translationStatus: req.query.translationStatus as 'all' | 'translated' | 'original',
+    onlyInsights: req.query.onlyInsights === 'true',
+    dateRange: req.query.dateRange as string,
+    isBookmarked: req.query.isBookmarked === 'true',
+    bookmarkIds: req.query.bookmarkIds as string
+  };
+}
+
+/**
+ * Adds the highlighted title and summary snippet of searched terms to each article.
+ */
+function withHighlights(articles: ProcessedArticleData[], search?: string): (ProcessedArticleData & { highlight?: ArticleHighlight })[] {
+  const terms = search ? highlightTerms(parseSearchQuery(search)) : [];
+  if (terms.length === 0) return articles;
+  return articles.map(article => ({ ...article, highlight: highlightArticle(article, terms) }));
+}
+
+/**
+ * Responds with a cursor page: `nextCursor` is passed back as `?cursor=` for the next one.
+ */
+async function sendCursorPage(req: Request, res: Response, limit: number): Promise<void> {
+  const options = parseFetchOptions(req);
+  const { articles, nextCursor, hasMore, total, stats } = await RssRepository.fetchPage({
+    ...options,
+    limit,
+    cursor: req.query.cursor as string,
+    withTotals: req.query.withTotals === 'true'
+  });
+
+  res.status(200).json({
+    message: 'RSS articles retrieved successfully',
+    limit, count: articles.length, nextCursor, hasMore, total, stats, data: withHighlights(articles, options.search),
+  });
+}
 
 /**
  * Retrieves RSS articles with pagination, sorting and filtering.
+ * `?pagination=cursor` (or a `cursor`) switches from page numbers to keyset pagination.
  */
 async function getRssArticles(req: Request, res: Response): Promise<void> {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
-    const category = req.query.category as string;
-    const sentiment = req.query.sentiment as string;
-    const language = req.query.language as string;
-    const search = req.query.search as string;
-    const feedName = req.query.source as string;
-    const translationStatus = req.query.translationStatus as 'all' | 'translated' | 'original';
-    const onlyInsights = req.query.onlyInsights === 'true';
-    const dateRange = req.query.dateRange as string;
-    const isBookmarked = req.query.isBookmarked === 'true';
-    const bookmarkIds = req.query.bookmarkIds as string;
-
-    const { articles, total, stats } = await RssRepository.fetchAll({
-      page, limit, category, sentiment, language, search, feedName,
-      translationStatus, onlyInsights, dateRange, isBookmarked, bookmarkIds
-    });
+
+    if (req.query.pagination === 'cursor' || req.query.cursor) {
+      await sendCursorPage(req, res, limit);
+      return;
+    }
+
+    const options = parseFetchOptions(req);
+    const { articles, total, stats } = await RssRepository.fetchAll({ ...options, page, limit });
 
     res.status(200).json({
       message: 'RSS articles retrieved successfully',
-      total, page, limit, count: articles.length, stats, data: articles,
+      total, page, limit, count: articles.length, stats, data: withHighlights(articles, options.search),
     });
   } catch (error) {
     handleControllerError(res, error, getRssArticles.name);
   }
 }
 
+/**
+ * Streams article events (Server-Sent Events) matching the same filters as `GET /api/rss`.
+ * A comment line is sent periodically so proxies keep the connection open.
+ */
+async function streamArticles(req: Request, res: Response): Promise<void> {
+  try {
+    const options = parseFetchOptions(req);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+    const unsubscribe = ArticleEventService.subscribe(event => {
+      if (ArticleEventService.matches(event, options)) res.write(ArticleEventService.toSse(event));
+    });
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  } catch (error) {
+    handleControllerError(res, error, streamArticles.name);
+  }
+}
+
+/**
+ * Republishes the articles matching the `GET /api/rss` filters as a subscribable feed.
+ */
+async function getArticleFeed(req: Request, res: Response): Promise<void> {
+  try {
+    const format = FEED_FORMATS[req.params.format as string];
+    if (!format) {
+      res.status(404).json({ error: `Unknown feed format. Expected one of: ${Object.keys(FEED_FORMATS).map(ext => `feed.${ext}`).join(', ')}` });
+      return;
+    }
+
+    const origin = `${req.protocol}://${req.get('host')}`;
+    const feed = await FeedOutputService.render(format, {
+      options: parseFetchOptions(req),
+      limit: Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), FEED_MAX_ITEMS),
+      homeUrl: origin,
+      selfUrl: `${origin}${req.originalUrl}`
+    });
+
+    res.setHeader('Content-Type', feed.contentType);
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).send(feed.body);
+  } catch (error) {
+    handleControllerError(res, error, getArticleFeed.name);
+  }
+}
+
+/**
+ * Streams every article matching the `GET /api/rss` filters as CSV or NDJSON.
+ * `?fields=` selects the columns, `?limit=` caps the export (unbounded by default).
+ */
+async function exportArticles(req: Request, res: Response): Promise<void> {
+  try {
+    const format = (req.query.format as string || 'ndjson') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Invalid format. Expected one of: ${EXPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    const fields = ArticleExportService.parseFields(req.query.fields as string);
+    const limit = parseInt(req.query.limit as string) || undefined;
+
+    const filename = `kognit-articles-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.status(200).set({
+      'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`
+    });
+
+    const count = await ArticleExportService.export(res, format, fields, { ...parseFetchOptions(req), limit });
+    logger.info(`📤 Exported ${count} articles (${format})`);
+    res.end();
+  } catch (error) {
+    if (!res.headersSent) return handleControllerError(res, error, exportArticles.name);
+    logger.error('❌ Article export interrupted:', error);
+    res.destroy(error as Error);
+  }
+}
+
 async function processRssFeeds(_req: Request, res: Response): Promise<void> {
   try {
     res.status(202).json({ message: 'RSS processing started...', status: 'processing' });
@@ -74,6 +237,36 @@ async function getRssArticleByLink(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Maps a stored source to the shape exposed by the metadata endpoint.
+ */
+function toHealthMetadata(health: SourceHealth): SourceMetadata['health'] {
+  return {
+    lastSuccessAt: health.lastSuccessAt ?? null,
+    lastError: health.lastError ?? null,
+    consecutiveFailures: health.consecutiveFailures,
+    avgLatencyMs: health.avgLatencyMs,
+    avgItemYield: health.avgItemYield,
+    nextRetryAt: health.nextRetryAt ?? null,
+    disabledReason: health.disabledReason ?? null
+  };
+}
+
+function toSourceMetadata(source: SourceConfig): SourceMetadata {
+  const health = source.health;
+  return {
+    name: source.name,
+    language: source.language || 'en',
+    enabled: source.enabled,
+    maxArticles: source.maxArticles,
+    refreshIntervalMinutes: source.refreshIntervalMinutes ?? null,
+    learnedIntervalMinutes: source.learnedIntervalMinutes ?? null,
+    lastFetchedAt: source.lastFetchedAt ?? null,
+    health: health ? toHealthMetadata(health) : null,
+    languageMismatch: source.languageMismatch ?? null
+  };
+}
+
 async function getMetadata(_req: Request, res: Response): Promise<void> {
   try {
     await SourceRepository.initializeSources();
@@ -81,18 +274,13 @@ async function getMetadata(_req: Request, res: Response): Promise<void> {
     const categories = Array.from(new Set(dbSources.map(s => s.category))).sort();
     const languages = new Set<string>();
     const sources = new Set<string>();
-    const groupedSources: Record<string, { name: string; language: string; enabled: boolean; maxArticles?: number }[]> = {};
+    const groupedSources: Record<string, SourceMetadata[]> = {};
 
     for (const source of dbSources) {
       if (source.language) languages.add(source.language);
       sources.add(source.name);
       if (!groupedSources[source.category]) groupedSources[source.category] = [];
-      groupedSources[source.category].push({
-        name: source.name,
-        language: source.language || 'en',
-        enabled: source.enabled,
-        maxArticles: source.maxArticles
-      });
+      groupedSources[source.category].push(toSourceMetadata(source));
     }
 
     res.status(200).json({
@@ -121,10 +309,53 @@ async function toggleSource(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * Validates the polling interval of a settings update.
+ * `null` switches the source back to the adaptive (learned) interval.
+ */
+function isValidRefreshInterval(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && Number.isInteger(value) && value >= rssConfig.minRefreshMinutes);
+}
+
+const isNonEmptyString = (value: unknown): boolean => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Settings a source update may change, with their validation. Anything else (URL, health,
+ * cache validators...) is managed by the server and cannot be written through this route.
+ */
+const EDITABLE_SOURCE_SETTINGS: Record<string, { isValid: (value: unknown) => boolean; expected: string }> = {
+  refreshIntervalMinutes: { isValid: isValidRefreshInterval, expected: `null or an integer >= ${rssConfig.minRefreshMinutes}` },
+  enabled: { isValid: value => typeof value === 'boolean', expected: 'a boolean' },
+  color: { isValid: isNonEmptyString, expected: 'a non-empty string' },
+  maxArticles: { isValid: value => Number.isInteger(value) && (value as number) > 0, expected: 'a positive integer' },
+  language: { isValid: isNonEmptyString, expected: 'a non-empty string' },
+  category: { isValid: isNonEmptyString, expected: 'a non-empty string' }
+};
+
+/**
+ * @returns {string | null} The reason the settings update is rejected, or null if it is valid.
+ */
+function validateSourceSettings(data: unknown): string | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return 'A JSON object of settings is required';
+  const fields = Object.keys(data);
+  if (fields.length === 0) return 'No setting to update';
+  for (const field of fields) {
+    const rule = EDITABLE_SOURCE_SETTINGS[field];
+    if (!rule) return `${field} cannot be updated (editable: ${Object.keys(EDITABLE_SOURCE_SETTINGS).join(', ')})`;
+    if (!rule.isValid((data as Record<string, unknown>)[field])) return `${field} must be ${rule.expected}`;
+  }
+  return null;
+}
+
 async function updateSourceSettings(req: Request, res: Response): Promise<void> {
   try {
     const name = req.params.name as string;
     const data = req.body;
+    const invalid = validateSourceSettings(data);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
     const success = await SourceRepository.updateSource(name, data);
     if (!success) {
       res.status(404).json({ error: 'Source not found' });
@@ -136,30 +367,104 @@ async function updateSourceSettings(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Builds a new source from the request body; the validated feed language is used when none is given.
+ */
+function toNewSource(body: Record<string, unknown>, validation: FeedValidationReport | null): SourceConfig {
+  return {
+    name: body.name as string,
+    url: body.url as string,
+    category: body.category as string,
+    language: (body.language as string) || validation?.language || 'en',
+    enabled: body.enabled !== false,
+    color: (body.color as string) || '#6366f1',
+    maxArticles: (body.maxArticles as number) || 20
+  };
+}
+
+/**
+ * Validates the feed of a new source. Forcing skips the feed checks, never the public-address check.
+ *
+ * @throws {AppError} 400 if a forced URL is invalid or not public.
+ */
+async function validateNewSourceFeed(url: string, force: boolean): Promise<FeedValidationReport | null> {
+  if (!force) return FeedValidationService.validate(url);
+  await assertPublicUrl(url);
+  return null;
+}
+
+/**
+ * Creates a source after checking that its feed can be fetched and parsed.
+ * A broken feed is refused with 422 and the validation report, unless `force` is set.
+ */
 async function createSource(req: Request, res: Response): Promise<void> {
   try {
-    const { name, url, category, language, enabled, color, maxArticles } = req.body;
+    const { name, url, category, force } = req.body;
     if (!name || !url || !category) {
       res.status(400).json({ error: 'Name, URL and Category are required' });
       return;
     }
-    const success = await SourceRepository.addSource({
-      name, url, category,
-      language: (language as string) || 'en',
-      enabled: enabled !== false,
-      color: (color as string) || '#6366f1',
-      maxArticles: maxArticles || 20
-    });
+
+    const validation = await validateNewSourceFeed(url, force === true);
+    const warnings = validation ? validation.warnings : [];
+    if (validation && !validation.ok) {
+      res.status(422).json({ error: `Feed validation failed: ${validation.error}`, validation });
+      return;
+    }
+
+    const success = await SourceRepository.addSource(toNewSource(req.body, validation));
     if (!success) {
       res.status(409).json({ error: 'Source already exists' });
       return;
     }
-    res.status(201).json({ message: 'Source created successfully', source: { name, url, category } });
+    res.status(201).json({
+      message: 'Source created successfully',
+      source: { name, url, category },
+      warnings
+    });
   } catch (error) {
     handleControllerError(res, error, createSource.name);
   }
 }
 
+/**
+ * Checks a feed URL without saving it (HTTP status, parse errors, coverage, language).
+ */
+async function validateSource(req: Request, res: Response): Promise<void> {
+  try {
+    const { url } = req.body;
+    if (!url || typeof url !== 'string') {
+      res.status(400).json({ error: 'URL is required' });
+      return;
+    }
+    const report: FeedValidationReport = await FeedValidationService.validate(url);
+    res.status(200).json({ message: report.ok ? 'Feed is valid' : 'Feed is invalid', data: report });
+  } catch (error) {
+    handleControllerError(res, error, validateSource.name);
+  }
+}
+
+/**
+ * Discovers the feeds published by a website, so a source can be added from its homepage.
+ */
+async function discoverSources(req: Request, res: Response): Promise<void> {
+  try {
+    const { url } = req.body;
+    if (!url || typeof url !== 'string') {
+      res.status(400).json({ error: 'URL is required' });
+      return;
+    }
+    const candidates = await FeedDiscoveryService.discover(url);
+    res.status(200).json({
+      message: candidates.length > 0 ? 'Feeds discovered' : 'No feed found for this URL',
+      count: candidates.length,
+      data: candidates
+    });
+  } catch (error) {
+    handleControllerError(res, error, discoverSources.name);
+  }
+}
+
 async function removeSource(req: Request, res: Response): Promise<void> {
   try {
     const name = req.params.name as string;
@@ -174,25 +479,104 @@ async function removeSource(req: Request, res: Response): Promise<void> {
   }
 }
 
+async function exportSourcesOpml(_req: Request, res: Response): Promise<void> {
+  try {
+    const opml = await OpmlService.exportSources();
+    res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="kognit-sources.opml"');
+    res.status(200).send(opml);
+  } catch (error) {
+    handleControllerError(res, error, exportSourcesOpml.name);
+  }
+}
+
+/**
+ * Imports sources from an OPML document, sent as raw XML or as `{ opml }` JSON.
+ * `?dryRun=true` returns the preview without writing anything.
+ */
+async function importSourcesOpml(req: Request, res: Response): Promise<void> {
+  try {
+    const xml = typeof req.body === 'string' ? req.body : req.body?.opml;
+    if (!xml || typeof xml !== 'string') {
+      res.status(400).json({ error: 'An OPML document is required' });
+      return;
+    }
+
+    const dryRun = req.query.dryRun === 'true';
+    const report = await OpmlService.importSources(xml, dryRun);
+    res.status(dryRun ? 200 : 201).json({
+      message: dryRun ? 'OPML import preview' : 'OPML import completed',
+      ...report
+    });
+  } catch (error) {
+    handleControllerError(res, error, importSourcesOpml.name);
+  }
+}
+
 async function toggleBookmark(req: Request, res: Response): Promise<void> {
   try {
     const id = req.params.id as string;
     const isBookmarked = await RssRepository.toggleBookmark(id);
+    if (isBookmarked) await JobQueueService.prioritize(id);
     res.status(200).json({ message: isBookmarked ? 'Article bookmarked' : 'Bookmark removed', id, isBookmarked });
   } catch (error) {
     handleControllerError(res, error, toggleBookmark.name);
   }
 }
 
+/**
+ * Loads the article of a translation request.
+ *
+ * @throws {AppError} 400 without a target language or if the article is already in it, 404 if it does not exist.
+ */
+async function findArticleToTranslate(id: string, lang: string): Promise<ProcessedArticleData> {
+  if (!lang) throw new AppError('lang is required', 400);
+  const article = ObjectId.isValid(id) ? await RssRepository.findById(id) : null;
+  if (!article) throw new AppError('Article not found', 404);
+  if ((article.language || 'en') === lang) throw new AppError(`Article is already in ${lang}`, 400);
+  return article;
+}
+
+/**
+ * Translates an article on demand into `?lang=` (title, summary and AI summary).
+ * An existing translation is returned as is.
+ *
+ * @route POST /api/rss/articles/:id/translate
+ */
+async function translateArticle(req: Request, res: Response): Promise<void> {
+  try {
+    const id = req.params.id as string;
+    const lang = typeof req.query.lang === 'string' ? req.query.lang.trim().toLowerCase() : '';
+    const article = await findArticleToTranslate(id, lang);
+
+    const existing = article.translations?.[lang];
+    const translations = existing ? article.translations! : await TranslationService.translateArticle(article, [lang]);
+    res.status(existing ? 200 : 201).json({
+      message: existing ? 'Translation already available' : 'Article translated',
+      id, language: lang, translation: translations[lang]
+    });
+  } catch (error) {
+    handleControllerError(res, error, translateArticle.name);
+  }
+}
+
 export {
   getRssArticles,
+  streamArticles,
   processRssFeeds,
   deleteAllRssArticles,
   getRssArticleByLink,
   getMetadata,
   toggleSource,
   toggleBookmark,
+  translateArticle,
   updateSourceSettings,
   createSource,
-  removeSource
+  validateSource,
+  discoverSources,
+  removeSource,
+  exportSourcesOpml,
+  getArticleFeed,
+  exportArticles,
+  importSourcesOpml
 };
\ No newline at end of file
@@ -0,0 +1,120 @@
+// src/controllers/webhookController.ts
+import { Request, Response } from 'express';
+import { WebhookRepository } from '@/repositories/webhookRepository';
+import { WebhookService } from '@/services/webhookService';
+import { Webhook, WebhookDeliveryStatus } from '@/types/webhook';
+import { AppError, handleControllerError } from '@/utils/errorHandler';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'success', 'failed', 'dead'];
+
+/**
+ * Hides the signing secret, which is only returned when the webhook is created.
+ */
+function toPublicWebhook(webhook: Webhook): Webhook {
+  return { ...webhook, secret: `${webhook.secret.slice(0, 4)}…` };
+}
+
+/**
+ * Lists the registered webhooks.
+ *
+ * @route GET /api/webhooks
+ */
+export async function getWebhooks(_req: Request, res: Response): Promise<void> {
+  try {
+    const webhooks = await WebhookRepository.findAll();
+    res.status(200).json({
+      message: 'Webhooks retrieved successfully',
+      count: webhooks.length,
+      data: webhooks.map(toPublicWebhook)
+    });
+  } catch (error) {
+    handleControllerError(res, error, getWebhooks.name);
+  }
+}
+
+/**
+ * Registers a webhook. The response is the only one carrying the full signing secret.
+ *
+ * @route POST /api/webhooks
+ */
+export async function createWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const webhook = await WebhookService.create(req.body || {});
+    res.status(201).json({ message: 'Webhook registered', data: webhook });
+  } catch (error) {
+    handleControllerError(res, error, createWebhook.name);
+  }
+}
+
+/**
+ * Updates the URL, events, filter, secret or enabled flag of a webhook.
+ *
+ * @route PATCH /api/webhooks/:id
+ */
+export async function updateWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const webhook = await WebhookService.update(req.params.id as string, req.body || {});
+    res.status(200).json({ message: 'Webhook updated', data: toPublicWebhook(webhook) });
+  } catch (error) {
+    handleControllerError(res, error, updateWebhook.name);
+  }
+}
+
+/**
+ * Removes a webhook and its delivery log.
+ *
+ * @route DELETE /api/webhooks/:id
+ */
+export async function deleteWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const deleted = await WebhookRepository.delete(req.params.id as string);
+    if (!deleted) throw new AppError('Webhook not found', 404);
+    res.status(200).json({ message: 'Webhook deleted' });
+  } catch (error) {
+    handleControllerError(res, error, deleteWebhook.name);
+  }
+}
+
+/**
+ * Lists the delivery attempts of a webhook, most recent first.
+ *
+ * @route GET /api/webhooks/:id/deliveries
+ */
+export async function getWebhookDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const id = req.params.id as string;
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      throw new AppError(`Invalid status. Expected one of: ${DELIVERY_STATUSES.join(', ')}`, 400);
+    }
+    if (!(await WebhookRepository.findById(id))) throw new AppError('Webhook not found', 404);
+
+    const deliveries = await WebhookRepository.listDeliveries(id, { status, limit });
+    res.status(200).json({
+      message: 'Deliveries retrieved successfully',
+      count: deliveries.length,
+      data: deliveries
+    });
+  } catch (error) {
+    handleControllerError(res, error, getWebhookDeliveries.name);
+  }
+}
+
+/**
+ * Sends a signed sample payload to the webhook and reports the outcome.
+ *
+ * @route POST /api/webhooks/:id/test
+ */
+export async function testWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const delivery = await WebhookService.testFire(req.params.id as string);
+    res.status(200).json({
+      message: delivery.status === 'success' ? 'Test delivery succeeded' : 'Test delivery failed',
+      data: delivery
+    });
+  } catch (error) {
+    handleControllerError(res, error, testWebhook.name);
+  }
+}
@@ -7,8 +7,27 @@ import { connectToDatabase } from './config/database';
 import rssRoutes from './routes/rssRoutes';
 import userRoutes from './routes/userRoutes';
 import analyticsRoutes from './routes/analyticsRoutes';
+import entityRoutes from './routes/entityRoutes';
+import jobRoutes from './routes/jobRoutes';
+import webhookRoutes from './routes/webhookRoutes';
+import authRoutes from './routes/authRoutes';
+import apiKeyRoutes from './routes/apiKeyRoutes';
+import { resolveUser, resolveApiKey, requireAuth, adminOnly } from './middleware/auth';
+import { rateLimit } from './middleware/rateLimit';
+import { AccountRepository } from './repositories/accountRepository';
+import { ApiKeyRepository } from './repositories/apiKeyRepository';
+import { RateLimitService } from './services/rateLimitService';
+import { rateLimitConfig } from './config/rateLimitConfig';
 import logger from './utils/logger';
 import { RssService } from './services/rssService';
+import { WebhookService } from './services/webhookService';
+import { WebhookRepository } from './repositories/webhookRepository';
+import { webhookConfig } from './config/webhookConfig';
+import { TranslationRepository } from './repositories/translationRepository';
+import { EntityRepository } from './repositories/entityRepository';
+import { translationConfig } from './config/translationConfig';
+import { LanguageDetectionService } from './services/languageDetectionService';
+import { languageDetectionConfig } from './config/rssConfig';
 
 // Load environment variables
 dotenv.config({ path: '.env.development' });
@@ -16,18 +35,27 @@ dotenv.config({ path: '.env.development' });
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
 
+// Client IPs (rate limiting) come from X-Forwarded-For behind a proxy
+app.set('trust proxy', rateLimitConfig.trustProxy);
+
 // Middleware
 app.use(helmet({
     crossOriginResourcePolicy: false, // Required for some browsers to allow cross-origin requests
 }));
 app.use(cors({
-    origin: '*', // Allows any website to call this API
+    // Allows any website to call this API unless CORS_ORIGINS lists the allowed ones
+    origin: process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',').map(o => o.trim()) : '*',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining']
 }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
+// Resolve the current user from the bearer token and the API key (anonymous otherwise)
+app.use(resolveUser);
+app.use('/api', resolveApiKey);
+
 /**
  * Request logging middleware to track API latency and usage.
  */
@@ -68,19 +96,42 @@ app.get('/api', (_req, res) => {
             rss: '/api/rss',
             rssSearch: '/api/rss/search?link=<url>',
             analytics: '/api/analytics',
+            entities: '/api/entities/:id',
+            auth: '/api/auth',
+            jobs: '/api/jobs',
+            webhooks: '/api/webhooks',
+            keys: '/api/keys',
         },
     });
 });
 
+// Per-key / per-IP rate limit of the whole API (expensive routes add their own)
+app.use('/api', rateLimit('standard'));
+
 // RSS Routes
 app.use('/api/rss', rssRoutes);
 
-// User Routes
-app.use('/api/user', userRoutes);
+// Auth Routes
+app.use('/api/auth', authRoutes);
+
+// User Routes (each profile is restricted to its owner)
+app.use('/api/user', requireAuth, userRoutes);
 
 // Analytics Routes
 app.use('/api/analytics', analyticsRoutes);
 
+// Entity Routes
+app.use('/api/entities', entityRoutes);
+
+// Job Queue Routes
+app.use('/api/jobs', adminOnly, jobRoutes);
+
+// Webhook Routes
+app.use('/api/webhooks', adminOnly, webhookRoutes);
+
+// API Key Routes
+app.use('/api/keys', adminOnly, apiKeyRoutes);
+
 // Error handling middleware
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
     logger.error('Unhandled Application Error:', err);
@@ -90,6 +141,35 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
     });
 });
 
+/**
+ * Schedules the background maintenance jobs (webhook retries, rate-limit cleanup, language audit).
+ */
+function scheduleMaintenanceJobs(): void {
+    // Retry the failed webhook deliveries whose backoff elapsed
+    cron.schedule(webhookConfig.retrySchedule, async () => {
+        try {
+            const retried = await WebhookService.retryDue();
+            if (retried > 0) logger.info(`🪝 Retried ${retried} webhook deliveries`);
+        } catch (error) {
+            logger.error('Error in webhook retry job:', error);
+        }
+    });
+
+    // Flag the sources whose articles are mostly in another language than configured
+    cron.schedule(languageDetectionConfig.auditSchedule, async () => {
+        try {
+            await LanguageDetectionService.auditSources();
+        } catch (error) {
+            logger.error('Error in language audit job:', error);
+        }
+    });
+
+    // Forget the rate-limit buckets of idle clients
+    cron.schedule('*/5 * * * *', () => {
+        RateLimitService.prune();
+    });
+}
+
 /**
  * Main entry point to initialize the server and its dependencies.
  */
@@ -107,15 +187,24 @@ async function startServer(): Promise<void> {
         // 2. Connect to MongoDB in the background
         await connectToDatabase();
 
-        // 3. Setup cron job if RSS is enabled
+        // 3. Create the indexes and schedule the maintenance jobs
+        await AccountRepository.ensureIndexes();
+        await ApiKeyRepository.ensureIndexes();
+        await WebhookRepository.ensureIndexes();
+        await TranslationRepository.ensureIndexes(translationConfig.cacheTtlDays);
+        await EntityRepository.ensureIndexes();
+        scheduleMaintenanceJobs();
+
+        // 4. Setup the feed scheduler if RSS is enabled
+        // Each tick only fetches the sources whose own polling interval has elapsed.
         if (process.env.RSS_ENABLED === 'true') {
-            const schedule = process.env.RSS_CRON_SCHEDULE || '*/30 * * * *';
-            logger.info(`⏰ RSS cron job scheduled: ${schedule}`);
+            const schedule = process.env.RSS_CRON_SCHEDULE || '*/5 * * * *';
+            logger.info(`⏰ RSS scheduler tick: ${schedule}`);
 
             cron.schedule(schedule, async () => {
                 try {
-                    logger.info('⏰ Cron job triggered: processing feeds...');
-                    await RssService.processAllFeeds();
+                    logger.debug('⏰ Scheduler tick: processing due feeds...');
+                    await RssService.processAllFeeds({ onlyDue: true });
                 } catch (error) {
                     logger.error('Error in cron job:', error);
                 }
@@ -124,7 +213,7 @@ async function startServer(): Promise<void> {
             // Run initial processing
             setTimeout(async () => {
                 logger.info('🚀 Initial processing starting...');
-                await RssService.processAllFeeds().catch(err => {
+                await RssService.processAllFeeds({ onlyDue: true }).catch(err => {
                     logger.error('Failed initial processing:', err);
                 });
             }, 5000);
@@ -0,0 +1,88 @@
+// src/middleware/auth.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthService } from '@/services/authService';
+import { ApiKeyService } from '@/services/apiKeyService';
+import { ApiKeyScope } from '@/types/apiKey';
+
+function deny(res: Response, statusCode: number, message: string): void {
+    res.status(statusCode).json({ error: message, statusCode });
+}
+
+/**
+ * Attaches the user of a valid `Authorization: Bearer <token>` header to `req.user`.
+ * Requests without a valid token continue anonymously.
+ */
+export function resolveUser(req: Request, _res: Response, next: NextFunction): void {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) {
+        const user = AuthService.authenticate(header.slice('Bearer '.length).trim());
+        if (user) req.user = user;
+    }
+    next();
+}
+
+/**
+ * Rejects anonymous requests (401).
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+    if (!req.user) return deny(res, 401, 'Authentication required');
+    next();
+}
+
+/**
+ * Attaches the key of an `X-API-Key` header to `req.apiKey`. Unknown or revoked keys
+ * are refused (401), and keys without `read:articles` cannot read (403).
+ */
+export async function resolveApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const key = req.header('x-api-key')?.trim();
+    if (!key) return next();
+    try {
+        const principal = await ApiKeyService.authenticate(key);
+        if (!principal) return deny(res, 401, 'Invalid or revoked API key');
+        if (req.method === 'GET' && !ApiKeyService.hasScope(principal, 'read:articles')) {
+            return deny(res, 403, 'read:articles scope required');
+        }
+        req.apiKey = principal;
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/**
+ * Lets through admin users and API keys granting the scope (401 when anonymous, 403 otherwise).
+ * The admin role is checked against the account, not only the token.
+ */
+export function requireScope(scope: ApiKeyScope): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            if (req.apiKey && ApiKeyService.hasScope(req.apiKey, scope)) return next();
+            if (await AuthService.isAdmin(req.user)) return next();
+            if (!req.user && !req.apiKey) return deny(res, 401, 'Authentication required');
+            deny(res, 403, `${scope} scope required`);
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+/**
+ * Restricts `/:userId/*` routes to the owner of the profile (or an admin).
+ */
+export async function requireProfileOwner(req: Request, res: Response, next: NextFunction): Promise<void> {
+    if (!req.user) return deny(res, 401, 'Authentication required');
+    try {
+        if (req.user.profileId !== req.params.userId && !(await AuthService.isAdmin(req.user))) {
+            return deny(res, 403, 'This profile belongs to another user');
+        }
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+/** Handlers of the source management routes. */
+export const sourceWriters: RequestHandler[] = [requireScope('write:sources')];
+
+/** Handlers of the admin-only routes. */
+export const adminOnly: RequestHandler[] = [requireScope('admin')];
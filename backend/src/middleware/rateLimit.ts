@@ -0,0 +1,29 @@
+// src/middleware/rateLimit.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { rateLimitConfig, RateLimitTier } from '@/config/rateLimitConfig';
+import { RateLimitService } from '@/services/rateLimitService';
+
+/**
+ * Token-bucket rate limit of a route tier, per API key or else per client IP.
+ * Refused requests get a 429 with `Retry-After` (seconds).
+ */
+export function rateLimit(tier: RateLimitTier): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!rateLimitConfig.enabled) return next();
+
+        const client = req.apiKey ? `key:${req.apiKey.id}` : `ip:${req.ip}`;
+        const policy = rateLimitConfig[tier][req.apiKey ? 'key' : 'ip'];
+        const decision = RateLimitService.consume(`${tier}:${client}`, policy);
+
+        res.setHeader('RateLimit-Limit', decision.limit);
+        res.setHeader('RateLimit-Remaining', decision.remaining);
+        if (decision.allowed) return next();
+
+        res.setHeader('Retry-After', decision.retryAfterSeconds);
+        res.status(429).json({
+            error: 'Too many requests',
+            statusCode: 429,
+            retryAfter: decision.retryAfterSeconds
+        });
+    };
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { RssRepository } from '../rssRepository';
 import { getDatabase } from '@/config/database';
-import { Collection, Db } from 'mongodb';
+import { Collection, Db, ObjectId } from 'mongodb';
 import { ProcessedArticleData } from '@/types/rss';
 
 vi.mock('@/config/database', () => ({
@@ -14,6 +14,7 @@ const collectionMock = {
     skip: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
     toArray: vi.fn(),
+    aggregate: vi.fn(),
     countDocuments: vi.fn(),
     findOne: vi.fn(),
     deleteMany: vi.fn(),
@@ -31,16 +32,18 @@ describe('RssRepository Basic Operations', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         vi.mocked(getDatabase).mockReturnValue(mockDb);
+        RssRepository.invalidateStats();
     });
 
     it('should fetch all articles with default parameters', async () => {
+        const aggregateToArray = vi.fn().mockResolvedValue([{ metadata: [{ total: 100 }], data: [{ title: 'Test Article' }] }]);
+        vi.mocked(collectionMock.aggregate).mockReturnValue({ toArray: aggregateToArray });
         vi.mocked(collectionMock.countDocuments).mockResolvedValue(100);
-        vi.mocked(collectionMock.toArray).mockResolvedValue([{ title: 'Test Article' }]);
 
         const result = await RssRepository.fetchAll();
 
         expect(mockDb.collection).toHaveBeenCalled();
-        expect(collectionMock.find).toHaveBeenCalledWith({});
+        expect(collectionMock.aggregate.mock.calls[0][0][0]).toEqual({ $match: {} });
         expect(result.total).toBe(100);
         expect(result.articles).toHaveLength(1);
     });
@@ -73,8 +76,136 @@ describe('RssRepository Specialized Queries', () => {
 
     it('should save an article', async () => {
         const article = { title: 'New' } as ProcessedArticleData;
-        await RssRepository.save(article);
+        const insertedId = new ObjectId();
+        collectionMock.insertOne.mockResolvedValue({ insertedId });
+        const id = await RssRepository.save(article);
 
         expect(collectionMock.insertOne).toHaveBeenCalledWith(article);
+        expect(id).toBe(insertedId);
+    });
+});
+
+describe('RssRepository Cursor Pagination', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getDatabase).mockReturnValue(mockDb);
+    });
+
+    it('should return a cursor to the next page without counting', async () => {
+        const ids = [new ObjectId(), new ObjectId(), new ObjectId()];
+        vi.mocked(collectionMock.toArray).mockResolvedValue(ids.map(_id => ({ _id, publicationDate: '2026-03-02T08:00:00.000Z' })));
+
+        const page = await RssRepository.fetchPage({ limit: 2 });
+
+        expect(collectionMock.sort).toHaveBeenCalledWith({ publicationDate: -1, _id: -1 });
+        expect(collectionMock.limit).toHaveBeenCalledWith(3);
+        expect(collectionMock.countDocuments).not.toHaveBeenCalled();
+        expect(page.articles).toHaveLength(2);
+        expect(page.hasMore).toBe(true);
+        expect(page.total).toBeUndefined();
+
+        vi.mocked(collectionMock.toArray).mockResolvedValue([]);
+        const next = await RssRepository.fetchPage({ limit: 2, category: 'Tech', cursor: page.nextCursor });
+
+        expect(collectionMock.find).toHaveBeenLastCalledWith({
+            $and: [
+                { category: 'Tech' },
+                {
+                    $or: [
+                        { publicationDate: { $lt: '2026-03-02T08:00:00.000Z' } },
+                        { publicationDate: '2026-03-02T08:00:00.000Z', _id: { $lt: ids[1] } },
+                        { publicationDate: null }
+                    ]
+                }
+            ]
+        });
+        expect(next).toEqual({ articles: [], hasMore: false, nextCursor: null });
+    });
+
+    it('should reject a forged cursor', async () => {
+        await expect(RssRepository.fetchPage({ cursor: 'not-a-cursor' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
+
+describe('RssRepository Aggregated Listing', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getDatabase).mockReturnValue(mockDb);
+        RssRepository.invalidateStats();
+        vi.mocked(collectionMock.countDocuments).mockResolvedValue(7);
+    });
+
+    it('should count and page every filter in a single $facet round trip', async () => {
+        const bookmarkId = new ObjectId();
+        vi.mocked(collectionMock.aggregate).mockReturnValue({ toArray: vi.fn().mockResolvedValue([{ metadata: [], data: [] }]) });
+
+        const result = await RssRepository.fetchAll({
+            page: 3, limit: 10, category: 'Tech', onlyInsights: true,
+            isBookmarked: true, bookmarkIds: bookmarkId.toHexString(), translationStatus: 'translated'
+        });
+
+        const [pipeline, options] = collectionMock.aggregate.mock.calls[0];
+        expect(pipeline).toEqual([
+            {
+                $match: {
+                    category: 'Tech',
+                    'analysis.iaSummary': { $exists: true, $ne: null },
+                    _id: { $in: [bookmarkId] },
+                    translations: { $exists: true, $ne: {} }
+                }
+            },
+            { $sort: { publicationDate: -1 } },
+            { $facet: { metadata: [{ $count: 'total' }], data: [{ $skip: 20 }, { $limit: 10 }] } }
+        ]);
+        expect(options).toEqual({ allowDiskUse: true });
+        expect(result).toEqual({ articles: [], total: 0, stats: { today: 7, week: 7, saved: 7, enriched: 7, total: 7 } });
+    });
+
+    it('should cache the global stats for a short time', async () => {
+        const now = Date.now();
+
+        await Promise.all([RssRepository.getStats(now), RssRepository.getStats(now + 1000)]);
+        expect(collectionMock.countDocuments).toHaveBeenCalledTimes(5);
+
+        await RssRepository.getStats(now + 60_000);
+        expect(collectionMock.countDocuments).toHaveBeenCalledTimes(10);
+    });
+});
+
+describe('RssRepository Search Syntax', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(getDatabase).mockReturnValue(mockDb);
+    });
+
+    it('should translate fields, phrases, exclusions and dates into the filter', () => {
+        const query = RssRepository.buildFilterQuery({
+            search: 'fed "rate cut" -crypto entity:"Jerome Powell" source:Reuters sentiment:Bearish date:2026-01-01..2026-01-31'
+        });
+
+        expect(query).toEqual({
+            $text: { $search: 'fed "rate cut" -crypto' },
+            $and: [
+                { feedName: /Reuters/i },
+                { 'analysis.entities.text': /^Jerome Powell$/i },
+                { 'analysis.sentiment': 'bearish' },
+                { publicationDate: { $gte: '2026-01-01T00:00:00.000Z', $lt: '2026-02-01T00:00:00.000Z' } }
+            ]
+        });
+        expect(RssRepository.buildFilterQuery({ search: '-crypto title:a.b' })).toEqual({
+            $and: [{ title: /a\.b/i }, { $nor: [{ title: /crypto/i }, { summary: /crypto/i }] }]
+        });
+    });
+
+    it('should page relevance-sorted results by offset', async () => {
+        const ids = [new ObjectId(), new ObjectId(), new ObjectId()];
+        vi.mocked(collectionMock.toArray).mockResolvedValue(ids.map(_id => ({ _id })));
+
+        const page = await RssRepository.fetchPage({ limit: 2, search: 'inflation', sort: 'relevance' });
+        await RssRepository.fetchPage({ limit: 2, search: 'inflation', sort: 'relevance', cursor: page.nextCursor });
+
+        expect(collectionMock.sort).toHaveBeenCalledWith({ score: { $meta: 'textScore' }, publicationDate: -1 });
+        expect(collectionMock.skip.mock.calls).toEqual([[0], [2]]);
+        expect(collectionMock.find).toHaveBeenLastCalledWith({ $text: { $search: 'inflation' } });
     });
 });
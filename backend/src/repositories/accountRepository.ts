@@ -0,0 +1,59 @@
+// src/repositories/accountRepository.ts
+import { getDatabase } from '@/config/database';
+import { UserAccount } from '@/types/auth';
+import { Filter, ObjectId } from 'mongodb';
+
+const COLLECTION_NAME = 'accounts';
+
+export class AccountRepository {
+    /**
+     * Creates the unique indexes on email and profile.
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<UserAccount>(COLLECTION_NAME);
+        await collection.createIndex({ email: 1 }, { name: 'unique_email', unique: true });
+        await collection.createIndex({ profileId: 1 }, { name: 'unique_profile', unique: true });
+    }
+
+    public static async create(account: UserAccount): Promise<ObjectId> {
+        const db = getDatabase();
+        const result = await db.collection<UserAccount>(COLLECTION_NAME).insertOne(account);
+        return result.insertedId;
+    }
+
+    public static async findByEmail(email: string): Promise<UserAccount | null> {
+        const db = getDatabase();
+        return await db.collection<UserAccount>(COLLECTION_NAME).findOne({ email: email.toLowerCase() });
+    }
+
+    /**
+     * @returns {Promise<boolean>} False if no account has this email.
+     */
+    public static async setRole(email: string, role: UserAccount['role']): Promise<boolean> {
+        const db = getDatabase();
+        const result = await db.collection<UserAccount>(COLLECTION_NAME).updateOne(
+            { email: email.toLowerCase() },
+            { $set: { role } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    public static async findRole(id: string): Promise<UserAccount['role'] | null> {
+        if (!ObjectId.isValid(id)) return null;
+        const db = getDatabase();
+        const account = await db.collection<UserAccount>(COLLECTION_NAME).findOne(
+            { _id: new ObjectId(id) } as Filter<UserAccount>,
+            { projection: { role: 1 } }
+        );
+        return account?.role ?? null;
+    }
+
+    public static async touchLogin(id: ObjectId): Promise<void> {
+        const db = getDatabase();
+        await db.collection<UserAccount>(COLLECTION_NAME).updateOne(
+            { _id: id } as Filter<UserAccount>,
+            { $set: { lastLoginAt: new Date().toISOString() } }
+        );
+    }
+}
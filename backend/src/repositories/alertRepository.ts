@@ -0,0 +1,85 @@
+// src/repositories/alertRepository.ts
+import { getDatabase } from '@/config/database';
+import { UserAlert } from '@/types/user';
+import { Filter, ObjectId } from 'mongodb';
+
+const COLLECTION_NAME = 'user_alerts';
+
+export class AlertRepository {
+    /**
+     * Creates the indexes of the notification inbox (one alert per rule and article).
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        await collection.createIndex({ userId: 1, searchId: 1, articleId: 1 }, { name: 'unique_alert', unique: true });
+        await collection.createIndex({ userId: 1, read: 1, createdAt: -1 }, { name: 'user_inbox' });
+    }
+
+    /**
+     * Stores alerts, skipping the ones already recorded (re-analysed articles).
+     *
+     * @returns {Promise<number>} The number of alerts created.
+     */
+    public static async insertMany(alerts: UserAlert[]): Promise<number> {
+        if (alerts.length === 0) return 0;
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        try {
+            const result = await collection.insertMany(alerts, { ordered: false });
+            return result.insertedCount;
+        } catch (error) {
+            const bulkError = error as { code?: number; result?: { insertedCount?: number } };
+            if (bulkError.code !== 11000) throw error;
+            return bulkError.result?.insertedCount ?? 0;
+        }
+    }
+
+    /**
+     * Lists the alerts of a user, most recent first.
+     */
+    public static async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<UserAlert[]> {
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        const query: Filter<UserAlert> = { userId };
+        if (options.unreadOnly) query.read = false;
+
+        return await collection
+            .find(query)
+            .sort({ createdAt: -1 })
+            .limit(options.limit ?? 50)
+            .toArray();
+    }
+
+    public static async countUnread(userId: string): Promise<number> {
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        return await collection.countDocuments({ userId, read: false });
+    }
+
+    /**
+     * Marks alerts as read: the given ones, or all of them when no id is provided.
+     *
+     * @returns {Promise<number>} The number of alerts updated.
+     */
+    public static async markRead(userId: string, ids?: string[]): Promise<number> {
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        const query: Filter<UserAlert> = { userId, read: false };
+        if (ids) {
+            query._id = { $in: ids.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) };
+        }
+        const result = await collection.updateMany(query, { $set: { read: true } });
+        return result.modifiedCount;
+    }
+
+    /**
+     * Removes the alerts created by a saved search.
+     */
+    public static async deleteBySearch(userId: string, searchId: string): Promise<number> {
+        const db = getDatabase();
+        const collection = db.collection<UserAlert>(COLLECTION_NAME);
+        const result = await collection.deleteMany({ userId, searchId });
+        return result.deletedCount;
+    }
+}
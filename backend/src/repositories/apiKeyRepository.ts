@@ -0,0 +1,56 @@
+// src/repositories/apiKeyRepository.ts
+import { getDatabase } from '@/config/database';
+import { ApiKey } from '@/types/apiKey';
+import { Filter, ObjectId } from 'mongodb';
+
+const COLLECTION_NAME = 'api_keys';
+
+export class ApiKeyRepository {
+    /**
+     * Creates the unique index on the key hash.
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        await db.collection<ApiKey>(COLLECTION_NAME).createIndex({ keyHash: 1 }, { name: 'unique_key_hash', unique: true });
+    }
+
+    public static async create(apiKey: ApiKey): Promise<ObjectId> {
+        const db = getDatabase();
+        const result = await db.collection<ApiKey>(COLLECTION_NAME).insertOne(apiKey);
+        return result.insertedId;
+    }
+
+    public static async findAll(): Promise<ApiKey[]> {
+        const db = getDatabase();
+        return await db.collection<ApiKey>(COLLECTION_NAME).find().sort({ createdAt: -1 }).toArray();
+    }
+
+    /**
+     * Finds a key that has not been revoked.
+     */
+    public static async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+        const db = getDatabase();
+        return await db.collection<ApiKey>(COLLECTION_NAME).findOne({ keyHash, revokedAt: null });
+    }
+
+    /**
+     * @returns {Promise<boolean>} False if the key does not exist or is already revoked.
+     */
+    public static async revoke(id: string): Promise<boolean> {
+        if (!ObjectId.isValid(id)) return false;
+        const db = getDatabase();
+        const result = await db.collection<ApiKey>(COLLECTION_NAME).updateOne(
+            { _id: new ObjectId(id), revokedAt: null } as Filter<ApiKey>,
+            { $set: { revokedAt: new Date().toISOString() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    public static async touch(id: ObjectId): Promise<void> {
+        const db = getDatabase();
+        await db.collection<ApiKey>(COLLECTION_NAME).updateOne(
+            { _id: id } as Filter<ApiKey>,
+            { $set: { lastUsedAt: new Date().toISOString() } }
+        );
+    }
+}
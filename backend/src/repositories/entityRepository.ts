@@ -0,0 +1,102 @@
+// src/repositories/entityRepository.ts
+import { AnyBulkWriteOperation } from 'mongodb';
+import { getDatabase } from '@/config/database';
+import { EntityCooccurrence, EntityMention, KnowledgeEntity } from '@/types/entity';
+
+const ENTITIES_COLLECTION = 'entities';
+const COOCCURRENCES_COLLECTION = 'entity_cooccurrences';
+
+export class EntityRepository {
+    /**
+     * Creates the index listing the entities that co-occur with one entity.
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        await db.collection<EntityCooccurrence>(COOCCURRENCES_COLLECTION).createIndex(
+            { entities: 1, count: -1 },
+            { name: 'related_entities' }
+        );
+    }
+
+    /**
+     * Counts one article for each entity (mentions must be one per entity).
+     */
+    public static async recordMentions(mentions: EntityMention[], seenAt: string): Promise<void> {
+        if (mentions.length === 0) return;
+        const db = getDatabase();
+        const operations: AnyBulkWriteOperation<KnowledgeEntity>[] = mentions.map(mention => ({
+            updateOne: {
+                filter: { _id: mention.entityId },
+                update: {
+                    $setOnInsert: { name: mention.name, ...(mention.assetSymbol ? { assetSymbol: mention.assetSymbol } : {}) },
+                    $inc: { articleCount: 1, [`labels.${mention.label}`]: 1 },
+                    $addToSet: { aliases: mention.text },
+                    $min: { firstSeenAt: seenAt },
+                    $max: { lastSeenAt: seenAt }
+                },
+                upsert: true
+            }
+        }));
+        await db.collection<KnowledgeEntity>(ENTITIES_COLLECTION).bulkWrite(operations, { ordered: false });
+    }
+
+    /**
+     * Counts one article for each pair of entities.
+     */
+    public static async recordCooccurrences(entityIds: string[], seenAt: string): Promise<void> {
+        const sorted = [...new Set(entityIds)].sort();
+        const operations: AnyBulkWriteOperation<EntityCooccurrence>[] = [];
+        for (let i = 0; i < sorted.length; i++) {
+            for (let j = i + 1; j < sorted.length; j++) {
+                operations.push({
+                    updateOne: {
+                        filter: { _id: `${sorted[i]}|${sorted[j]}` },
+                        update: {
+                            $setOnInsert: { entities: [sorted[i], sorted[j]] },
+                            $inc: { count: 1 },
+                            $max: { lastSeenAt: seenAt }
+                        },
+                        upsert: true
+                    }
+                });
+            }
+        }
+        if (operations.length === 0) return;
+        const db = getDatabase();
+        await db.collection<EntityCooccurrence>(COOCCURRENCES_COLLECTION).bulkWrite(operations, { ordered: false });
+    }
+
+    public static async findById(id: string): Promise<KnowledgeEntity | null> {
+        const db = getDatabase();
+        return db.collection<KnowledgeEntity>(ENTITIES_COLLECTION).findOne({ _id: id });
+    }
+
+    public static async findByIds(ids: string[]): Promise<KnowledgeEntity[]> {
+        if (ids.length === 0) return [];
+        const db = getDatabase();
+        return db.collection<KnowledgeEntity>(ENTITIES_COLLECTION).find({ _id: { $in: ids } }).toArray();
+    }
+
+    /**
+     * @returns {Promise<EntityCooccurrence[]>} Pairs including the entity, most frequent first.
+     */
+    public static async findCooccurrences(id: string, limit: number): Promise<EntityCooccurrence[]> {
+        const db = getDatabase();
+        return db.collection<EntityCooccurrence>(COOCCURRENCES_COLLECTION)
+            .find({ entities: id })
+            .sort({ count: -1 })
+            .limit(limit)
+            .toArray();
+    }
+
+    /**
+     * Empties the store before a rebuild from the articles.
+     */
+    public static async deleteAll(): Promise<void> {
+        const db = getDatabase();
+        await Promise.all([
+            db.collection<KnowledgeEntity>(ENTITIES_COLLECTION).deleteMany({}),
+            db.collection<EntityCooccurrence>(COOCCURRENCES_COLLECTION).deleteMany({})
+        ]);
+    }
+}
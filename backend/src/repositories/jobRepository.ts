@@ -0,0 +1,269 @@
+// src/repositories/jobRepository.ts
+import { getDatabase } from '@/config/database';
+import { Job, JobStatus, JobType } from '@/types/job';
+import { Filter, ObjectId } from 'mongodb';
+
+const COLLECTION_NAME = 'jobs';
+
+export interface JobListOptions {
+    status?: JobStatus;
+    type?: JobType;
+    articleId?: string;
+    limit?: number;
+}
+
+export class JobRepository {
+    /**
+     * Creates the indexes used by the queue (claim order and one job per article and type).
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        await collection.createIndex({ type: 1, articleId: 1 }, { name: 'unique_job', unique: true });
+        await collection.createIndex({ status: 1, priority: -1, runAt: 1 }, { name: 'claim_order' });
+    }
+
+    /**
+     * Queues a job unless one already exists for the same article and type.
+     * An existing job keeps its state but takes the highest of both priorities.
+     *
+     * @returns {Promise<boolean>} True if a new job was created.
+     */
+    public static async enqueue(type: JobType, articleId: string, priority: number, maxAttempts: number): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date().toISOString();
+
+        const result = await collection.updateOne(
+            { type, articleId },
+            {
+                $setOnInsert: {
+                    status: 'queued',
+                    attempts: 0,
+                    maxAttempts,
+                    runAt: now,
+                    leaseUntil: null,
+                    workerId: null,
+                    lastError: null,
+                    createdAt: now,
+                    updatedAt: now
+                },
+                $max: { priority }
+            },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    }
+
+    /**
+     * Puts a finished (`done`) job back in the queue with fresh attempts, for work that
+     * has to run again on the same article (e.g. a newly preferred translation language).
+     *
+     * @returns {Promise<boolean>} True if a finished job was reopened.
+     */
+    public static async reopen(type: JobType, articleId: string, priority: number, maxAttempts: number): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date().toISOString();
+
+        const result = await collection.updateOne(
+            { type, articleId, status: 'done' },
+            {
+                $set: {
+                    status: 'queued',
+                    attempts: 0,
+                    maxAttempts,
+                    runAt: now,
+                    leaseUntil: null,
+                    workerId: null,
+                    lastError: null,
+                    startedAt: null,
+                    finishedAt: null,
+                    updatedAt: now
+                },
+                $max: { priority }
+            }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Raises the priority of the pending jobs of an article.
+     */
+    public static async raisePriority(articleId: string, priority: number): Promise<number> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const result = await collection.updateMany(
+            { articleId, status: { $in: ['queued', 'failed'] } },
+            { $max: { priority } }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Atomically claims the next runnable job: queued or failed jobs whose retry date
+     * has passed, or running jobs whose lease expired (crashed worker) with attempts left.
+     *
+     * @param {string} workerId - Identifier of the claiming worker.
+     * @param {JobType[]} types - Job types this worker handles.
+     * @param {number} leaseMs - How long the job stays reserved.
+     * @returns {Promise<Job | null>} The claimed job, with its attempt count incremented.
+     */
+    public static async claimNext(workerId: string, types: JobType[], leaseMs: number): Promise<Job | null> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date();
+        const nowIso = now.toISOString();
+
+        return await collection.findOneAndUpdate(
+            {
+                type: { $in: types },
+                $or: [
+                    { status: { $in: ['queued', 'failed'] }, runAt: { $lte: nowIso } },
+                    { status: 'running', leaseUntil: { $lt: nowIso }, $expr: { $lt: ['$attempts', '$maxAttempts'] } }
+                ]
+            },
+            {
+                $set: {
+                    status: 'running',
+                    workerId,
+                    leaseUntil: new Date(now.getTime() + leaseMs).toISOString(),
+                    startedAt: nowIso,
+                    updatedAt: nowIso
+                },
+                $inc: { attempts: 1 }
+            },
+            { sort: { priority: -1, runAt: 1 }, returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Dead-letters the running jobs whose lease expired on their last attempt: their
+     * worker crashed each time (e.g. out of memory), so reclaiming them would loop forever.
+     *
+     * @returns {Promise<number>} The number of dead-lettered jobs.
+     */
+    public static async deadLetterExpired(types: JobType[]): Promise<number> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date().toISOString();
+        const result = await collection.updateMany(
+            {
+                type: { $in: types },
+                status: 'running',
+                leaseUntil: { $lt: now },
+                $expr: { $gte: ['$attempts', '$maxAttempts'] }
+            },
+            {
+                $set: {
+                    status: 'dead',
+                    leaseUntil: null,
+                    lastError: 'Lease expired on the last attempt (worker crashed or timed out)',
+                    finishedAt: now,
+                    updatedAt: now
+                }
+            }
+        );
+        return result.modifiedCount;
+    }
+
+    /**
+     * Marks a job as done, if the worker still holds it.
+     *
+     * @returns {Promise<boolean>} False if the job was reclaimed by another worker after its lease expired.
+     */
+    public static async complete(id: ObjectId, workerId: string): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date().toISOString();
+        const result = await collection.updateOne(
+            this.heldBy(id, workerId),
+            { $set: { status: 'done', leaseUntil: null, lastError: null, finishedAt: now, updatedAt: now } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Records a failed attempt: the job is retried at `retryAt`, or dead-lettered when `retryAt` is null.
+     *
+     * @returns {Promise<boolean>} False if the worker no longer holds the job.
+     */
+    public static async fail(id: ObjectId, workerId: string, error: string, retryAt: string | null): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const now = new Date().toISOString();
+        const result = await collection.updateOne(
+            this.heldBy(id, workerId),
+            {
+                $set: {
+                    status: retryAt ? 'failed' : 'dead',
+                    runAt: retryAt ?? now,
+                    leaseUntil: null,
+                    lastError: error,
+                    finishedAt: retryAt ? null : now,
+                    updatedAt: now
+                }
+            }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Puts a running job back in the queue until `runAt`, without counting the attempt.
+     *
+     * @returns {Promise<boolean>} False if the worker no longer holds the job.
+     */
+    public static async defer(id: ObjectId, workerId: string, reason: string, runAt: string): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const result = await collection.updateOne(
+            this.heldBy(id, workerId),
+            {
+                $set: { status: 'queued', runAt, leaseUntil: null, lastError: reason, updatedAt: new Date().toISOString() },
+                $inc: { attempts: -1 }
+            }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Matches a job still running under the given worker: once its lease expired and another
+     * worker reclaimed it, the late outcome of the first worker must not overwrite the job.
+     */
+    private static heldBy(id: ObjectId, workerId: string): Filter<Job> {
+        return { _id: id, workerId, status: 'running' } as Filter<Job>;
+    }
+
+    /**
+     * Lists jobs, most urgent first.
+     */
+    public static async list(options: JobListOptions = {}): Promise<Job[]> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const query: Filter<Job> = {};
+        if (options.status) query.status = options.status;
+        if (options.type) query.type = options.type;
+        if (options.articleId) query.articleId = options.articleId;
+
+        return await collection
+            .find(query)
+            .sort({ priority: -1, runAt: 1 })
+            .limit(options.limit ?? 50)
+            .toArray();
+    }
+
+    /**
+     * Counts jobs per status.
+     */
+    public static async countByStatus(): Promise<Record<JobStatus, number>> {
+        const db = getDatabase();
+        const collection = db.collection<Job>(COLLECTION_NAME);
+        const rows = await collection
+            .aggregate<{ _id: JobStatus; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }])
+            .toArray();
+
+        const counts: Record<JobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0, dead: 0 };
+        for (const row of rows) counts[row._id] = row.count;
+        return counts;
+    }
+}
@@ -2,9 +2,17 @@
 import { getDatabase } from '@/config/database';
 import { ProcessedArticleData } from '@/types/rss';
 import { databaseConfig } from '@/config/rssConfig';
-import { ObjectId, Filter } from 'mongodb';
+import { ObjectId, Filter, FindCursor, Document, Collection, Sort } from 'mongodb';
+import { decodeOffsetCursor, decodePageCursor, encodeOffsetCursor, encodePageCursor, PageCursor } from '@/utils/pageCursor';
+import { parseSearchQuery, SearchQuery, toTextSearch } from '@/utils/searchQuery';
 
 const COLLECTION_NAME = databaseConfig.collection.rssArticles;
+const RELEVANCE_SORT = { score: { $meta: 'textScore' }, publicationDate: -1 } as const;
+
+/** Case-insensitive pattern matching a literal value anywhere in a field. */
+function containsPattern(value: string): RegExp {
+    return new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+}
 
 export interface FetchOptions {
     page?: number;
@@ -12,7 +20,8 @@ export interface FetchOptions {
     category?: string;
     sentiment?: string;
     language?: string;
-    search?: string;
+    search?: string;          // Query syntax of `parseSearchQuery`
+    sort?: 'date' | 'relevance'; // Relevance needs free-text terms in the search, else date
     feedName?: string;
     translationStatus?: 'all' | 'translated' | 'original';
     onlyInsights?: boolean;
@@ -21,53 +30,153 @@ export interface FetchOptions {
     bookmarkIds?: string;
 }
 
+export interface CursorPageOptions extends FetchOptions {
+    cursor?: string | null;   // Opaque token from a previous page (first page when empty)
+    withTotals?: boolean;     // Also count the matches and compute the global stats
+}
+
+/**
+ * Global article counts shown in the feed summary (never filtered).
+ */
+export interface ArticleStats {
+    today: number;
+    week: number;
+    saved: number;
+    enriched: number;
+    total: number;
+}
+
+export interface CursorPage {
+    articles: ProcessedArticleData[];
+    nextCursor: string | null;
+    hasMore: boolean;
+    total?: number;
+    stats?: ArticleStats;
+}
+
 export class RssRepository {
+    private static statsCache: { stats: Promise<ArticleStats>; expiresAt: number } | null = null;
+
     /**
      * Retrieves RSS articles with pagination, sorting, and flexible filtering.
-     * Sorts articles by publication date and fetch time (descending).
+     * Sorts articles by publication date and fetch time (descending). The page and the
+     * match count come from a single `$facet` aggregation.
      * 
      * @param {FetchOptions} options - Search and pagination options.
-     * @returns {Promise<{ articles: ProcessedArticleData[]; total: number }>}
+     * @returns {Promise<{ articles: ProcessedArticleData[]; total: number; stats: ArticleStats }>}
+     */
+    public static async fetchAll(options: FetchOptions = {}): Promise<{ articles: ProcessedArticleData[]; total: number; stats: ArticleStats }> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        const { page = 1, limit = 20 } = options;
+
+        // The sort stays before $facet so that it can use an index
+        const [[result], stats] = await Promise.all([
+            collection.aggregate<{ data: ProcessedArticleData[]; metadata: { total: number }[] }>([
+                { $match: this.buildFilterQuery(options) },
+                { $sort: this.listingSort(options) },
+                {
+                    $facet: {
+                        metadata: [{ $count: 'total' }],
+                        data: [{ $skip: (page - 1) * limit }, { $limit: limit }]
+                    }
+                }
+            ], { allowDiskUse: true }).toArray(),
+            this.getStats()
+        ]);
+
+        return {
+            articles: result?.data ?? [],
+            total: result?.metadata[0]?.total ?? 0,
+            stats
+        };
+    }
+
+    /**
+     * Filtered views sort on publicationDate only, to use the { field: 1, publicationDate: -1 } indexes.
+     */
+    private static listingSort(options: FetchOptions): Document {
+        const { category, sentiment, language, feedName } = options;
+        if (this.isRelevanceSort(options)) return RELEVANCE_SORT;
+        return category || sentiment || language || feedName
+            ? { publicationDate: -1 }
+            : { publicationDate: -1, fetchedAt: -1 };
+    }
+
+    private static isRelevanceSort(options: FetchOptions): boolean {
+        return options.sort === 'relevance' && toTextSearch(parseSearchQuery(options.search)) !== null;
+    }
+
+    /**
+     * Retrieves a page of articles after a cursor (keyset pagination on publicationDate + _id).
+     * Pages stay stable while new articles arrive, and deep pages cost the same as the first.
+     * Relevance-sorted pages fall back to offsets.
+     * `total` and `stats` are only computed with `withTotals`.
+     *
+     * @throws {AppError} 400 if the cursor is invalid.
      */
-    public static async fetchAll(options: FetchOptions = {}): Promise<{ articles: ProcessedArticleData[]; total: number; stats: { today: number; week: number } }> {
+    public static async fetchPage(options: CursorPageOptions = {}): Promise<CursorPage> {
         const db = getDatabase();
         const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
-        const { page = 1, limit = 20, category, sentiment, language, feedName } = options;
+        const limit = options.limit || 20;
 
         const query = this.buildFilterQuery(options);
-        const total = await collection.countDocuments(query);
-
-        // Get GLOBAL stats (always unfiltered)
-        const stats = await this.getStats();
-
-        let documents;
-
-        if (category || sentiment || language || feedName) {
-            // Optimization: If filtering by specific field, use simpler sort to leverage compound indexes
-            // The compound indexes are all { field: 1, publicationDate: -1 }
-            documents = await collection
-                .find(query)
-                .sort({ publicationDate: -1 })
-                .skip((page - 1) * limit)
-                .limit(limit)
-                .toArray();
-        } else {
-            // Default view: use compound sort
-            documents = await collection
-                .find(query)
-                .sort({ publicationDate: -1, fetchedAt: -1 })
-                .skip((page - 1) * limit)
-                .limit(limit)
-                .toArray();
+        const { cursor, nextCursor } = this.openPage(collection, query, options);
+
+        const [documents, totals] = await Promise.all([
+            cursor.limit(limit + 1).toArray(),
+            options.withTotals ? Promise.all([collection.countDocuments(query), this.getStats()]) : null
+        ]);
+
+        const hasMore = documents.length > limit;
+        const articles = documents.slice(0, limit) as ProcessedArticleData[];
+        const last = articles[articles.length - 1];
+        const page: CursorPage = {
+            articles,
+            hasMore,
+            nextCursor: hasMore && last ? nextCursor(last, limit) : null
+        };
+        if (totals) [page.total, page.stats] = totals;
+        return page;
+    }
+
+    /**
+     * Opens the sorted cursor of a page and tells how to encode the position of the next one.
+     */
+    private static openPage(
+        collection: Collection<ProcessedArticleData>,
+        query: Filter<ProcessedArticleData>,
+        options: CursorPageOptions
+    ): { cursor: FindCursor<ProcessedArticleData>; nextCursor: (last: ProcessedArticleData, limit: number) => string } {
+        if (this.isRelevanceSort(options)) {
+            const offset = options.cursor ? decodeOffsetCursor(options.cursor) : 0;
+            return {
+                cursor: collection.find(query).sort(RELEVANCE_SORT as Sort).skip(offset) as FindCursor<ProcessedArticleData>,
+                nextCursor: (_last, limit) => encodeOffsetCursor(offset + limit)
+            };
         }
 
+        const pageQuery = options.cursor ? { $and: [query, this.buildCursorFilter(decodePageCursor(options.cursor))] } : query;
         return {
-            articles: documents as ProcessedArticleData[],
-            total,
-            stats
+            cursor: collection.find(pageQuery).sort({ publicationDate: -1, _id: -1 }) as FindCursor<ProcessedArticleData>,
+            nextCursor: last => encodePageCursor(last.publicationDate, last._id!)
         };
     }
 
+    /**
+     * Opens a cursor over every article matching the filters (newest first), for exports
+     * too large to load in memory. `page` is ignored; `limit` caps the number of articles.
+     *
+     * @param {Document} projection - Fields to read (avoids loading `fullText`).
+     */
+    public static streamAll(options: FetchOptions = {}, projection?: Document): FindCursor<ProcessedArticleData> {
+        const db = getDatabase();
+        const cursor = db.collection<ProcessedArticleData>(COLLECTION_NAME)
+            .find(this.buildFilterQuery(options), { projection, batchSize: 500 })
+            .sort({ publicationDate: -1, fetchedAt: -1 });
+        return (options.limit ? cursor.limit(options.limit) : cursor) as FindCursor<ProcessedArticleData>;
+    }
+
     /**
      * Retrieves top articles for AI briefing generation.
      * Focuses on non-promotional, recent, and highly relevant content.
@@ -92,16 +201,31 @@ export class RssRepository {
     }
 
     /**
-     * Calculates Today and Week statistics - ALWAYS GLOBAL (no filters applied).
+     * Global Today/Week/Saved/Enriched/Total counts - ALWAYS GLOBAL (no filters applied).
+     * Cached for `statsCacheTtlMs`; concurrent requests share the same computation.
+     */
+    public static async getStats(now: number = Date.now()): Promise<ArticleStats> {
+        if (!this.statsCache || this.statsCache.expiresAt <= now) {
+            const stats = this.countStats(now);
+            this.statsCache = { stats, expiresAt: now + databaseConfig.statsCacheTtlMs };
+            stats.catch(() => { this.statsCache = null; });
+        }
+        return this.statsCache.stats;
+    }
+
+    /**
+     * Drops the cached stats (after writes that change them noticeably).
      */
-    private static async getStats(): Promise<{ today: number; week: number; saved: number; enriched: number; total: number }> {
+    public static invalidateStats(): void {
+        this.statsCache = null;
+    }
+
+    private static async countStats(now: number): Promise<ArticleStats> {
         const db = getDatabase();
         const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
 
-        // Stats should ALWAYS be global - ignore all filters
-        const now = new Date();
-        const dayLimit = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
-        const weekLimit = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+        const dayLimit = new Date(now - 24 * 60 * 60 * 1000).toISOString();
+        const weekLimit = new Date(now - 7 * 24 * 60 * 60 * 1000).toISOString();
 
         const [today, week, saved, enriched, total] = await Promise.all([
             collection.countDocuments({ publicationDate: { $gte: dayLimit } }),
@@ -114,11 +238,27 @@ export class RssRepository {
         return { today, week, saved, enriched, total };
     }
 
+    /**
+     * Matches the articles after the cursor. Articles without a publication date sort
+     * last, and comparison operators skip nulls, so they are matched explicitly.
+     */
+    private static buildCursorFilter(cursor: PageCursor): Filter<ProcessedArticleData> {
+        if (cursor.publicationDate === null) {
+            return { publicationDate: null, _id: { $lt: cursor.id } } as Filter<ProcessedArticleData>;
+        }
+        return {
+            $or: [
+                { publicationDate: { $lt: cursor.publicationDate } },
+                { publicationDate: cursor.publicationDate, _id: { $lt: cursor.id } },
+                { publicationDate: null }
+            ]
+        } as Filter<ProcessedArticleData>;
+    }
 
     /**
      * Builds a MongoDB filter query based on the provided options.
      */
-    private static buildFilterQuery(options: FetchOptions): Filter<ProcessedArticleData> {
+    public static buildFilterQuery(options: FetchOptions): Filter<ProcessedArticleData> {
         const query: Filter<ProcessedArticleData> = {};
         const { category, sentiment, language, search, feedName, onlyInsights } = options;
 
@@ -148,13 +288,36 @@ export class RssRepository {
         this.applyDateFilter(query, options.dateRange);
         this.applyTranslationFilter(query, options.translationStatus);
 
-        if (search) {
-            query.$text = { $search: search };
-        }
+        if (search) this.applySearchFilter(query, parseSearchQuery(search));
 
         return query;
     }
 
+    /**
+     * Applies a parsed search query: free text goes through the text index, field
+     * conditions are added to `$and`. Without positive terms, exclusions are matched
+     * by regex since `$text` cannot search for negations alone.
+     */
+    private static applySearchFilter(query: Filter<ProcessedArticleData>, search: SearchQuery): void {
+        const textSearch = toTextSearch(search);
+        const conditions: Filter<ProcessedArticleData>[] = [
+            ...search.title.map(value => ({ title: containsPattern(value) })),
+            ...search.authors.map(value => ({ author: containsPattern(value) })),
+            ...search.sources.map(value => ({ feedName: containsPattern(value) })),
+            ...search.entities.map(value => ({ 'analysis.entities.text': new RegExp(`^${containsPattern(value).source}$`, 'i') }))
+        ];
+
+        if (textSearch) query.$text = { $search: textSearch };
+        else if (search.excluded.length > 0) {
+            conditions.push({ $nor: search.excluded.flatMap(value => [{ title: containsPattern(value) }, { summary: containsPattern(value) }]) });
+        }
+        if (search.sentiment) conditions.push({ 'analysis.sentiment': search.sentiment });
+        if (search.after || search.before) {
+            conditions.push({ publicationDate: { ...(search.after && { $gte: search.after }), ...(search.before && { $lt: search.before }) } });
+        }
+        if (conditions.length > 0) query.$and = [...(query.$and ?? []), ...conditions];
+    }
+
     /**
      * Applies date range filters to the query.
      */
@@ -207,6 +370,46 @@ export class RssRepository {
         return documents;
     }
 
+    /**
+     * Counts the articles fetched since a date per source and confidently detected language.
+     */
+    public static async countDetectedLanguages(since: string, minConfidence: number): Promise<{ feedName: string; language: string; count: number }[]> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        const rows = await collection.aggregate<{ _id: { feedName: string; language: string }; count: number }>([
+            { $match: { fetchedAt: { $gte: since }, detectedLanguage: { $ne: null }, languageConfidence: { $gte: minConfidence } } },
+            { $group: { _id: { feedName: '$feedName', language: '$detectedLanguage' }, count: { $sum: 1 } } }
+        ]).toArray();
+        return rows.map(row => ({ ...row._id, count: row.count }));
+    }
+
+    /**
+     * Retrieves the latest articles mentioning a canonical entity.
+     */
+    public static async findByEntity(entityId: string, limit: number): Promise<ProcessedArticleData[]> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        return await collection
+            .find({ 'analysis.entities.entityId': entityId })
+            .project<ProcessedArticleData>({ title: 1, link: 1, feedName: 1, publicationDate: 1, 'analysis.sentiment': 1, 'analysis.sentimentScore': 1 })
+            .sort({ publicationDate: -1 })
+            .limit(limit)
+            .toArray();
+    }
+
+    /**
+     * Counts the articles mentioning a canonical entity per publication day and sentiment.
+     */
+    public static async countEntitySentiment(entityId: string, since: string): Promise<{ date: string; sentiment: string; count: number }[]> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        const rows = await collection.aggregate<{ _id: { date: string; sentiment: string | null }; count: number }>([
+            { $match: { 'analysis.entities.entityId': entityId, publicationDate: { $gte: since } } },
+            { $group: { _id: { date: { $substrBytes: ['$publicationDate', 0, 10] }, sentiment: '$analysis.sentiment' }, count: { $sum: 1 } } }
+        ]).toArray();
+        return rows.map(row => ({ date: row._id.date, sentiment: row._id.sentiment || 'neutral', count: row.count }));
+    }
+
     /**
      * Retrieves the most recent articles for clustering comparison.
      */
@@ -232,6 +435,44 @@ export class RssRepository {
         return await collection.findOne({ link });
     }
 
+    /**
+     * Finds an already stored copy of a story, by canonical link, raw link or feed GUID.
+     *
+     * @param {{ canonicalLink: string; link: string; guid?: string | null; sourceFeed?: string | null }} keys - The identifiers of the incoming item.
+     * @returns {Promise<ProcessedArticleData | null>}
+     */
+    public static async findDuplicate(keys: { canonicalLink: string; link: string; guid?: string | null; sourceFeed?: string | null }): Promise<ProcessedArticleData | null> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        const conditions: Filter<ProcessedArticleData>[] = [
+            { canonicalLink: keys.canonicalLink },
+            { link: keys.link }
+        ];
+        // GUIDs are only unique within a feed
+        if (keys.guid && keys.sourceFeed) {
+            conditions.push({ guid: keys.guid, sourceFeed: keys.sourceFeed });
+        }
+        return await collection.findOne({ $or: conditions });
+    }
+
+    /**
+     * Records that another feed published an already stored story, instead of storing it twice.
+     *
+     * @param {ObjectId} id - The stored article.
+     * @param {string} feedName - The feed that published the duplicate.
+     * @param {string} link - The link used by that feed.
+     * @returns {Promise<boolean>} True if the article was updated.
+     */
+    public static async mergeDuplicate(id: ObjectId, feedName: string, link: string): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
+        const result = await collection.updateOne(
+            { _id: id, feedName: { $ne: feedName }, 'alsoSeenIn.feedName': { $ne: feedName } } as Filter<ProcessedArticleData>,
+            { $push: { alsoSeenIn: { feedName, link } } }
+        );
+        return result.modifiedCount > 0;
+    }
+
     /**
      * Finds a single RSS article by its unique MongoDB identifier.
      * 
@@ -255,6 +496,7 @@ export class RssRepository {
         const db = getDatabase();
         const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
         const result = await collection.deleteMany({});
+        this.invalidateStats();
         return result.deletedCount;
     }
 
@@ -262,12 +504,13 @@ export class RssRepository {
      * Saves a new processed article to the database.
      * 
      * @param {ProcessedArticleData} articleData - The article data to persist.
-     * @returns {Promise<void>}
+     * @returns {Promise<ObjectId>} The identifier of the new article.
      */
-    public static async save(articleData: ProcessedArticleData): Promise<void> {
+    public static async save(articleData: ProcessedArticleData): Promise<ObjectId> {
         const db = getDatabase();
         const collection = db.collection<ProcessedArticleData>(COLLECTION_NAME);
-        await collection.insertOne(articleData);
+        const result = await collection.insertOne(articleData);
+        return result.insertedId;
     }
 
     /**
@@ -385,6 +628,7 @@ export class RssRepository {
             { _id } as Filter<ProcessedArticleData>,
             { $set: { isBookmarked: newState } }
         );
+        this.invalidateStats();
 
         return newState;
     }
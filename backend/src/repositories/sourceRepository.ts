@@ -5,6 +5,33 @@ import logger from '@/utils/logger';
 
 const COLLECTION_NAME = 'rssSources';
 
+/**
+ * Fetch health of a source, updated after every sync attempt.
+ */
+export interface SourceHealth {
+    lastSuccessAt?: string | null;
+    lastErrorAt?: string | null;
+    lastError?: string | null;
+    consecutiveFailures: number;
+    fetchCount: number;
+    avgLatencyMs: number;
+    lastItemCount: number;
+    avgItemYield: number;
+    nextRetryAt?: string | null;   // Exponential backoff after a failure
+    disabledReason?: string | null; // Set when the source was auto-disabled
+    disabledAt?: string | null;
+}
+
+/**
+ * Set on sources whose recent articles are mostly in another language than the configured one.
+ */
+export interface SourceLanguageMismatch {
+    detectedLanguage: string;   // Most frequent detected language
+    share: number;              // Share of the audited articles in that language (0-1)
+    sampleSize: number;
+    checkedAt: string;
+}
+
 export interface SourceConfig {
     name: string;
     url?: string;
@@ -13,6 +40,13 @@ export interface SourceConfig {
     enabled: boolean;
     color?: string;
     maxArticles?: number;
+    etag?: string | null;          // Last ETag returned by the feed (conditional GET)
+    lastModified?: string | null;  // Last Last-Modified header returned by the feed
+    health?: SourceHealth;
+    refreshIntervalMinutes?: number | null; // Explicit polling interval (null = adaptive)
+    learnedIntervalMinutes?: number | null; // Interval learned from the observed publish frequency
+    lastFetchedAt?: string | null;
+    languageMismatch?: SourceLanguageMismatch | null;
 }
 
 export class SourceRepository {
@@ -56,11 +90,48 @@ export class SourceRepository {
         return await collection.find({}).toArray();
     }
 
+    /**
+     * Fetches a single source by name.
+     */
+    public static async getSourceByName(name: string): Promise<SourceConfig | null> {
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        return await collection.findOne({ name });
+    }
+
     /**
      * Toggles the enabled state of a source.
+     * Re-enabling a source clears any quarantine so it is fetched on the next sync.
      */
     public static async toggleSource(name: string, enabled: boolean): Promise<boolean> {
-        return this.updateSource(name, { enabled });
+        if (!enabled) return this.updateSource(name, { enabled });
+
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        const result = await collection.updateOne(
+            { name },
+            {
+                $set: {
+                    enabled: true,
+                    'health.consecutiveFailures': 0,
+                    'health.nextRetryAt': null,
+                    'health.disabledReason': null,
+                    'health.disabledAt': null
+                }
+            }
+        );
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Persists the health of a source, optionally disabling it.
+     */
+    public static async updateHealth(name: string, health: SourceHealth, disable: boolean = false): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        const update: Partial<SourceConfig> = { health };
+        if (disable) update.enabled = false;
+        await collection.updateOne({ name }, { $set: update });
     }
 
     /**
@@ -73,7 +144,31 @@ export class SourceRepository {
             { name },
             { $set: data }
         );
-        return result.modifiedCount > 0;
+        // Matched rather than modified: saving unchanged settings is not a missing source
+        return result.matchedCount > 0;
+    }
+
+    /**
+     * Records the last fetch attempt and, when available, the learned polling interval.
+     */
+    public static async updateSchedule(name: string, lastFetchedAt: string, learnedIntervalMinutes?: number | null): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        const update: Partial<SourceConfig> = { lastFetchedAt };
+        if (learnedIntervalMinutes) update.learnedIntervalMinutes = learnedIntervalMinutes;
+        await collection.updateOne({ name }, { $set: update });
+    }
+
+    /**
+     * Stores the HTTP cache validators used for conditional GET requests.
+     */
+    public static async updateFetchValidators(name: string, etag: string | null, lastModified: string | null): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        await collection.updateOne(
+            { name },
+            { $set: { etag, lastModified } }
+        );
     }
 
     /**
@@ -90,6 +185,19 @@ export class SourceRepository {
         return result.acknowledged;
     }
 
+    /**
+     * Inserts several new sources at once.
+     *
+     * @returns {Promise<number>} The number of inserted sources.
+     */
+    public static async addSources(sources: SourceConfig[]): Promise<number> {
+        if (sources.length === 0) return 0;
+        const db = getDatabase();
+        const collection = db.collection<SourceConfig>(COLLECTION_NAME);
+        const result = await collection.insertMany(sources);
+        return result.insertedCount;
+    }
+
     /**
      * Deletes a source by name.
      */
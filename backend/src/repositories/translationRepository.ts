@@ -0,0 +1,66 @@
+// src/repositories/translationRepository.ts
+import { getDatabase } from '@/config/database';
+import { TranslationCacheEntry, TranslationUsage } from '@/types/translation';
+import { MongoServerError } from 'mongodb';
+
+const CACHE_COLLECTION = 'translation_cache';
+const USAGE_COLLECTION = 'translation_usage';
+const DUPLICATE_KEY = 11000;
+
+export class TranslationRepository {
+    /**
+     * Creates the TTL index expiring cached translations.
+     */
+    public static async ensureIndexes(ttlDays: number): Promise<void> {
+        const db = getDatabase();
+        await db.collection<TranslationCacheEntry>(CACHE_COLLECTION).createIndex(
+            { createdAt: 1 },
+            { name: 'cache_ttl', expireAfterSeconds: ttlDays * 24 * 60 * 60 }
+        );
+    }
+
+    /**
+     * @returns {Promise<Map<string, string>>} Cached translations by key.
+     */
+    public static async findCached(keys: string[]): Promise<Map<string, string>> {
+        if (keys.length === 0) return new Map();
+        const db = getDatabase();
+        const entries = await db.collection<TranslationCacheEntry>(CACHE_COLLECTION)
+            .find({ _id: { $in: keys } })
+            .toArray();
+        return new Map(entries.map(entry => [entry._id, entry.translation]));
+    }
+
+    public static async saveCached(entries: TranslationCacheEntry[]): Promise<void> {
+        if (entries.length === 0) return;
+        const db = getDatabase();
+        await db.collection<TranslationCacheEntry>(CACHE_COLLECTION).bulkWrite(
+            entries.map(entry => ({
+                replaceOne: { filter: { _id: entry._id }, replacement: entry, upsert: true }
+            })),
+            { ordered: false }
+        );
+    }
+
+    /**
+     * Atomically adds characters to the usage of a day, unless it would exceed the budget.
+     *
+     * @returns {Promise<boolean>} False if the budget does not allow it.
+     */
+    public static async reserveCharacters(day: string, characters: number, budget: number): Promise<boolean> {
+        if (characters > budget) return false;
+        const db = getDatabase();
+        try {
+            // When the day exists but is over budget, the upsert collides with it
+            await db.collection<TranslationUsage>(USAGE_COLLECTION).updateOne(
+                { _id: day, characters: { $lte: budget - characters } },
+                { $inc: { characters } },
+                { upsert: true }
+            );
+            return true;
+        } catch (error) {
+            if (error instanceof MongoServerError && error.code === DUPLICATE_KEY) return false;
+            throw error;
+        }
+    }
+}
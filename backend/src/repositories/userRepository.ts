@@ -1,5 +1,5 @@
 import { getDatabase } from '@/config/database';
-import { UserProfile } from '@/types/user';
+import { SavedSearch, UserProfile } from '@/types/user';
 import { Filter } from 'mongodb';
 import logger from '@/utils/logger';
 
@@ -51,4 +51,62 @@ export class UserRepository {
         await this.updateProfile(userId, { bookmarks });
         return bookmarks;
     }
+
+    /**
+     * Adds a saved search to a user profile (created if missing).
+     */
+    public static async addSavedSearch(userId: string, search: SavedSearch): Promise<void> {
+        const db = getDatabase();
+        const collection = db.collection<UserProfile>(COLLECTION_NAME);
+        await collection.updateOne(
+            { _id: userId } as Filter<UserProfile>,
+            { $push: { savedSearches: search }, $set: { updatedAt: new Date().toISOString() } },
+            { upsert: true }
+        );
+    }
+
+    /**
+     * Replaces a saved search.
+     *
+     * @returns {Promise<boolean>} False if the user or the search does not exist.
+     */
+    public static async replaceSavedSearch(userId: string, search: SavedSearch): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<UserProfile>(COLLECTION_NAME);
+        const result = await collection.updateOne(
+            { _id: userId, 'savedSearches.id': search.id } as Filter<UserProfile>,
+            { $set: { 'savedSearches.$': search, updatedAt: new Date().toISOString() } }
+        );
+        return result.matchedCount > 0;
+    }
+
+    public static async deleteSavedSearch(userId: string, searchId: string): Promise<boolean> {
+        const db = getDatabase();
+        const collection = db.collection<UserProfile>(COLLECTION_NAME);
+        const result = await collection.updateOne(
+            { _id: userId } as Filter<UserProfile>,
+            { $pull: { savedSearches: { id: searchId } }, $set: { updatedAt: new Date().toISOString() } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    /**
+     * Lists the users having at least one alert rule, with their saved searches.
+     */
+    public static async findAlertSubscribers(): Promise<Pick<UserProfile, '_id' | 'savedSearches'>[]> {
+        const db = getDatabase();
+        const collection = db.collection<UserProfile>(COLLECTION_NAME);
+        return await collection
+            .find({ 'savedSearches.isAlert': true } as Filter<UserProfile>, { projection: { savedSearches: 1 } })
+            .toArray();
+    }
+
+    /**
+     * Lists the distinct preferred languages of the user profiles.
+     */
+    public static async findPreferredLanguages(): Promise<string[]> {
+        const db = getDatabase();
+        const languages = await db.collection<UserProfile>(COLLECTION_NAME).distinct('settings.preferredLanguage');
+        return languages.filter((language): language is string => typeof language === 'string' && language.length > 0);
+    }
 }
@@ -0,0 +1,123 @@
+// src/repositories/webhookRepository.ts
+import { getDatabase } from '@/config/database';
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/types/webhook';
+import { Filter, ObjectId } from 'mongodb';
+
+const WEBHOOKS_COLLECTION = 'webhooks';
+const DELIVERIES_COLLECTION = 'webhook_deliveries';
+
+export class WebhookRepository {
+    /**
+     * Creates the indexes of the delivery log (per-webhook history and retry sweep).
+     */
+    public static async ensureIndexes(): Promise<void> {
+        const db = getDatabase();
+        const deliveries = db.collection<WebhookDelivery>(DELIVERIES_COLLECTION);
+        await deliveries.createIndex({ webhookId: 1, createdAt: -1 }, { name: 'webhook_history' });
+        await deliveries.createIndex({ status: 1, nextAttemptAt: 1 }, { name: 'retry_sweep' });
+    }
+
+    public static async create(webhook: Webhook): Promise<ObjectId> {
+        const db = getDatabase();
+        const result = await db.collection<Webhook>(WEBHOOKS_COLLECTION).insertOne(webhook);
+        return result.insertedId;
+    }
+
+    public static async findAll(): Promise<Webhook[]> {
+        const db = getDatabase();
+        return await db.collection<Webhook>(WEBHOOKS_COLLECTION).find().sort({ createdAt: -1 }).toArray();
+    }
+
+    public static async findById(id: string): Promise<Webhook | null> {
+        if (!ObjectId.isValid(id)) return null;
+        const db = getDatabase();
+        return await db.collection<Webhook>(WEBHOOKS_COLLECTION).findOne({ _id: new ObjectId(id) } as Filter<Webhook>);
+    }
+
+    /**
+     * Lists the enabled webhooks subscribed to an event.
+     */
+    public static async findEnabledForEvent(event: WebhookEvent): Promise<Webhook[]> {
+        const db = getDatabase();
+        return await db.collection<Webhook>(WEBHOOKS_COLLECTION).find({ enabled: true, events: event }).toArray();
+    }
+
+    /**
+     * Updates a webhook.
+     *
+     * @returns {Promise<Webhook | null>} The updated webhook, or null if it does not exist.
+     */
+    public static async update(id: string, data: Partial<Webhook>): Promise<Webhook | null> {
+        if (!ObjectId.isValid(id)) return null;
+        const db = getDatabase();
+        return await db.collection<Webhook>(WEBHOOKS_COLLECTION).findOneAndUpdate(
+            { _id: new ObjectId(id) } as Filter<Webhook>,
+            { $set: { ...data, updatedAt: new Date().toISOString() } },
+            { returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Deletes a webhook and its delivery log.
+     */
+    public static async delete(id: string): Promise<boolean> {
+        if (!ObjectId.isValid(id)) return false;
+        const db = getDatabase();
+        const result = await db.collection<Webhook>(WEBHOOKS_COLLECTION).deleteOne({ _id: new ObjectId(id) } as Filter<Webhook>);
+        await db.collection<WebhookDelivery>(DELIVERIES_COLLECTION).deleteMany({ webhookId: id });
+        return result.deletedCount > 0;
+    }
+
+    public static async createDelivery(delivery: WebhookDelivery): Promise<ObjectId> {
+        const db = getDatabase();
+        const result = await db.collection<WebhookDelivery>(DELIVERIES_COLLECTION).insertOne(delivery);
+        return result.insertedId;
+    }
+
+    /**
+     * Records the outcome of a delivery attempt.
+     */
+    public static async updateDelivery(id: ObjectId, data: Partial<WebhookDelivery>): Promise<void> {
+        const db = getDatabase();
+        await db.collection<WebhookDelivery>(DELIVERIES_COLLECTION).updateOne(
+            { _id: id } as Filter<WebhookDelivery>,
+            { $set: { ...data, updatedAt: new Date().toISOString() } }
+        );
+    }
+
+    /**
+     * Atomically claims a failed delivery whose retry date has passed, so that
+     * concurrent sweeps never send it twice. Deliveries left pending or in flight
+     * for longer than `staleMs` (crashed process) are claimed again.
+     */
+    public static async claimDueDelivery(staleMs: number, now: Date = new Date()): Promise<WebhookDelivery | null> {
+        const db = getDatabase();
+        const nowIso = now.toISOString();
+        const staleBefore = new Date(now.getTime() - staleMs).toISOString();
+        return await db.collection<WebhookDelivery>(DELIVERIES_COLLECTION).findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'failed', nextAttemptAt: { $lte: nowIso } },
+                    { status: { $in: ['pending', 'delivering'] }, updatedAt: { $lt: staleBefore } }
+                ]
+            },
+            { $set: { status: 'delivering', updatedAt: nowIso } },
+            { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+        );
+    }
+
+    /**
+     * Lists the deliveries of a webhook, most recent first.
+     */
+    public static async listDeliveries(webhookId: string, options: { status?: WebhookDeliveryStatus; limit?: number } = {}): Promise<WebhookDelivery[]> {
+        const db = getDatabase();
+        const query: Filter<WebhookDelivery> = { webhookId };
+        if (options.status) query.status = options.status;
+
+        return await db.collection<WebhookDelivery>(DELIVERIES_COLLECTION)
+            .find(query)
+            .sort({ createdAt: -1 })
+            .limit(options.limit ?? 50)
+            .toArray();
+    }
+}
@@ -3,7 +3,8 @@ import { Router } from 'express';
 import {
     getSentimentAnalytics,
     getTopicsAnalytics,
-    getTimelineAnalytics
+    getTimelineAnalytics,
+    getAssetsAnalytics
 } from '@/controllers/analyticsController';
 
 const router: Router = Router();
@@ -29,4 +30,11 @@ router.get('/topics', getTopicsAnalytics);
  */
 router.get('/timeline', getTimelineAnalytics);
 
+/**
+ * @route   GET /api/analytics/assets
+ * @desc    Per-asset article counts and sentiment over time (?symbols=BTC,AAPL&type=&granularity=&limit=)
+ * @access  Public
+ */
+router.get('/assets', getAssetsAnalytics);
+
 export default router;
@@ -0,0 +1,28 @@
+// src/routes/apiKeyRoutes.ts
+import { Router } from 'express';
+import { getApiKeys, createApiKey, revokeApiKey } from '@/controllers/apiKeyController';
+
+const router: Router = Router();
+
+/**
+ * @route   GET /api/keys
+ * @desc    List issued API keys (prefix, scopes, last use, revocation)
+ * @access  Admin
+ */
+router.get('/', getApiKeys);
+
+/**
+ * @route   POST /api/keys
+ * @desc    Issue an API key ({ name, scopes? }), returned once
+ * @access  Admin
+ */
+router.post('/', createApiKey);
+
+/**
+ * @route   DELETE /api/keys/:id
+ * @desc    Revoke an API key
+ * @access  Admin
+ */
+router.delete('/:id', revokeApiKey);
+
+export default router;
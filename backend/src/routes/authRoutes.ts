@@ -0,0 +1,29 @@
+// src/routes/authRoutes.ts
+import { Router } from 'express';
+import { register, login, getCurrentUser } from '@/controllers/authController';
+import { requireAuth } from '@/middleware/auth';
+
+const router: Router = Router();
+
+/**
+ * @route   POST /api/auth/register
+ * @desc    Create an account and receive an access token
+ * @access  Public
+ */
+router.post('/register', register);
+
+/**
+ * @route   POST /api/auth/login
+ * @desc    Exchange email and password for an access token
+ * @access  Public
+ */
+router.post('/login', login);
+
+/**
+ * @route   GET /api/auth/me
+ * @desc    Current user (id, email, role, profileId)
+ * @access  Authenticated
+ */
+router.get('/me', requireAuth, getCurrentUser);
+
+export default router;
@@ -0,0 +1,14 @@
+// src/routes/entityRoutes.ts
+import { Router } from 'express';
+import { getEntity } from '@/controllers/entityController';
+
+const router: Router = Router();
+
+/**
+ * @route   GET /api/entities/:id
+ * @desc    Canonical entity with recent articles, sentiment trend and related entities
+ * @access  Public
+ */
+router.get('/:id', getEntity);
+
+export default router;
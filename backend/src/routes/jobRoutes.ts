@@ -0,0 +1,21 @@
+// src/routes/jobRoutes.ts
+import { Router } from 'express';
+import { getJobs, getWorkers } from '@/controllers/jobController';
+
+const router: Router = Router();
+
+/**
+ * @route   GET /api/jobs
+ * @desc    Inspect the AI job queue (?status=&type=&articleId=&limit=)
+ * @access  Admin
+ */
+router.get('/', getJobs);
+
+/**
+ * @route   GET /api/jobs/workers
+ * @desc    Per-worker state and throughput of the AI worker pool
+ * @access  Admin
+ */
+router.get('/workers', getWorkers);
+
+export default router;
@@ -1,29 +1,78 @@
 // src/routes/rssRoutes.ts
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
     getRssArticles,
+    streamArticles,
     processRssFeeds,
     deleteAllRssArticles,
     getRssArticleByLink,
     getMetadata,
     toggleSource,
     toggleBookmark,
+    translateArticle,
     updateSourceSettings,
     createSource,
-    removeSource
+    validateSource,
+    discoverSources,
+    removeSource,
+    exportSourcesOpml,
+    importSourcesOpml,
+    getArticleFeed,
+    exportArticles
 } from '@/controllers/rssController';
+import { adminOnly, sourceWriters } from '@/middleware/auth';
+import { rateLimit } from '@/middleware/rateLimit';
 
 const router: Router = Router();
 
+/**
+ * @route   GET /api/rss/sources/export.opml
+ * @desc    Export the source catalogue as OPML
+ * @access  Public
+ */
+router.get('/sources/export.opml', exportSourcesOpml);
+
+/**
+ * @route   POST /api/rss/sources/import
+ * @desc    Import sources from an OPML document (?dryRun=true for a preview)
+ * @access  Admin, or API key with write:sources
+ */
+router.post(
+    '/sources/import',
+    sourceWriters,
+    express.text({ type: ['text/xml', 'application/xml', 'text/x-opml', 'text/plain'], limit: '2mb' }),
+    importSourcesOpml
+);
+
+/**
+ * @route   POST /api/rss/sources/validate
+ * @desc    Check a feed URL and preview what would be ingested
+ * @access  Admin, or API key with write:sources
+ */
+router.post('/sources/validate', sourceWriters, rateLimit('expensive'), validateSource);
+
+/**
+ * @route   POST /api/rss/sources/discover
+ * @desc    Find the RSS/Atom/JSON feeds of a website
+ * @access  Admin, or API key with write:sources
+ */
+router.post('/sources/discover', sourceWriters, rateLimit('expensive'), discoverSources);
+
 /**
  * @route   PATCH /api/rss/sources/:name/toggle
  * @desc    Toggle a source on or off
- * @access  Public
+ * @access  Admin, or API key with write:sources
+ */
+router.patch('/sources/:name/toggle', sourceWriters, toggleSource);
+router.patch('/sources/:name', sourceWriters, updateSourceSettings);
+
+/**
+ * @route   POST /api/rss/sources
+ * @desc    Add a source (validated first; `force: true` skips the check)
+ * @access  Admin, or API key with write:sources
  */
-router.patch('/sources/:name/toggle', toggleSource);
-router.patch('/sources/:name', updateSourceSettings);
-router.post('/sources', createSource);
-router.delete('/sources/:name', removeSource);
+router.post('/sources', sourceWriters, createSource);
+router.delete('/sources/:name', sourceWriters, removeSource);
 
 /**
  * @route   PATCH /api/rss/articles/:id/bookmark
@@ -32,6 +81,13 @@ router.delete('/sources/:name', removeSource);
  */
 router.patch('/articles/:id/bookmark', toggleBookmark);
 
+/**
+ * @route   POST /api/rss/articles/:id/translate
+ * @desc    Translate an article on demand (?lang=fr), within the daily translation budget
+ * @access  Public
+ */
+router.post('/articles/:id/translate', rateLimit('expensive'), translateArticle);
+
 /**
  * @route   GET /api/rss/metadata
  * @desc    Get categories, sources and languages
@@ -39,9 +95,30 @@ router.patch('/articles/:id/bookmark', toggleBookmark);
  */
 router.get('/metadata', getMetadata);
 
+/**
+ * @route   GET /api/rss/stream
+ * @desc    Live article events (SSE), filtered like GET /api/rss
+ * @access  Public
+ */
+router.get('/stream', streamArticles);
+
+/**
+ * @route   GET /api/rss/export
+ * @desc    Stream filtered articles as CSV or NDJSON (?format=csv|ndjson&fields=&limit=, same filters as GET /api/rss)
+ * @access  Public
+ */
+router.get('/export', rateLimit('expensive'), exportArticles);
+
+/**
+ * @route   GET /api/rss/feed.xml | feed.atom | feed.json
+ * @desc    Filtered articles as RSS 2.0, Atom 1.0 or JSON Feed 1.1 (same filters as GET /api/rss, ?limit= up to 200)
+ * @access  Public
+ */
+router.get('/feed.:format', getArticleFeed);
+
 /**
  * @route   GET /api/rss
- * @desc    Get all RSS articles
+ * @desc    Get all RSS articles (?page= or ?pagination=cursor&cursor=&withTotals=true, ?search=&sort=relevance)
  * @access  Public
  */
 router.get('/', getRssArticles);
@@ -49,9 +126,9 @@ router.get('/', getRssArticles);
 /**
  * @route   POST /api/rss/process
  * @desc    Trigger RSS feed processing
- * @access  Public
+ * @access  Admin
  */
-router.post('/process', processRssFeeds);
+router.post('/process', adminOnly, rateLimit('expensive'), processRssFeeds);
 
 /**
  * @route   GET /api/rss/search
@@ -63,8 +140,8 @@ router.get('/search', getRssArticleByLink);
 /**
  * @route   DELETE /api/rss
  * @desc    Delete all RSS articles
- * @access  Public (should be protected in production)
+ * @access  Admin
  */
-router.delete('/', deleteAllRssArticles);
+router.delete('/', adminOnly, deleteAllRssArticles);
 
 export default router;
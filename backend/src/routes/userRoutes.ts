@@ -1,9 +1,22 @@
 import { Router, Request, Response } from 'express';
 import { UserRepository } from '@/repositories/userRepository';
 import logger from '@/utils/logger';
+import {
+    getSavedSearches,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    getAlerts,
+    markAlertsRead
+} from '@/controllers/alertController';
+import { requireProfileOwner } from '@/middleware/auth';
+import { rateLimit } from '@/middleware/rateLimit';
 
 const router: Router = Router();
 
+// A profile is only readable and writable by its owner (or an admin)
+router.use('/:userId', requireProfileOwner);
+
 /**
  * GET /api/user/:userId/profile
  */
@@ -66,6 +79,30 @@ router.post('/:userId/bookmarks/toggle', async (req: Request, res: Response) =>
  * GET /api/user/:userId/briefing
  */
 import { getDailyBriefing } from '@/controllers/briefingController';
-router.get('/:userId/briefing', getDailyBriefing);
+router.get('/:userId/briefing', rateLimit('expensive'), getDailyBriefing);
+
+/**
+ * GET /api/user/:userId/searches
+ * POST /api/user/:userId/searches ({ name, query, isAlert })
+ */
+router.get('/:userId/searches', getSavedSearches);
+router.post('/:userId/searches', createSavedSearch);
+
+/**
+ * PATCH /api/user/:userId/searches/:searchId
+ * DELETE /api/user/:userId/searches/:searchId
+ */
+router.patch('/:userId/searches/:searchId', updateSavedSearch);
+router.delete('/:userId/searches/:searchId', deleteSavedSearch);
+
+/**
+ * GET /api/user/:userId/alerts (?unread=true&limit=50)
+ */
+router.get('/:userId/alerts', getAlerts);
+
+/**
+ * POST /api/user/:userId/alerts/read ({ ids } or all unread)
+ */
+router.post('/:userId/alerts/read', markAlertsRead);
 
 export default router;
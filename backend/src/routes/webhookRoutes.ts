@@ -0,0 +1,56 @@
+// src/routes/webhookRoutes.ts
+import { Router } from 'express';
+import {
+    getWebhooks,
+    createWebhook,
+    updateWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    testWebhook
+} from '@/controllers/webhookController';
+
+const router: Router = Router();
+
+/**
+ * @route   GET /api/webhooks
+ * @desc    List registered webhooks (secrets are masked)
+ * @access  Admin
+ */
+router.get('/', getWebhooks);
+
+/**
+ * @route   POST /api/webhooks
+ * @desc    Register a webhook ({ url, events?, filter?, secret?, description? })
+ * @access  Admin
+ */
+router.post('/', createWebhook);
+
+/**
+ * @route   PATCH /api/webhooks/:id
+ * @desc    Update a webhook (url, events, filter, secret, enabled)
+ * @access  Admin
+ */
+router.patch('/:id', updateWebhook);
+
+/**
+ * @route   DELETE /api/webhooks/:id
+ * @desc    Remove a webhook and its delivery log
+ * @access  Admin
+ */
+router.delete('/:id', deleteWebhook);
+
+/**
+ * @route   GET /api/webhooks/:id/deliveries
+ * @desc    Delivery log of a webhook (?status=&limit=)
+ * @access  Admin
+ */
+router.get('/:id/deliveries', getWebhookDeliveries);
+
+/**
+ * @route   POST /api/webhooks/:id/test
+ * @desc    Send a signed sample payload to the webhook
+ * @access  Admin
+ */
+router.post('/:id/test', testWebhook);
+
+export default router;
@@ -0,0 +1,57 @@
+// src/scripts/backfill_assets.ts
+import { AnyBulkWriteOperation } from 'mongodb';
+import { getDatabase, connectToDatabase } from '@/config/database';
+import { databaseConfig } from '@/config/rssConfig';
+import { AssetExtractionService } from '@/services/assetExtractionService';
+import { ProcessedArticleData } from '@/types/rss';
+import logger from '@/utils/logger';
+import dotenv from 'dotenv';
+import path from 'path';
+
+import { fileURLToPath } from 'url';
+
+// Load environment variables from .env file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const BATCH_SIZE = 500;
+
+/**
+ * Fills `analysis.mentionedAssets` for articles analysed before the asset extraction
+ * stage existed, from their stored entities and title/summary cashtags.
+ * Pass `--all` to recompute every analysed article (after a dictionary change).
+ */
+async function backfillAssets() {
+  try {
+    await connectToDatabase();
+    const collection = getDatabase().collection<ProcessedArticleData>(databaseConfig.collection.rssArticles);
+    const filter = process.argv.includes('--all')
+      ? { analysis: { $ne: null } }
+      : { analysis: { $ne: null }, 'analysis.mentionedAssets': { $exists: false } };
+
+    logger.info(`🏷️ Linking assets of ${await collection.countDocuments(filter)} articles...`);
+    const cursor = collection.find(filter, { projection: { title: 1, summary: 1, 'analysis.entities': 1 } });
+    let operations: AnyBulkWriteOperation<ProcessedArticleData>[] = [];
+    let updated = 0;
+
+    for await (const article of cursor) {
+      const mentionedAssets = AssetExtractionService.extract(`${article.title}. ${article.summary || ''}`, article.analysis?.entities);
+      operations.push({ updateOne: { filter: { _id: article._id }, update: { $set: { 'analysis.mentionedAssets': mentionedAssets } } } });
+      if (operations.length < BATCH_SIZE) continue;
+      updated += (await collection.bulkWrite(operations, { ordered: false })).modifiedCount;
+      operations = [];
+    }
+    if (operations.length) updated += (await collection.bulkWrite(operations, { ordered: false })).modifiedCount;
+
+    logger.info(`✅ Assets linked on ${updated} articles`);
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to backfill assets:', error);
+    process.exit(1);
+  }
+}
+
+backfillAssets();
+
+export { backfillAssets };
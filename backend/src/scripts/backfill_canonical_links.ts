@@ -0,0 +1,100 @@
+// src/scripts/backfill_canonical_links.ts
+import { Collection, Filter, MongoServerError } from 'mongodb';
+import { getDatabase, connectToDatabase } from '@/config/database';
+import { databaseConfig } from '@/config/rssConfig';
+import { ProcessedArticleData } from '@/types/rss';
+import { UserProfile } from '@/types/user';
+import { canonicalizeUrl } from '@/utils/canonicalUrl';
+import logger from '@/utils/logger';
+import dotenv from 'dotenv';
+import path from 'path';
+
+import { fileURLToPath } from 'url';
+
+// Load environment variables from .env file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+type Article = Pick<ProcessedArticleData, '_id' | 'link' | 'feedName' | 'alsoSeenIn' | 'isBookmarked'>;
+
+/**
+ * Folds a duplicate into the article that owns its canonical link: its feed is recorded
+ * in `alsoSeenIn`, its bookmark is carried over, then the duplicate is deleted.
+ */
+async function mergeInto(collection: Collection<ProcessedArticleData>, keeper: Article, duplicate: Article): Promise<void> {
+  const seenIn = [{ feedName: duplicate.feedName || '', link: duplicate.link }, ...(duplicate.alsoSeenIn || [])]
+    .filter(entry => entry.feedName && entry.feedName !== keeper.feedName && !keeper.alsoSeenIn?.some(seen => seen.feedName === entry.feedName));
+
+  await collection.updateOne(
+    { _id: keeper._id },
+    {
+      $push: { alsoSeenIn: { $each: seenIn } },
+      ...(duplicate.isBookmarked ? { $set: { isBookmarked: true } } : {})
+    }
+  );
+  // Profiles bookmarking the duplicate now point to the kept article
+  await getDatabase().collection<UserProfile>('users').updateMany(
+    { bookmarks: duplicate._id!.toString() },
+    { $set: { 'bookmarks.$': keeper._id!.toString() } }
+  );
+  await collection.deleteOne({ _id: duplicate._id });
+}
+
+/**
+ * Sets the canonical link of an article, or merges it into the article already holding it.
+ *
+ * @returns {Promise<boolean>} True if the article was merged into an older copy.
+ */
+async function settle(collection: Collection<ProcessedArticleData>, article: Article): Promise<boolean> {
+  const canonicalLink = canonicalizeUrl(article.link);
+  const keeper = await collection.findOne({ canonicalLink, _id: { $ne: article._id } });
+  if (keeper) {
+    await mergeInto(collection, keeper, article);
+    return true;
+  }
+  try {
+    await collection.updateOne({ _id: article._id }, { $set: { canonicalLink } });
+    return false;
+  } catch (error) {
+    // Ingestion stored the same story meanwhile: merge into it instead
+    if (error instanceof MongoServerError && error.code === 11000) return settle(collection, article);
+    throw error;
+  }
+}
+
+/**
+ * Computes `canonicalLink` for articles stored before cross-feed deduplication existed.
+ * Articles are processed oldest first: when several share a canonical link, the oldest
+ * keeps it and the others are merged into it. Run this before `create-indexes` builds the
+ * unique `canonicalLink` index; it is also safe to run once the index exists.
+ */
+async function backfillCanonicalLinks() {
+  try {
+    await connectToDatabase();
+    const collection = getDatabase().collection<ProcessedArticleData>(databaseConfig.collection.rssArticles);
+    const filter: Filter<ProcessedArticleData> = { canonicalLink: { $not: { $type: 'string' } }, link: { $type: 'string' } };
+
+    logger.info(`🔗 Computing canonical links of ${await collection.countDocuments(filter)} articles...`);
+    const cursor = collection
+      .find(filter, { projection: { link: 1, feedName: 1, alsoSeenIn: 1, isBookmarked: 1 } })
+      .sort({ _id: 1 });
+    let updated = 0;
+    let merged = 0;
+
+    for await (const article of cursor) {
+      if (await settle(collection, article)) merged++;
+      else updated++;
+    }
+
+    logger.info(`✅ Canonical links set on ${updated} articles, ${merged} duplicates merged`);
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to backfill canonical links:', error);
+    process.exit(1);
+  }
+}
+
+backfillCanonicalLinks();
+
+export { backfillCanonicalLinks };
@@ -0,0 +1,151 @@
+// src/scripts/benchmark_repository.ts
+import { connectToDatabase, closeDatabaseConnection } from '@/config/database';
+import { databaseConfig } from '@/config/rssConfig';
+import { RssRepository, FetchOptions } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import logger from '@/utils/logger';
+import { Collection, ObjectId } from 'mongodb';
+import { performance } from 'perf_hooks';
+import dotenv from 'dotenv';
+import path from 'path';
+
+import { fileURLToPath } from 'url';
+
+// Load environment variables from .env file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+/**
+ * Seeds a throwaway database and checks the aggregated `RssRepository.fetchAll` against
+ * the previous implementation (countDocuments + skip/limit + uncached stats): same
+ * pages, same totals, and the median latency of each.
+ */
+const MAIN_DATABASE = process.env.MONGODB_DATABASE || 'rss_feed';
+const BENCHMARK_DATABASE = process.env.BENCHMARK_DATABASE || 'rss_feed_benchmark';
+const ARTICLE_COUNT = parseInt(process.env.BENCHMARK_ARTICLES || '20000');
+const RUNS = parseInt(process.env.BENCHMARK_RUNS || '5');
+
+const CATEGORIES = ['Crypto', 'Tech', 'Macro', 'Markets', 'Energy'];
+const LANGUAGES = ['fr', 'en', 'de'];
+const SENTIMENTS = ['bullish', 'bearish', 'neutral'] as const;
+
+const SCENARIOS: { name: string; options: FetchOptions }[] = [
+    { name: 'default view', options: { page: 1, limit: 24 } },
+    { name: 'deep page', options: { page: 400, limit: 24 } },
+    { name: 'category', options: { category: 'Tech', page: 2, limit: 24 } },
+    { name: 'sentiment + languages', options: { sentiment: 'bullish', language: 'fr,en', limit: 24 } },
+    { name: 'insights, last 7 days', options: { onlyInsights: true, dateRange: '7d', limit: 24 } },
+    { name: 'bookmarks', options: { isBookmarked: true, limit: 24 } },
+    { name: 'translated', options: { translationStatus: 'translated', limit: 24 } }
+];
+
+function seedArticle(index: number, now: number): ProcessedArticleData {
+    const publicationDate = new Date(now - index * 60 * 1000).toISOString(); // Unique, so both sorts are total
+    return {
+        _id: new ObjectId(),
+        title: `Benchmark article ${index}`,
+        link: `https://bench.example/${index}`,
+        feedName: `Feed ${index % 40}`,
+        category: CATEGORIES[index % CATEGORIES.length],
+        language: LANGUAGES[index % LANGUAGES.length],
+        publicationDate,
+        fetchedAt: publicationDate,
+        isBookmarked: index % 50 === 0,
+        ...(index % 7 === 0 ? { translations: { en: { title: 'Translated', summary: '' } } } : {}),
+        analysis: index % 3 === 0 ? null : {
+            sentiment: SENTIMENTS[index % SENTIMENTS.length],
+            iaSummary: index % 2 === 0 ? 'Summary' : undefined
+        }
+    };
+}
+
+async function seed(collection: Collection<ProcessedArticleData>): Promise<void> {
+    const now = Date.now();
+    for (let start = 0; start < ARTICLE_COUNT; start += 1000) {
+        const batch = Array.from({ length: Math.min(1000, ARTICLE_COUNT - start) }, (_, i) => seedArticle(start + i, now));
+        await collection.insertMany(batch);
+    }
+    await collection.createIndex({ publicationDate: -1, fetchedAt: -1 }, { name: 'sort_by_date' });
+    await collection.createIndex({ category: 1, publicationDate: -1 }, { name: 'filter_category' });
+    await collection.createIndex({ 'analysis.sentiment': 1, publicationDate: -1 }, { name: 'filter_sentiment' });
+    await collection.createIndex({ language: 1, publicationDate: -1 }, { name: 'filter_language' });
+}
+
+/**
+ * The listing as implemented before the `$facet` aggregation.
+ */
+async function legacyFetchAll(collection: Collection<ProcessedArticleData>, options: FetchOptions) {
+    const { page = 1, limit = 20, category, sentiment, language, feedName } = options;
+    const query = RssRepository.buildFilterQuery(options);
+    const sort: Record<string, 1 | -1> = category || sentiment || language || feedName
+        ? { publicationDate: -1 }
+        : { publicationDate: -1, fetchedAt: -1 };
+
+    const total = await collection.countDocuments(query);
+    RssRepository.invalidateStats();
+    await RssRepository.getStats();
+    const articles = await collection.find(query).sort(sort).skip((page - 1) * limit).limit(limit).toArray();
+    return { articles, total };
+}
+
+async function medianMs(run: () => Promise<unknown>): Promise<number> {
+    const durations: number[] = [];
+    for (let i = 0; i < RUNS; i++) {
+        const start = performance.now();
+        await run();
+        durations.push(performance.now() - start);
+    }
+    durations.sort((a, b) => a - b);
+    return Math.round(durations[Math.floor(durations.length / 2)] * 10) / 10;
+}
+
+/**
+ * @returns {Promise<boolean>} Whether both implementations returned the same page and total.
+ */
+async function compareScenario(collection: Collection<ProcessedArticleData>, name: string, options: FetchOptions): Promise<boolean> {
+    const legacy = await legacyFetchAll(collection, options);
+    const current = await RssRepository.fetchAll(options);
+    const ids = (articles: ProcessedArticleData[]) => articles.map(a => a._id!.toString()).join(',');
+    const identical = legacy.total === current.total && ids(legacy.articles) === ids(current.articles);
+
+    const legacyMs = await medianMs(() => legacyFetchAll(collection, options));
+    const coldMs = await medianMs(() => { RssRepository.invalidateStats(); return RssRepository.fetchAll(options); });
+    const cachedMs = await medianMs(() => RssRepository.fetchAll(options));
+
+    const status = identical ? '✅' : '❌ results differ';
+    logger.info(`${status} ${name.padEnd(24)} total=${String(current.total).padStart(6)}  legacy ${legacyMs}ms | aggregated ${coldMs}ms | aggregated + cached stats ${cachedMs}ms`);
+    return identical;
+}
+
+async function benchmarkRepository(): Promise<void> {
+    if (BENCHMARK_DATABASE === MAIN_DATABASE) {
+        throw new Error(`BENCHMARK_DATABASE must differ from the application database (${MAIN_DATABASE})`);
+    }
+    process.env.MONGODB_DATABASE = BENCHMARK_DATABASE;
+    const db = await connectToDatabase();
+
+    try {
+        await db.dropDatabase();
+        const collection = db.collection<ProcessedArticleData>(databaseConfig.collection.rssArticles);
+        logger.info(`🌱 Seeding ${ARTICLE_COUNT} articles into ${BENCHMARK_DATABASE}...`);
+        await seed(collection);
+
+        let mismatches = 0;
+        for (const { name, options } of SCENARIOS) {
+            if (!(await compareScenario(collection, name, options))) mismatches++;
+        }
+        if (mismatches > 0) throw new Error(`${mismatches} scenario(s) returned different results`);
+        logger.info(`✨ All ${SCENARIOS.length} scenarios match (median of ${RUNS} runs).`);
+    } finally {
+        await db.dropDatabase();
+        await closeDatabaseConnection();
+    }
+}
+
+benchmarkRepository()
+    .then(() => process.exit(0))
+    .catch(error => {
+        logger.error('❌ Repository benchmark failed:', error);
+        process.exit(1);
+    });
@@ -99,6 +99,48 @@ async function createIndexes() {
       { name: 'pending_analysis', background: true }
     );
 
+    // 9. Canonical link index (cross-feed deduplication).
+    // Run `pnpm run backfill-canonical-links` first so older articles get a canonical link
+    // and their duplicates are merged; otherwise they stay outside this partial index.
+    logger.info('Creating unique_canonical_link index...');
+    await collection.createIndex(
+      { canonicalLink: 1 },
+      {
+        name: 'unique_canonical_link',
+        unique: true,
+        partialFilterExpression: { canonicalLink: { $type: 'string' } }, // Legacy articles have no canonical link
+        background: true
+      }
+    );
+
+    // 10. GUID lookup index (GUIDs are unique per feed)
+    logger.info('Creating feed_guid index...');
+    await collection.createIndex(
+      { guid: 1, sourceFeed: 1 },
+      { name: 'feed_guid', background: true, partialFilterExpression: { guid: { $type: 'string' } } }
+    );
+
+    // 11. Keyset pagination index (cursor mode of GET /api/rss)
+    logger.info('Creating cursor_by_date index...');
+    await collection.createIndex(
+      { publicationDate: -1, _id: -1 },
+      { name: 'cursor_by_date', background: true }
+    );
+
+    // 12. Asset analytics index (GET /api/analytics/assets)
+    logger.info('Creating filter_assets index...');
+    await collection.createIndex(
+      { 'analysis.mentionedAssets': 1, publicationDate: -1 },
+      { name: 'filter_assets', background: true }
+    );
+
+    // 13. Entity page index (GET /api/entities/:id)
+    logger.info('Creating filter_entity index...');
+    await collection.createIndex(
+      { 'analysis.entities.entityId': 1, publicationDate: -1 },
+      { name: 'filter_entity', background: true }
+    );
+
     logger.info('✅ All indexes created successfully!');
 
     // Display created indexes
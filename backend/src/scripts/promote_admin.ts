@@ -0,0 +1,45 @@
+// src/scripts/promote_admin.ts
+import { connectToDatabase } from '@/config/database';
+import { AccountRepository } from '@/repositories/accountRepository';
+import logger from '@/utils/logger';
+import dotenv from 'dotenv';
+import path from 'path';
+
+import { fileURLToPath } from 'url';
+
+// Load environment variables from .env file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+/**
+ * Grants the admin role to an existing account (`--revoke` sets it back to `user`).
+ * Usage: pnpm run promote-admin -- <email> [--revoke]
+ */
+async function promoteAdmin() {
+  const email = process.argv.slice(2).find(arg => !arg.startsWith('--'))?.trim().toLowerCase();
+  const role = process.argv.includes('--revoke') ? 'user' : 'admin';
+  if (!email) {
+    logger.error('❌ Usage: pnpm run promote-admin -- <email> [--revoke]');
+    process.exit(1);
+  }
+
+  try {
+    await connectToDatabase();
+    if (!(await AccountRepository.setRole(email, role))) {
+      logger.error(`❌ No account registered with ${email}`);
+      process.exit(1);
+    }
+    // Admin routes check the account role, so a revocation applies to existing tokens at once;
+    // a promoted user gets a token carrying the admin role at their next login
+    logger.info(`✅ ${email} is now ${role}.${role === 'admin' ? ' The new role applies from their next login.' : ''}`);
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to change the role:', error);
+    process.exit(1);
+  }
+}
+
+promoteAdmin();
+
+export { promoteAdmin };
@@ -0,0 +1,61 @@
+// src/scripts/rebuild_entities.ts
+import { AnyBulkWriteOperation } from 'mongodb';
+import { getDatabase, connectToDatabase } from '@/config/database';
+import { databaseConfig } from '@/config/rssConfig';
+import { EntityRepository } from '@/repositories/entityRepository';
+import { EntityService } from '@/services/entityService';
+import { ProcessedArticleData } from '@/types/rss';
+import logger from '@/utils/logger';
+import dotenv from 'dotenv';
+import path from 'path';
+
+import { fileURLToPath } from 'url';
+
+// Load environment variables from .env file
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '../../.env') });
+
+const BATCH_SIZE = 500;
+
+/**
+ * Rebuilds the entity store from the NER entities stored on analysed articles,
+ * and rewrites their canonical `entityId`.
+ */
+async function rebuildEntities() {
+  try {
+    await connectToDatabase();
+    const collection = getDatabase().collection<ProcessedArticleData>(databaseConfig.collection.rssArticles);
+    const filter = { 'analysis.entities.0': { $exists: true } };
+
+    await EntityRepository.ensureIndexes();
+    await EntityRepository.deleteAll();
+    logger.info(`🏷️ Indexing the entities of ${await collection.countDocuments(filter)} articles...`);
+
+    const cursor = collection.find(filter, { projection: { publicationDate: 1, fetchedAt: 1, 'analysis.entities': 1 } });
+    let operations: AnyBulkWriteOperation<ProcessedArticleData>[] = [];
+    let indexed = 0;
+
+    for await (const article of cursor) {
+      const mentions = EntityService.canonicalize(article.analysis?.entities || []);
+      await EntityService.indexArticle(mentions, article.publicationDate || article.fetchedAt || new Date().toISOString());
+      const entities = mentions.map(({ text, label, score, entityId }) => ({ text, label, score, entityId }));
+      operations.push({ updateOne: { filter: { _id: article._id }, update: { $set: { 'analysis.entities': entities } } } });
+      indexed++;
+      if (operations.length < BATCH_SIZE) continue;
+      await collection.bulkWrite(operations, { ordered: false });
+      operations = [];
+    }
+    if (operations.length) await collection.bulkWrite(operations, { ordered: false });
+
+    logger.info(`✅ Entities of ${indexed} articles indexed`);
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to rebuild the entity store:', error);
+    process.exit(1);
+  }
+}
+
+rebuildEntities();
+
+export { rebuildEntities };
@@ -1,10 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { aiService } from '../aiService';
+import { FakeAiProvider } from '../aiProviders';
 import { pipeline } from '@xenova/transformers';
+import { AiProvider } from '@/types/ai';
 
 interface AiServiceInternal {
-    isInitialized: boolean;
-    sentimentPipeline: unknown;
+    readyTasks: Set<string>;
+    local: AiProvider & { pipelines: Record<string, unknown> };
 }
 
 const serviceInternal = aiService as unknown as AiServiceInternal;
@@ -17,6 +19,7 @@ vi.mock('@xenova/transformers', () => ({
 vi.mock('@/utils/logger', () => ({
     default: {
         info: vi.fn(),
+        warn: vi.fn(),
         error: vi.fn(),
         debug: vi.fn()
     }
@@ -24,12 +27,15 @@ vi.mock('@/utils/logger', () => ({
 
 const mockPipeline = vi.mocked(pipeline);
 
+function resetService(): void {
+    vi.clearAllMocks();
+    aiService.useProvider('sentiment', serviceInternal.local);
+    serviceInternal.readyTasks.clear();
+    serviceInternal.local.pipelines = {};
+}
+
 describe('AiService', () => {
-    beforeEach(() => {
-        vi.clearAllMocks();
-        serviceInternal.isInitialized = false;
-        serviceInternal.sentimentPipeline = null;
-    });
+    beforeEach(resetService);
 
     describe('Initialization', () => {
         it('should initialize successfully', async () => {
@@ -37,7 +43,14 @@ describe('AiService', () => {
             mockPipeline.mockResolvedValue(mockFn as unknown as never);
             await aiService.init();
             expect(mockPipeline).toHaveBeenCalled();
-            expect(serviceInternal.isInitialized).toBe(true);
+            expect([...serviceInternal.readyTasks].sort()).toEqual(['ner', 'sentiment', 'summarization', 'translation']);
+        });
+
+        it('should only load the models of the requested tasks', async () => {
+            mockPipeline.mockResolvedValue(vi.fn() as unknown as never);
+            await aiService.init(['summarization']);
+            expect(mockPipeline).toHaveBeenCalledTimes(1);
+            expect(Object.keys(serviceInternal.local.pipelines)).toEqual(['summarization']);
         });
     });
 
@@ -70,3 +83,30 @@ describe('AiService', () => {
         });
     });
 });
+
+describe('AiService providers', () => {
+    beforeEach(resetService);
+
+    describe('Task routing', () => {
+        it('should run a task on the configured provider', async () => {
+            const fake = new FakeAiProvider();
+            aiService.useProvider('sentiment', fake);
+
+            const result = await aiService.analyzeSentiment('Shares surge after record earnings');
+            expect(result?.label).toBe('POSITIVE');
+            expect(fake.calls).toEqual([{ task: 'sentiment', input: 'Shares surge after record earnings' }]);
+        });
+
+        it('should fall back to the local model when the provider fails', async () => {
+            const failing = new FakeAiProvider();
+            failing.classifySentiment = vi.fn().mockRejectedValue(new Error('timeout of 30000ms exceeded'));
+            aiService.useProvider('sentiment', failing);
+            const mockFn = vi.fn().mockResolvedValue([{ label: '1 star', score: 0.7 }]);
+            mockPipeline.mockResolvedValue(mockFn as unknown as never);
+
+            const result = await aiService.analyzeSentiment('test');
+            expect(result).toEqual({ label: 'NEGATIVE', score: 0.7 });
+            expect(mockFn).toHaveBeenCalledWith('test');
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { AlertService } from '../alertService';
+import { UserRepository } from '@/repositories/userRepository';
+import { AlertRepository } from '@/repositories/alertRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import { SavedSearch } from '@/types/user';
+
+vi.mock('@/repositories/userRepository', () => ({
+    UserRepository: {
+        getProfile: vi.fn(),
+        addSavedSearch: vi.fn(),
+        replaceSavedSearch: vi.fn(),
+        deleteSavedSearch: vi.fn(),
+        findAlertSubscribers: vi.fn()
+    }
+}));
+
+vi.mock('@/repositories/alertRepository', () => ({
+    AlertRepository: {
+        insertMany: vi.fn(),
+        deleteBySearch: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const article: ProcessedArticleData = {
+    _id: new ObjectId(),
+    title: 'ECB holds rates as inflation cools',
+    link: 'https://example.com/ecb',
+    feedName: 'Les Echos',
+    category: 'Macro',
+    language: 'fr',
+    fetchedAt: new Date().toISOString(),
+    analysis: { sentiment: 'neutral', entities: [{ text: 'ECB', label: 'ORG', score: 0.98 }, { text: 'Lagarde', label: 'PER', score: 0.95 }] }
+};
+
+function savedSearch(overrides: Partial<SavedSearch>): SavedSearch {
+    return { id: new ObjectId().toHexString(), name: 'Rule', query: {}, isAlert: true, createdAt: '', updatedAt: '', ...overrides };
+}
+
+describe('AlertService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should match article filters and entity names', () => {
+        expect(AlertService.match(article, { category: 'Macro' })).toEqual([]);
+        expect(AlertService.match(article, { language: 'fr', entities: ['lagarde', 'Fed'] })).toEqual(['Lagarde']);
+        expect(AlertService.match(article, { entities: ['Fed'] })).toBeNull();
+        expect(AlertService.match(article, { category: 'Crypto', entities: ['ECB'] })).toBeNull();
+    });
+
+    it('should record a notification for each matching alert rule', async () => {
+        const matching = savedSearch({ name: 'ECB watch', query: { entities: ['ECB'] } });
+        vi.mocked(UserRepository.findAlertSubscribers).mockResolvedValue([
+            { _id: 'user_a', savedSearches: [matching, savedSearch({ query: { category: 'Crypto' } }), savedSearch({ isAlert: false })] },
+            { _id: 'user_b', savedSearches: [savedSearch({ query: { search: 'inflation' } })] }
+        ]);
+        vi.mocked(AlertRepository.insertMany).mockResolvedValue(2);
+
+        const created = await AlertService.evaluate(article);
+
+        expect(created).toBe(2);
+        const alerts = vi.mocked(AlertRepository.insertMany).mock.calls[0][0];
+        expect(alerts).toHaveLength(2);
+        expect(alerts[0]).toMatchObject({ userId: 'user_a', searchId: matching.id, searchName: 'ECB watch', matchedEntities: ['ECB'], read: false });
+        expect(alerts[1]).toMatchObject({ userId: 'user_b', articleId: article._id!.toString() });
+    });
+
+    it('should sanitize saved queries and require a name', async () => {
+        await expect(AlertService.createSavedSearch('user_a', { name: '  ' })).rejects.toMatchObject({ statusCode: 400 });
+
+        const search = await AlertService.createSavedSearch('user_a', {
+            name: ' Bitcoin ',
+            isAlert: true,
+            query: { category: 'Crypto', page: 3, entities: ['Bitcoin', ''] } as never
+        });
+
+        expect(search).toMatchObject({ name: 'Bitcoin', isAlert: true, query: { category: 'Crypto', entities: ['Bitcoin'] } });
+        expect(search.query).not.toHaveProperty('page');
+        expect(UserRepository.addSavedSearch).toHaveBeenCalledWith('user_a', search);
+    });
+
+    it('should reject a name that is not a string', async () => {
+        const existing = savedSearch({ name: 'ECB watch' });
+        vi.mocked(UserRepository.getProfile).mockResolvedValue({ savedSearches: [existing] } as never);
+
+        await expect(AlertService.createSavedSearch('user_a', { name: 42 } as never)).rejects.toMatchObject({ statusCode: 400 });
+        await expect(AlertService.updateSavedSearch('user_a', existing.id, { name: ['x'] } as never)).rejects.toMatchObject({ statusCode: 400 });
+        expect(UserRepository.addSavedSearch).not.toHaveBeenCalled();
+        expect(UserRepository.replaceSavedSearch).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { ApiKeyService } from '../apiKeyService';
+import { ApiKeyRepository } from '@/repositories/apiKeyRepository';
+import { ApiKey } from '@/types/apiKey';
+
+vi.mock('@/repositories/apiKeyRepository', () => ({
+    ApiKeyRepository: {
+        create: vi.fn(),
+        findActiveByHash: vi.fn(),
+        revoke: vi.fn(),
+        touch: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+describe('ApiKeyService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(ApiKeyRepository.touch).mockResolvedValue();
+    });
+
+    it('should store only the hash of an issued key and validate scopes', async () => {
+        vi.mocked(ApiKeyRepository.create).mockResolvedValue(new ObjectId());
+
+        const { apiKey, key } = await ApiKeyService.create({ name: 'Dashboard', scopes: ['read:articles', 'write:sources'] }, 'admin-id');
+
+        const stored = vi.mocked(ApiKeyRepository.create).mock.calls[0][0];
+        expect(key).toMatch(/^kgn_/);
+        expect(stored.keyHash).not.toContain(key);
+        expect(JSON.stringify(apiKey)).not.toContain(key);
+        expect(apiKey.prefix).toBe(key.slice(0, 10));
+        await expect(ApiKeyService.create({ name: 'Bad', scopes: ['delete:all'] }, null)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should resolve keys through a short cache and grant every scope to admin keys', async () => {
+        const stored: ApiKey = {
+            _id: new ObjectId(), name: 'Ops', prefix: 'kgn_abcdef', keyHash: '', scopes: ['admin'],
+            createdBy: null, createdAt: '', lastUsedAt: null, revokedAt: null
+        };
+        vi.mocked(ApiKeyRepository.findActiveByHash).mockResolvedValue(stored);
+        const now = Date.now();
+
+        const principal = await ApiKeyService.authenticate('kgn_cached-key', now);
+        await ApiKeyService.authenticate('kgn_cached-key', now + 1000);
+
+        expect(principal).toEqual({ id: stored._id!.toString(), name: 'Ops', scopes: ['admin'] });
+        expect(ApiKeyRepository.findActiveByHash).toHaveBeenCalledTimes(1);
+        expect(ApiKeyService.hasScope(principal!, 'write:sources')).toBe(true);
+        expect(await ApiKeyService.authenticate('not-a-key', now)).toBeNull();
+    });
+});
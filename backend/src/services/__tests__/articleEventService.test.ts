@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { ArticleEventService } from '../articleEventService';
+import { ProcessedArticleData } from '@/types/rss';
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: { findById: vi.fn() }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const article: ProcessedArticleData = {
+    _id: new ObjectId(),
+    title: 'Bitcoin rallies after ETF approval',
+    link: 'https://example.com/btc',
+    feedName: 'CoinDesk',
+    category: 'Crypto',
+    language: 'en',
+    publicationDate: new Date().toISOString(),
+    fetchedAt: new Date().toISOString(),
+    summary: 'Markets react.',
+    fullText: 'A very long scraped body',
+    analysis: { sentiment: 'bullish' }
+};
+
+describe('ArticleEventService', () => {
+    it('should deliver published events to subscribers without the full text', () => {
+        const listener = vi.fn();
+        const unsubscribe = ArticleEventService.subscribe(listener);
+
+        ArticleEventService.publish('article.created', { article });
+        unsubscribe();
+        ArticleEventService.publish('sync.completed', { sync: { processed: 1, errors: 0, notModified: 0 } });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        const event = listener.mock.calls[0][0];
+        expect(event.type).toBe('article.created');
+        expect(event.article.title).toBe(article.title);
+        expect(event.article.fullText).toBeUndefined();
+    });
+
+    it('should apply the article list filters', () => {
+        const event = ArticleEventService.publish('article.analyzed', { article });
+
+        expect(ArticleEventService.matches(event, {})).toBe(true);
+        expect(ArticleEventService.matches(event, { category: 'Crypto', language: 'fr,en', sentiment: 'bullish', dateRange: '24h' })).toBe(true);
+        expect(ArticleEventService.matches(event, { search: 'etf stocks' })).toBe(true);
+        expect(ArticleEventService.matches(event, { feedName: 'Reuters' })).toBe(false);
+        expect(ArticleEventService.matches(event, { onlyInsights: true })).toBe(false);
+        expect(ArticleEventService.matches(event, { isBookmarked: true, bookmarkIds: article._id!.toString() })).toBe(true);
+    });
+
+    it('should always deliver sync events and format them for SSE', () => {
+        const event = ArticleEventService.publish('sync.completed', { sync: { processed: 3, errors: 0, notModified: 1 } });
+
+        expect(ArticleEventService.matches(event, { category: 'Crypto' })).toBe(true);
+        expect(ArticleEventService.toSse(event)).toMatch(new RegExp(`^id: ${event.id}\\nevent: sync.completed\\ndata: \\{.*\\}\\n\\n$`));
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Writable } from 'stream';
+import { ObjectId } from 'mongodb';
+import { ArticleExportService } from '../articleExportService';
+import { RssRepository } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: {
+        streamAll: vi.fn()
+    }
+}));
+
+const article: ProcessedArticleData = {
+    _id: new ObjectId(),
+    title: 'Apple, "Services" beat',
+    link: 'https://example.com/apple',
+    fetchedAt: '2026-03-02T08:05:00.000Z',
+    analysis: {
+        sentiment: 'bullish',
+        sentimentScore: 0.91,
+        isPromotional: false,
+        entities: [{ text: 'Apple', label: 'ORG', score: 0.99 }, { text: 'Tim Cook', label: 'PER', score: 0.97 }]
+    }
+};
+
+function mockCursor(articles: ProcessedArticleData[]) {
+    const cursor = {
+        close: vi.fn().mockResolvedValue(undefined),
+        async *[Symbol.asyncIterator]() {
+            yield* articles;
+        }
+    };
+    vi.mocked(RssRepository.streamAll).mockReturnValue(cursor as never);
+    return cursor;
+}
+
+function collector(): { output: Writable; text: () => string } {
+    const chunks: string[] = [];
+    const output = new Writable({
+        write(chunk, _encoding, callback) {
+            chunks.push(chunk.toString());
+            callback();
+        }
+    });
+    return { output, text: () => chunks.join('') };
+}
+
+describe('ArticleExportService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should stream CSV rows with escaped values and flattened entities', async () => {
+        const cursor = mockCursor([article, { ...article, analysis: null }]);
+        const { output, text } = collector();
+
+        const count = await ArticleExportService.export(output, 'csv', ['title', 'sentimentScore', 'entities'], { category: 'Tech' });
+
+        expect(count).toBe(2);
+        expect(text()).toBe([
+            'title,sentimentScore,entities',
+            '"Apple, ""Services"" beat",0.91,Apple:ORG;Tim Cook:PER',
+            '"Apple, ""Services"" beat",,',
+            ''
+        ].join('\n'));
+        expect(RssRepository.streamAll).toHaveBeenCalledWith(
+            { category: 'Tech' },
+            { title: 1, 'analysis.sentimentScore': 1, 'analysis.entities': 1 }
+        );
+        expect(cursor.close).toHaveBeenCalled();
+    });
+
+    it('should neutralize cells that spreadsheets would run as formulas', async () => {
+        mockCursor([{ ...article, title: '=HYPERLINK("http://evil.example","x")', author: '@admin', analysis: { ...article.analysis!, sentimentScore: -0.4 } }]);
+        const { output, text } = collector();
+
+        await ArticleExportService.export(output, 'csv', ['title', 'author', 'sentimentScore'], {});
+
+        expect(text().split('\n')[1]).toBe(`"'=HYPERLINK(""http://evil.example"",""x"")",'@admin,-0.4`);
+    });
+
+    it('should stream typed NDJSON rows and reject unknown fields', async () => {
+        mockCursor([article]);
+        const { output, text } = collector();
+
+        await ArticleExportService.export(output, 'ndjson', ['sentiment', 'isPromotional', 'entities'], {});
+
+        expect(JSON.parse(text())).toEqual({ sentiment: 'bullish', isPromotional: false, entities: article.analysis!.entities });
+        expect(() => ArticleExportService.parseFields('title,fullText')).toThrow(/Unknown fields: fullText/);
+    });
+});
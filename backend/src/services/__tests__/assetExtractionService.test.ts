@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { AssetExtractionService } from '../assetExtractionService';
+import { ArticleEntity } from '@/types/rss';
+
+describe('AssetExtractionService', () => {
+    it('should map organization and misc entities to dictionary symbols', () => {
+        const entities: ArticleEntity[] = [
+            { text: 'Apple Inc.', label: 'ORG', score: 0.95 },
+            { text: 'Bitcoin', label: 'MISC', score: 0.9 },
+            { text: 'Société Générale', label: 'ORG', score: 0.9 },
+            { text: 'Tesla', label: 'PER', score: 0.85 }
+        ];
+
+        expect(AssetExtractionService.extract('', entities)).toEqual(['AAPL', 'BTC']);
+    });
+
+    it('should read cashtags and ignore amounts and unknown tickers', () => {
+        const text = 'Traders rotate from $eth into $SOL and $XBT, while $NVDA. rallies past $5 and $ZZZZ stays flat';
+
+        expect(AssetExtractionService.extract(text)).toEqual(['BTC', 'ETH', 'NVDA', 'SOL']);
+        expect(AssetExtractionService.getAsset('btc')).toMatchObject({ name: 'Bitcoin', type: 'crypto' });
+    });
+});
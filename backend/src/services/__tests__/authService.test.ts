@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { AuthService } from '../authService';
+import { AccountRepository } from '@/repositories/accountRepository';
+import { hashPassword, signToken, verifyToken } from '@/utils/token';
+import { UserAccount } from '@/types/auth';
+
+vi.mock('@/repositories/accountRepository', () => ({
+    AccountRepository: {
+        create: vi.fn(),
+        findByEmail: vi.fn(),
+        findRole: vi.fn(),
+        touchLogin: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+describe('AuthService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should sign tokens that expire and reject forged ones', () => {
+        const now = Date.now();
+        const token = signToken({ id: 'a' }, 'secret', 60, now);
+
+        expect(verifyToken<{ id: string; exp: number }>(token, 'secret', now)?.id).toBe('a');
+        expect(verifyToken(token, 'other-secret', now)).toBeNull();
+        expect(verifyToken(token, 'secret', now + 61_000)).toBeNull();
+        expect(verifyToken(`${token}x`, 'secret', now)).toBeNull();
+    });
+
+    it('should register a user account with a fresh profile', async () => {
+        const id = new ObjectId();
+        vi.mocked(AccountRepository.findByEmail).mockResolvedValue(null);
+        vi.mocked(AccountRepository.create).mockResolvedValue(id);
+
+        const session = await AuthService.register({ email: ' Ana@Example.com ', password: 'long-password', role: 'admin', legacyUserId: 'user_legacy' } as never);
+
+        expect(session.user).toEqual({ id: id.toString(), email: 'ana@example.com', role: 'user', profileId: expect.stringMatching(/^user_[0-9a-f]{24}$/) });
+        expect(AuthService.authenticate(session.token)).toEqual(session.user);
+        await expect(AuthService.register({ email: 'ana@example.com', password: 'short' })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject wrong passwords and keep the account profile on login', async () => {
+        const account: UserAccount = {
+            _id: new ObjectId(),
+            email: 'ana@example.com',
+            passwordHash: await hashPassword('long-password'),
+            role: 'user',
+            profileId: 'user_account',
+            createdAt: '',
+            lastLoginAt: ''
+        };
+        vi.mocked(AccountRepository.findByEmail).mockResolvedValue(account);
+
+        await expect(AuthService.login({ email: 'ana@example.com', password: 'wrong-password' })).rejects.toMatchObject({ statusCode: 401 });
+
+        const session = await AuthService.login({ email: 'ana@example.com', password: 'long-password', legacyUserId: 'user_legacy' } as never);
+        expect(session.user.profileId).toBe('user_account');
+        expect(AccountRepository.touchLogin).toHaveBeenCalledWith(account._id);
+    });
+
+    it('should check the admin role against the account', async () => {
+        const admin = { id: new ObjectId().toString(), email: 'ana@example.com', role: 'admin' as const, profileId: 'user_account' };
+        vi.mocked(AccountRepository.findRole).mockResolvedValue('user');
+
+        expect(await AuthService.isAdmin(admin)).toBe(false);
+        expect(await AuthService.isAdmin({ ...admin, role: 'user' })).toBe(false);
+        expect(AccountRepository.findRole).toHaveBeenCalledTimes(1);
+
+        vi.mocked(AccountRepository.findRole).mockResolvedValue('admin');
+        expect(await AuthService.isAdmin(admin)).toBe(true);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EntityService } from '../entityService';
+import { EntityRepository } from '@/repositories/entityRepository';
+import { RssRepository } from '@/repositories/rssRepository';
+import { ArticleEntity } from '@/types/rss';
+
+vi.mock('@/repositories/entityRepository', () => ({
+    EntityRepository: {
+        recordMentions: vi.fn(),
+        recordCooccurrences: vi.fn(),
+        findById: vi.fn(),
+        findByIds: vi.fn(),
+        findCooccurrences: vi.fn()
+    }
+}));
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: { findByEntity: vi.fn(), countEntitySentiment: vi.fn() }
+}));
+
+describe('EntityService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should merge aliases, tickers and surnames into canonical entities', async () => {
+        const entities: ArticleEntity[] = [
+            { text: 'BlackRock', label: 'ORG', score: 0.97 },
+            { text: 'Blackrock Inc', label: 'ORG', score: 0.9 },
+            { text: 'BLK', label: 'MISC', score: 0.85 },
+            { text: 'Fed', label: 'ORG', score: 0.92 },
+            { text: 'Larry Fink', label: 'PER', score: 0.99 },
+            { text: 'Fink', label: 'PER', score: 0.95 }
+        ];
+
+        const mentions = EntityService.canonicalize(entities);
+        expect(mentions.map(m => m.entityId)).toEqual(['blackrock', 'blackrock', 'blackrock', 'federal-reserve', 'larry-fink', 'larry-fink']);
+        expect(mentions[2]).toMatchObject({ name: 'BlackRock', assetSymbol: 'BLK', text: 'BLK' });
+
+        await EntityService.indexArticle(mentions, '2026-10-01T08:00:00.000Z');
+        expect(vi.mocked(EntityRepository.recordMentions).mock.calls[0][0]).toHaveLength(3);
+        expect(EntityRepository.recordCooccurrences).toHaveBeenCalledWith(['blackrock', 'federal-reserve', 'larry-fink'], '2026-10-01T08:00:00.000Z');
+    });
+
+    it('should build the entity page and refuse unknown entities', async () => {
+        vi.mocked(EntityRepository.findById).mockResolvedValueOnce(null);
+        await expect(EntityService.getProfile('unknown')).rejects.toMatchObject({ statusCode: 404 });
+
+        vi.mocked(EntityRepository.findById).mockResolvedValue({
+            _id: 'blackrock', name: 'BlackRock', labels: { MISC: 2, ORG: 5 }, aliases: ['BlackRock', 'BLK'],
+            assetSymbol: 'BLK', articleCount: 7, firstSeenAt: '2026-09-01', lastSeenAt: '2026-10-01'
+        });
+        vi.mocked(RssRepository.findByEntity).mockResolvedValue([]);
+        vi.mocked(RssRepository.countEntitySentiment).mockResolvedValue([
+            { date: '2026-10-02', sentiment: 'bearish', count: 1 },
+            { date: '2026-10-01', sentiment: 'bullish', count: 3 },
+            { date: '2026-10-01', sentiment: 'bearish', count: 1 }
+        ]);
+        vi.mocked(EntityRepository.findCooccurrences).mockResolvedValue([
+            { _id: 'blackrock|larry-fink', entities: ['blackrock', 'larry-fink'], count: 4, lastSeenAt: '2026-10-01' }
+        ]);
+        vi.mocked(EntityRepository.findByIds).mockResolvedValue([
+            { _id: 'larry-fink', name: 'Larry Fink', labels: { PER: 4 }, aliases: [], articleCount: 4, firstSeenAt: '', lastSeenAt: '' }
+        ]);
+
+        const profile = await EntityService.getProfile('blackrock');
+        expect(profile.entity).toMatchObject({ id: 'blackrock', label: 'ORG', assetSymbol: 'BLK' });
+        expect(profile.sentimentTrend).toEqual([
+            { date: '2026-10-01', count: 4, bullish: 3, bearish: 1, neutral: 0, netSentiment: 0.5 },
+            { date: '2026-10-02', count: 1, bullish: 0, bearish: 1, neutral: 0, netSentiment: -1 }
+        ]);
+        expect(profile.related).toEqual([{ id: 'larry-fink', name: 'Larry Fink', label: 'PER', count: 4 }]);
+    });
+});
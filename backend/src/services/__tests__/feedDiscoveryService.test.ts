@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { lookup } from 'dns/promises';
+import { FeedDiscoveryService } from '../feedDiscoveryService';
+
+vi.mock('axios', () => ({
+    default: { get: vi.fn() }
+}));
+
+vi.mock('dns/promises', () => ({
+    lookup: vi.fn()
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const HOMEPAGE = `<html lang="fr-FR"><head>
+  <link rel="alternate" type="application/rss+xml" href="/rss.xml">
+  <link rel="alternate" type="text/html" href="/en">
+</head><body></body></html>`;
+
+const RSS = `<?xml version="1.0"?><rss version="2.0"><channel><title>Example</title>
+  <item><title>First</title><link>https://example.com/1</link><pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate></item>
+  <item><title>Second</title><link>https://example.com/2</link></item>
+</channel></rss>`;
+
+function respond(documents: Record<string, { body: string; type: string }>) {
+    vi.mocked(axios.get).mockImplementation(async (url: string) => {
+        const document = documents[url];
+        if (!document) throw new Error('Request failed with status code 404');
+        return { status: 200, data: document.body, headers: { 'content-type': document.type } };
+    });
+}
+
+describe('FeedDiscoveryService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    });
+
+    it('should find feeds declared by the page', async () => {
+        respond({
+            'https://example.com/': { body: HOMEPAGE, type: 'text/html' },
+            'https://example.com/rss.xml': { body: RSS, type: 'application/rss+xml' }
+        });
+
+        const candidates = await FeedDiscoveryService.discover('example.com');
+
+        expect(candidates).toHaveLength(1);
+        expect(candidates[0]).toMatchObject({
+            url: 'https://example.com/rss.xml',
+            title: 'Example',
+            format: 'rss',
+            language: 'fr',
+            itemCount: 2,
+            discoveredVia: 'link'
+        });
+        expect(candidates[0].sample[0]).toMatchObject({ title: 'First', link: 'https://example.com/1' });
+    });
+
+    it('should probe common paths when no feed is declared', async () => {
+        respond({
+            'https://example.com/': { body: '<html><head></head></html>', type: 'text/html' },
+            'https://example.com/feed': { body: RSS, type: 'text/xml' }
+        });
+
+        const candidates = await FeedDiscoveryService.discover('https://example.com');
+
+        expect(candidates.map(c => c.url)).toEqual(['https://example.com/feed']);
+        expect(candidates[0].discoveredVia).toBe('guess');
+    });
+
+    it('should return the URL itself when it is already a feed', async () => {
+        respond({ 'https://example.com/rss.xml': { body: RSS, type: 'application/rss+xml' } });
+
+        const candidates = await FeedDiscoveryService.discover('https://example.com/rss.xml');
+
+        expect(candidates).toHaveLength(1);
+        expect(candidates[0].discoveredVia).toBe('direct');
+    });
+
+    it('should reject an unreachable page', async () => {
+        respond({});
+
+        await expect(FeedDiscoveryService.discover('https://example.com')).rejects.toMatchObject({ statusCode: 502 });
+    });
+});
+
+describe('FeedDiscoveryService address checks', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+    });
+
+    it('should refuse hosts resolving to internal addresses', async () => {
+        vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+
+        await expect(FeedDiscoveryService.discover('intranet.example.com')).rejects.toMatchObject({ statusCode: 400 });
+        await expect(FeedDiscoveryService.discover('http://127.0.0.1:27017')).rejects.toMatchObject({ statusCode: 400 });
+        await expect(FeedDiscoveryService.discover('http://[::ffff:169.254.169.254]/')).rejects.toMatchObject({ statusCode: 400 });
+        expect(axios.get).not.toHaveBeenCalled();
+    });
+
+    it('should refuse redirects to internal addresses', async () => {
+        vi.mocked(axios.get).mockResolvedValue({
+            status: 302,
+            data: '',
+            headers: { location: 'http://169.254.169.254/latest/meta-data/' }
+        });
+
+        await expect(FeedDiscoveryService.discover('example.com')).rejects.toMatchObject({ statusCode: 400 });
+        expect(axios.get).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { FeedOutputService } from '../feedOutputService';
+import { RssRepository } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: {
+        fetchAll: vi.fn()
+    }
+}));
+
+const article: ProcessedArticleData = {
+    _id: new ObjectId(),
+    title: 'Rates & <bonds> rally',
+    link: 'https://example.com/rates',
+    feedName: 'Les Echos',
+    sourceFeed: 'https://example.com/rss',
+    category: 'Macro',
+    publicationDate: '2026-03-02T08:00:00.000Z',
+    fetchedAt: '2026-03-02T08:05:00.000Z',
+    summary: 'Feed excerpt',
+    analysis: { sentiment: 'bullish', iaSummary: 'Yields fall after the ECB meeting.' }
+};
+
+const request = {
+    options: { category: 'Macro', sentiment: 'bullish' },
+    limit: 50,
+    homeUrl: 'https://kognit.example',
+    selfUrl: 'https://kognit.example/api/rss/feed.xml?category=Macro&sentiment=bullish'
+};
+
+describe('FeedOutputService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(RssRepository.fetchAll).mockResolvedValue({ articles: [article], total: 1, stats: { today: 1, week: 1, saved: 0, enriched: 1, total: 1 } });
+    });
+
+    it('should render an escaped RSS 2.0 feed with the AI summary and sentiment category', async () => {
+        const feed = await FeedOutputService.render('rss', request);
+
+        expect(feed.contentType).toContain('application/rss+xml');
+        expect(feed.body).toContain('<title>Kognit · Macro · bullish</title>');
+        expect(feed.body).toContain('<title>Rates &amp; &lt;bonds&gt; rally</title>');
+        expect(feed.body).toContain('<description>Yields fall after the ECB meeting.</description>');
+        expect(feed.body).toContain('<category domain="sentiment">bullish</category>');
+        expect(feed.body).toContain('<pubDate>Mon, 02 Mar 2026 08:00:00 GMT</pubDate>');
+        expect(feed.body).toContain('href="https://kognit.example/api/rss/feed.xml?category=Macro&amp;sentiment=bullish"');
+        expect(RssRepository.fetchAll).toHaveBeenCalledWith({ category: 'Macro', sentiment: 'bullish', page: 1, limit: 50 });
+    });
+
+    it('should render Atom entries and JSON Feed items', async () => {
+        const atom = await FeedOutputService.render('atom', request);
+        const json = JSON.parse((await FeedOutputService.render('json', request)).body);
+
+        expect(atom.body).toContain('<category term="bullish" scheme="urn:kognit:sentiment" label="sentiment"/>');
+        expect(atom.body).toContain('<updated>2026-03-02T08:00:00.000Z</updated>');
+        expect(json.version).toBe('https://jsonfeed.org/version/1.1');
+        expect(json.items[0]).toMatchObject({
+            url: 'https://example.com/rates',
+            summary: 'Yields fall after the ECB meeting.',
+            tags: ['bullish', 'Macro'],
+            _kognit: { sentiment: 'bullish', source: 'Les Echos' }
+        });
+    });
+});
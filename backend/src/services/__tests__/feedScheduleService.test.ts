@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FeedScheduleService } from '../feedScheduleService';
+import { RssService } from '../rssService';
+import { SourceRepository, SourceConfig } from '@/repositories/sourceRepository';
+import { rssConfig } from '@/config/rssConfig';
+import { RssFeedConfig } from '@/types/rss';
+
+vi.mock('@/repositories/sourceRepository', () => ({
+    SourceRepository: {
+        getEnabledSources: vi.fn(),
+        updateSchedule: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+// Helper for private method access
+interface RssServiceInternal {
+    isSyncing: boolean;
+    fetchAndTrack(feed: RssFeedConfig, category: string): Promise<{ newArticles: number; notModified: boolean }>;
+    startBackgroundWorker(): void;
+}
+
+const serviceInternal = RssService as unknown as RssServiceInternal;
+
+const NOW = new Date('2024-01-02T12:00:00.000Z');
+
+function minutesAgo(minutes: number): string {
+    return new Date(NOW.getTime() - minutes * 60000).toISOString();
+}
+
+function makeSource(name: string, overrides: Partial<SourceConfig> = {}): SourceConfig {
+    return { name, url: `https://${name}.example/rss`, enabled: true, language: 'en', ...overrides } as SourceConfig;
+}
+
+describe('FeedScheduleService', () => {
+    it('should use the per-source interval, then the learned one, then the default', () => {
+        expect(FeedScheduleService.getIntervalMinutes({})).toBe(rssConfig.defaultRefreshMinutes);
+        expect(FeedScheduleService.getIntervalMinutes({ learnedIntervalMinutes: 90 })).toBe(90);
+        expect(FeedScheduleService.getIntervalMinutes({ refreshIntervalMinutes: 10, learnedIntervalMinutes: 90 })).toBe(10);
+        expect(FeedScheduleService.getIntervalMinutes({ refreshIntervalMinutes: 0 })).toBe(rssConfig.defaultRefreshMinutes);
+    });
+
+    it('should be due when never fetched or once the interval has elapsed', () => {
+        expect(FeedScheduleService.isDue({}, NOW)).toBe(true);
+        expect(FeedScheduleService.isDue({ refreshIntervalMinutes: 60, lastFetchedAt: minutesAgo(30) }, NOW)).toBe(false);
+        expect(FeedScheduleService.isDue({ refreshIntervalMinutes: 60, lastFetchedAt: minutesAgo(60) }, NOW)).toBe(true);
+        // Cron jitter: a few seconds early still counts as due
+        expect(FeedScheduleService.isDue({ refreshIntervalMinutes: 60, lastFetchedAt: minutesAgo(59.8) }, NOW)).toBe(true);
+    });
+
+    it('should learn the median gap between publications', () => {
+        const dates = [minutesAgo(0), minutesAgo(20), minutesAgo(60), minutesAgo(100), minutesAgo(1000), null, 'not a date'];
+
+        // Gaps: 20, 40, 40, 900 -> median 40
+        expect(FeedScheduleService.learnInterval(dates)).toBe(40);
+    });
+
+    it('should clamp the learned interval to the configured bounds', () => {
+        expect(FeedScheduleService.learnInterval([minutesAgo(0), minutesAgo(1), minutesAgo(2)])).toBe(rssConfig.minRefreshMinutes);
+        expect(FeedScheduleService.learnInterval([minutesAgo(0), minutesAgo(5000), minutesAgo(10000)])).toBe(rssConfig.maxRefreshMinutes);
+    });
+
+    it('should not learn an interval from too few dated items', () => {
+        expect(FeedScheduleService.learnInterval([])).toBeNull();
+        expect(FeedScheduleService.learnInterval([minutesAgo(0), minutesAgo(60), undefined])).toBeNull();
+    });
+});
+
+describe('RssService scheduled synchronization', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.clearAllMocks();
+        serviceInternal.isSyncing = false;
+        vi.spyOn(serviceInternal, 'startBackgroundWorker').mockImplementation(() => undefined);
+        vi.spyOn(serviceInternal, 'fetchAndTrack').mockResolvedValue({ newArticles: 1, notModified: false });
+    });
+
+    it('should only fetch the sources that are due', async () => {
+        vi.mocked(SourceRepository.getEnabledSources).mockResolvedValue({
+            news: [
+                makeSource('fresh', { refreshIntervalMinutes: 60, lastFetchedAt: new Date().toISOString() }),
+                makeSource('stale', { refreshIntervalMinutes: 60, lastFetchedAt: '2020-01-01T00:00:00.000Z' }),
+                makeSource('never')
+            ]
+        });
+
+        const result = await RssService.processAllFeeds({ onlyDue: true });
+
+        const fetched = vi.mocked(serviceInternal.fetchAndTrack).mock.calls.map(([feed]) => feed.name);
+        expect(fetched).toEqual(['stale', 'never']);
+        expect(result.processed).toBe(2);
+    });
+
+    it('should do nothing while a synchronization is already running', async () => {
+        serviceInternal.isSyncing = true;
+
+        const result = await RssService.processAllFeeds({ onlyDue: true });
+
+        expect(result).toEqual({ processed: 0, errors: 0, notModified: 0 });
+        expect(SourceRepository.getEnabledSources).not.toHaveBeenCalled();
+        expect(serviceInternal.fetchAndTrack).not.toHaveBeenCalled();
+        expect(serviceInternal.isSyncing).toBe(true);
+    });
+});
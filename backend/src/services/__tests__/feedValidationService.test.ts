@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { FeedValidationService } from '../feedValidationService';
+
+vi.mock('axios', () => ({
+    default: { get: vi.fn() }
+}));
+
+vi.mock('dns/promises', () => ({
+    lookup: vi.fn().mockResolvedValue([{ address: '93.184.216.34', family: 4 }])
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const RSS = `<?xml version="1.0"?><rss version="2.0"><channel><title>Actu</title>
+  <item><title>La hausse des prix et le marché</title><link>https://example.fr/1</link>
+    <pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate><enclosure url="https://example.fr/1.jpg" type="image/jpeg"/></item>
+  <item><title>Les résultats du trimestre pour une entreprise</title><link>https://example.fr/2</link>
+    <pubDate>Tue, 02 Jan 2024 00:00:00 GMT</pubDate></item>
+</channel></rss>`;
+
+describe('FeedValidationService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should report coverage and guess the language of a valid feed', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: RSS, headers: { 'content-type': 'application/rss+xml' } });
+
+        const report = await FeedValidationService.validate('https://example.fr/rss');
+
+        expect(report).toMatchObject({
+            ok: true,
+            httpStatus: 200,
+            format: 'rss',
+            title: 'Actu',
+            itemCount: 2,
+            dateCoverage: 1,
+            imageCoverage: 0.5,
+            newestItemAt: '2024-01-02T00:00:00.000Z',
+            language: 'fr',
+            languageSource: 'guessed'
+        });
+        expect(report.warnings).toContain('No new item for more than 30 days');
+    });
+
+    it('should fail on HTTP errors', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 404, data: 'Not found', headers: {} });
+
+        const report = await FeedValidationService.validate('https://example.fr/missing');
+
+        expect(report.ok).toBe(false);
+        expect(report.error).toBe('HTTP 404');
+    });
+
+    it('should fail on documents that are not feeds', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<html><body>Hi</body></html>', headers: { 'content-type': 'text/html' } });
+
+        const report = await FeedValidationService.validate('https://example.fr');
+
+        expect(report.ok).toBe(false);
+        expect(report.error).toMatch(/^Parse error/);
+    });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { JobQueueService } from '../jobQueueService';
+import { JobRepository } from '@/repositories/jobRepository';
+import { jobConfig, JOB_PRIORITY } from '@/config/jobConfig';
+import { Job } from '@/types/job';
+
+vi.mock('@/repositories/jobRepository', () => ({
+    JobRepository: {
+        enqueue: vi.fn(),
+        reopen: vi.fn(),
+        claimNext: vi.fn(),
+        deadLetterExpired: vi.fn(),
+        fail: vi.fn(),
+        complete: vi.fn()
+    }
+}));
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: { findPendingAnalysis: vi.fn() }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const NOW = new Date('2024-01-02T00:00:00.000Z');
+
+function makeJob(attempts: number): Job {
+    return {
+        _id: new ObjectId(),
+        type: 'analysis',
+        articleId: 'a1',
+        status: 'running',
+        priority: 0,
+        attempts,
+        maxAttempts: 3,
+        runAt: NOW.toISOString(),
+        leaseUntil: null,
+        workerId: 'w1',
+        lastError: null,
+        createdAt: NOW.toISOString(),
+        updatedAt: NOW.toISOString()
+    };
+}
+
+describe('JobQueueService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(JobRepository.fail).mockResolvedValue(true);
+    });
+
+    it('should prioritize bookmarked then briefing-bound articles', () => {
+        expect(JobQueueService.getPriority({ isBookmarked: true, publicationDate: null }, NOW)).toBe(JOB_PRIORITY.BOOKMARKED);
+        expect(JobQueueService.getPriority({ publicationDate: '2024-01-01T12:00:00.000Z' }, NOW)).toBe(JOB_PRIORITY.RECENT);
+        expect(JobQueueService.getPriority({ publicationDate: '2023-12-01T00:00:00.000Z' }, NOW)).toBe(JOB_PRIORITY.DEFAULT);
+    });
+
+    it('should schedule a retry with exponential backoff', async () => {
+        const job = makeJob(2);
+
+        const dead = await JobQueueService.fail(job, new Error('timeout'), NOW);
+
+        expect(dead).toBe(false);
+        const expectedRetry = new Date(NOW.getTime() + Math.min(jobConfig.retryBaseMs * 2, jobConfig.retryMaxMs)).toISOString();
+        expect(JobRepository.fail).toHaveBeenCalledWith(job._id, 'w1', 'timeout', expectedRetry);
+    });
+
+    it('should dead-letter a job that exhausted its attempts', async () => {
+        const job = makeJob(3);
+
+        const dead = await JobQueueService.fail(job, new Error('model crashed'), NOW);
+
+        expect(dead).toBe(true);
+        expect(JobRepository.fail).toHaveBeenCalledWith(job._id, 'w1', 'model crashed', null);
+    });
+
+    it('should ignore the outcome of a worker whose job was reclaimed', async () => {
+        const job = makeJob(3);
+        vi.mocked(JobRepository.fail).mockResolvedValue(false);
+
+        const dead = await JobQueueService.fail(job, new Error('late failure'), NOW);
+
+        expect(dead).toBe(false);
+    });
+
+    it('should dead-letter expired jobs without attempts left before claiming', async () => {
+        const job = makeJob(1);
+        vi.mocked(JobRepository.deadLetterExpired).mockResolvedValue(2);
+        vi.mocked(JobRepository.claimNext).mockResolvedValue(job);
+
+        const claimed = await JobQueueService.claimNext('w1', ['analysis']);
+
+        expect(claimed).toBe(job);
+        expect(JobRepository.deadLetterExpired).toHaveBeenCalledWith(['analysis']);
+        expect(vi.mocked(JobRepository.deadLetterExpired).mock.invocationCallOrder[0])
+            .toBeLessThan(vi.mocked(JobRepository.claimNext).mock.invocationCallOrder[0]);
+    });
+});
+
+describe('JobQueueService enqueue', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should not enqueue articles that were never saved', async () => {
+        const created = await JobQueueService.enqueueAnalysis({ title: 't', link: 'l', fetchedAt: null });
+
+        expect(created).toBe(false);
+        expect(JobRepository.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should reopen a done job before queuing a new one', async () => {
+        vi.mocked(JobRepository.reopen).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+        vi.mocked(JobRepository.enqueue).mockResolvedValue(true);
+
+        expect(await JobQueueService.requeue('translation', 'a1', 5)).toBe(true);
+        expect(JobRepository.enqueue).not.toHaveBeenCalled();
+
+        expect(await JobQueueService.requeue('translation', 'a2', 5)).toBe(true);
+        expect(JobRepository.reopen).toHaveBeenLastCalledWith('translation', 'a2', 5, jobConfig.maxAttempts);
+        expect(JobRepository.enqueue).toHaveBeenCalledWith('translation', 'a2', 5, jobConfig.maxAttempts);
+    });
+});
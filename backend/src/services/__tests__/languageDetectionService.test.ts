@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LanguageDetectionService } from '../languageDetectionService';
+import { RssRepository } from '@/repositories/rssRepository';
+import { SourceRepository, SourceConfig } from '@/repositories/sourceRepository';
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: { countDetectedLanguages: vi.fn() }
+}));
+
+vi.mock('@/repositories/sourceRepository', () => ({
+    SourceRepository: { getAllSources: vi.fn(), updateSource: vi.fn() }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+describe('LanguageDetectionService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should identify the article language and fall back to the source language when unsure', () => {
+        const french = LanguageDetectionService.detect(
+            'La Banque centrale européenne a maintenu ses taux directeurs inchangés, alors que l\'inflation continue de ralentir dans la zone euro.',
+            'en'
+        );
+        expect(french).toMatchObject({ language: 'fr', detectedLanguage: 'fr' });
+        expect(french.languageConfidence).toBeGreaterThan(0.2);
+
+        expect(LanguageDetectionService.detect('Центральный банк сохранил ставку', 'en')).toEqual({
+            language: 'ru', detectedLanguage: 'ru', languageConfidence: 1
+        });
+        expect(LanguageDetectionService.detect('Bitcoin ETF inflows', 'de').language).toBe('de');
+        expect(LanguageDetectionService.detect('', 'es')).toEqual({ language: 'es', detectedLanguage: null, languageConfidence: null });
+    });
+
+    it('should flag sources whose articles are mostly in another language and clear fixed ones', async () => {
+        const sources = [
+            { name: 'Mislabeled', language: 'en', languageMismatch: null },
+            { name: 'Mixed', language: 'fr', languageMismatch: { detectedLanguage: 'en', share: 0.7, sampleSize: 20, checkedAt: '' } },
+            { name: 'Quiet', language: 'en' }
+        ] as SourceConfig[];
+        vi.mocked(SourceRepository.getAllSources).mockResolvedValue(sources);
+        vi.mocked(RssRepository.countDetectedLanguages).mockResolvedValue([
+            { feedName: 'Mislabeled', language: 'fr', count: 16 },
+            { feedName: 'Mislabeled', language: 'en', count: 4 },
+            { feedName: 'Mixed', language: 'fr', count: 9 },
+            { feedName: 'Mixed', language: 'en', count: 8 },
+            { feedName: 'Quiet', language: 'de', count: 3 }
+        ]);
+        const now = new Date('2026-03-02T03:30:00Z');
+
+        const flagged = await LanguageDetectionService.auditSources(now);
+
+        expect(flagged).toEqual(['Mislabeled']);
+        expect(SourceRepository.updateSource).toHaveBeenCalledWith('Mislabeled', {
+            languageMismatch: { detectedLanguage: 'fr', share: 0.8, sampleSize: 20, checkedAt: now.toISOString() }
+        });
+        expect(SourceRepository.updateSource).toHaveBeenCalledWith('Mixed', { languageMismatch: null });
+        expect(SourceRepository.updateSource).toHaveBeenCalledTimes(2);
+    });
+});
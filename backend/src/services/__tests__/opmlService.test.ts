@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpmlService } from '../opmlService';
+import { SourceRepository } from '@/repositories/sourceRepository';
+import { buildOpml, parseOpml } from '@/utils/opml';
+
+vi.mock('@/repositories/sourceRepository', () => ({
+    SourceRepository: {
+        initializeSources: vi.fn(),
+        getAllSources: vi.fn(),
+        addSources: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const EXISTING = [
+    { name: 'TechCrunch', url: 'https://techcrunch.com/feed/', category: 'Tech', language: 'en', enabled: true, color: '#000000', maxArticles: 20 }
+];
+
+const OPML = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>Export</title></head>
+  <body>
+    <outline text="Science">
+      <outline type="rss" text="Nature" xmlUrl="https://www.nature.com/nature.rss" language="en" maxArticles="10"/>
+      <outline type="rss" text="TC mirror" xmlUrl="http://techcrunch.com/feed"/>
+    </outline>
+    <outline type="rss" text="Le Monde" xmlUrl="https://www.lemonde.fr/rss/une.xml" language="fr" color="#123456"/>
+    <outline type="rss" text="nature" xmlUrl="https://example.com/other.rss"/>
+  </body>
+</opml>`;
+
+describe('OpmlService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(SourceRepository.getAllSources).mockResolvedValue(EXISTING);
+        vi.mocked(SourceRepository.addSources).mockImplementation(async (sources) => sources.length);
+    });
+
+    it('should map outline groups to categories and keep custom attributes', () => {
+        const feeds = parseOpml(OPML);
+
+        expect(feeds).toHaveLength(4);
+        expect(feeds[0]).toMatchObject({ name: 'Nature', category: 'Science', language: 'en', maxArticles: 10 });
+        expect(feeds[2]).toMatchObject({ name: 'Le Monde', category: 'Imported', color: '#123456' });
+    });
+
+    it('should round-trip sources through build and parse', () => {
+        const xml = buildOpml([{ ...EXISTING[0], name: 'A & B' }]);
+        const [feed] = parseOpml(xml);
+
+        expect(feed).toEqual({ ...EXISTING[0], name: 'A & B' });
+    });
+
+    it('should report duplicates by name or URL without writing on dry-run', async () => {
+        const report = await OpmlService.importSources(OPML, true);
+
+        expect(report.toCreate.map(source => source.name)).toEqual(['Nature', 'Le Monde']);
+        expect(report.duplicates).toEqual([
+            expect.objectContaining({ name: 'TC mirror', reason: 'url', existing: 'TechCrunch' }),
+            expect.objectContaining({ name: 'nature', reason: 'name', existing: 'Nature' })
+        ]);
+        expect(report.created).toBe(0);
+        expect(SourceRepository.addSources).not.toHaveBeenCalled();
+    });
+
+    it('should insert new sources with defaults', async () => {
+        const report = await OpmlService.importSources(OPML);
+
+        expect(report.created).toBe(2);
+        const inserted = vi.mocked(SourceRepository.addSources).mock.calls[0][0];
+        expect(inserted[1]).toMatchObject({ name: 'Le Monde', language: 'fr', enabled: true, maxArticles: 20 });
+    });
+
+    it('should reject documents without an opml root', async () => {
+        await expect(OpmlService.importSources('<rss></rss>')).rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('Invalid OPML') });
+    });
+
+    it('should not report storage failures as invalid documents', async () => {
+        vi.mocked(SourceRepository.getAllSources).mockRejectedValue(new Error('connection reset'));
+
+        const error = await OpmlService.importSources(OPML).catch(caught => caught);
+
+        expect(error.message).toBe('connection reset');
+        expect(error.statusCode).toBeUndefined();
+    });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimitService } from '../rateLimitService';
+
+const policy = { capacity: 3, refillPerMinute: 6 }; // one token every 10 s
+
+describe('RateLimitService', () => {
+    beforeEach(() => {
+        RateLimitService.reset();
+    });
+
+    it('should allow a burst up to the capacity then ask to retry when a token is back', () => {
+        const now = Date.now();
+        const decisions = [1, 2, 3, 4].map(() => RateLimitService.consume('ip:1', policy, now));
+
+        expect(decisions.map(d => d.allowed)).toEqual([true, true, true, false]);
+        expect(decisions[2].remaining).toBe(0);
+        expect(decisions[3].retryAfterSeconds).toBe(10);
+        expect(RateLimitService.consume('ip:2', policy, now).allowed).toBe(true);
+    });
+
+    it('should refill over time and drop the buckets of idle clients', () => {
+        const now = Date.now();
+        [1, 2, 3].forEach(() => RateLimitService.consume('ip:1', policy, now));
+
+        expect(RateLimitService.consume('ip:1', policy, now + 5_000).allowed).toBe(false);
+        expect(RateLimitService.consume('ip:1', policy, now + 10_000).allowed).toBe(true);
+        expect(RateLimitService.prune(now + 15_000)).toBe(0);
+        expect(RateLimitService.prune(now + 40_000)).toBe(1);
+    });
+});
@@ -4,20 +4,46 @@ import { RssRepository } from '@/repositories/rssRepository';
 import { aiService } from '../aiService';
 import { rssConfig } from '@/config/rssConfig';
 import { ProcessedArticleData, RssFeedConfig } from '@/types/rss';
+import { SourceRepository } from '@/repositories/sourceRepository';
+import { canonicalizeUrl } from '@/utils/canonicalUrl';
+import { fetchPublicUrl } from '@/utils/publicHttp';
+import { AppError } from '@/utils/errorHandler';
+import { ObjectId } from 'mongodb';
+import axios from 'axios';
 
-const { mockParseURL } = vi.hoisted(() => ({
-    mockParseURL: vi.fn()
+const { mockParseString } = vi.hoisted(() => ({
+    mockParseString: vi.fn()
 }));
 
 vi.mock('rss-parser', () => ({
     default: vi.fn().mockImplementation(() => ({
-        parseURL: mockParseURL
+        parseString: mockParseString
     }))
 }));
 
+vi.mock('axios', () => ({
+    default: { get: vi.fn() }
+}));
+
+// Address checks are covered by the discovery tests: here the fetch goes straight to axios
+vi.mock('@/utils/publicHttp', () => ({
+    fetchPublicUrl: vi.fn(async (url: string, config: object) => {
+        const { default: client } = await import('axios');
+        return { response: await client.get(url, config), url };
+    })
+}));
+
+vi.mock('@/repositories/sourceRepository', () => ({
+    SourceRepository: {
+        updateFetchValidators: vi.fn()
+    }
+}));
+
 vi.mock('@/repositories/rssRepository', () => ({
     RssRepository: {
-        findByLink: vi.fn(),
+        findDuplicate: vi.fn(),
+        mergeDuplicate: vi.fn(),
+        fetchRecent: vi.fn().mockResolvedValue([]),
         save: vi.fn(),
         findPendingAnalysis: vi.fn(),
         updateById: vi.fn()
@@ -38,7 +64,7 @@ vi.mock('@/utils/logger', () => ({
 // Helper for private method access
 interface RssServiceInternal {
     isAnalyzing: boolean;
-    fetchFeedOnly(feed: RssFeedConfig, category: string): Promise<number>;
+    fetchFeedOnly(feed: RssFeedConfig, category: string): Promise<{ newArticles: number; notModified: boolean }>;
     runBackgroundAnalysis(): Promise<void>;
 }
 
@@ -54,26 +80,170 @@ describe('RssService Feed Fetching', () => {
         const mockFeed = {
             items: [{ link: 'url1', title: 'T1', contentSnippet: 'S1', isoDate: '2023' }]
         };
-        mockParseURL.mockResolvedValue(mockFeed);
-        vi.mocked(RssRepository.findByLink).mockResolvedValue(null);
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: {} });
+        mockParseString.mockResolvedValue(mockFeed);
+        vi.mocked(RssRepository.findDuplicate).mockResolvedValue(null);
 
         const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true };
-        const count = await serviceInternal.fetchFeedOnly(feed, 'cat');
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
 
-        expect(count).toBe(1);
+        expect(result.newArticles).toBe(1);
         expect(RssRepository.save).toHaveBeenCalled();
     });
 
     it('should skip existing articles', async () => {
-        mockParseURL.mockResolvedValue({ items: [{ link: 'url1' }] });
-        vi.mocked(RssRepository.findByLink).mockResolvedValue({ link: 'url1' } as ProcessedArticleData);
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: {} });
+        mockParseString.mockResolvedValue({ items: [{ link: 'url1' }] });
+        vi.mocked(RssRepository.findDuplicate).mockResolvedValue({ link: 'url1' } as ProcessedArticleData);
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true };
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(result.newArticles).toBe(0);
+        expect(RssRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should send stored validators and treat 304 as not modified', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 304, data: '', headers: {} });
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true, etag: '"abc"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' };
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(result).toEqual({ newArticles: 0, notModified: true });
+        expect(mockParseString).not.toHaveBeenCalled();
+        const headers = vi.mocked(axios.get).mock.calls[0][1]?.headers as Record<string, string>;
+        expect(headers['If-None-Match']).toBe('"abc"');
+        expect(headers['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    });
+});
+
+describe('RssService Fetch Validators', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should persist new validators returned by the feed', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: { etag: '"v2"' } });
+        mockParseString.mockResolvedValue({ items: [] });
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true, etag: '"v1"' };
+        await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(SourceRepository.updateFetchValidators).toHaveBeenCalledWith('n1', '"v2"', null);
+    });
+
+    it('should not persist validators when storing an item fails', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: { etag: '"v2"' } });
+        mockParseString.mockResolvedValue({ items: [{ link: 'url1', title: 'T1' }] });
+        vi.mocked(RssRepository.findDuplicate).mockRejectedValue(new Error('connection reset'));
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true, etag: '"v1"' };
+        await expect(serviceInternal.fetchFeedOnly(feed, 'cat')).rejects.toThrow('connection reset');
+
+        expect(SourceRepository.updateFetchValidators).not.toHaveBeenCalled();
+    });
+
+    it('should fetch feeds through the public-address guard', async () => {
+        vi.mocked(fetchPublicUrl).mockRejectedValueOnce(new AppError('Refusing to fetch 169.254.169.254: not a public address', 400));
+
+        const feed: RssFeedConfig = { url: 'http://169.254.169.254/latest/meta-data/', name: 'n1', enabled: true };
+        await expect(serviceInternal.fetchFeedOnly(feed, 'cat')).rejects.toThrow('not a public address');
+
+        expect(axios.get).not.toHaveBeenCalled();
+        expect(RssRepository.save).not.toHaveBeenCalled();
+    });
+});
+
+describe('RssService JSON Feed', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should ingest JSON Feed items', async () => {
+        const jsonFeed = {
+            version: 'https://jsonfeed.org/version/1.1',
+            title: 'JF',
+            items: [{
+                id: '1',
+                url: 'https://example.com/a',
+                title: 'Hello',
+                content_html: '<p>Body</p>',
+                summary: 'Short',
+                date_published: '2024-01-01T10:00:00Z',
+                authors: [{ name: 'Ada' }, { name: 'Grace' }],
+                tags: ['ai'],
+                image: 'https://example.com/a.png'
+            }]
+        };
+        vi.mocked(axios.get).mockResolvedValue({
+            status: 200,
+            data: JSON.stringify(jsonFeed),
+            headers: { 'content-type': 'application/feed+json' }
+        });
+        vi.mocked(RssRepository.findDuplicate).mockResolvedValue(null);
 
         const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true };
-        const count = await serviceInternal.fetchFeedOnly(feed, 'cat');
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(result.newArticles).toBe(1);
+        expect(mockParseString).not.toHaveBeenCalled();
+        expect(RssRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+            title: 'Hello',
+            link: 'https://example.com/a',
+            publicationDate: '2024-01-01T10:00:00Z',
+            author: 'Ada, Grace',
+            sourceTags: ['ai'],
+            imageUrl: 'https://example.com/a.png',
+            summary: 'Short'
+        }));
+    });
+});
 
-        expect(count).toBe(0);
+describe('RssService Deduplication', () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.mocked(RssRepository.save).mockReset();
+        vi.mocked(RssRepository.mergeDuplicate).mockReset();
+    });
+
+    it('should canonicalize tracking parameters, AMP variants and scheme differences', () => {
+        const canonical = 'https://example.com/news/story?id=42';
+
+        expect(canonicalizeUrl('http://www.example.com/news/story/?utm_source=rss&id=42#top')).toBe(canonical);
+        expect(canonicalizeUrl('https://amp.example.com/news/story/amp?id=42&fbclid=abc')).toBe(canonical);
+        expect(canonicalizeUrl('https://example.com/news/story.amp.html')).toBe('https://example.com/news/story.html');
+    });
+
+    it('should merge a story already stored from another feed', async () => {
+        const existingId = new ObjectId();
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: {} });
+        mockParseString.mockResolvedValue({ items: [{ link: 'https://example.com/a?utm_medium=feed', title: 'A' }] });
+        vi.mocked(RssRepository.findDuplicate).mockResolvedValue({ _id: existingId, feedName: 'other', link: 'https://example.com/a' } as ProcessedArticleData);
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true };
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(result.newArticles).toBe(0);
+        expect(RssRepository.findDuplicate).toHaveBeenCalledWith(expect.objectContaining({ canonicalLink: 'https://example.com/a' }));
+        expect(RssRepository.mergeDuplicate).toHaveBeenCalledWith(existingId, 'n1', 'https://example.com/a?utm_medium=feed');
         expect(RssRepository.save).not.toHaveBeenCalled();
     });
+
+    it('should use a permalink GUID when the item has no link', async () => {
+        vi.mocked(axios.get).mockResolvedValue({ status: 200, data: '<rss/>', headers: {} });
+        mockParseString.mockResolvedValue({ items: [{ guid: 'https://example.com/b', title: 'B', enclosure: { url: 'https://example.com/b.jpg' } }] });
+        vi.mocked(RssRepository.findDuplicate).mockResolvedValue(null);
+
+        const feed: RssFeedConfig = { url: 'u1', name: 'n1', enabled: true };
+        const result = await serviceInternal.fetchFeedOnly(feed, 'cat');
+
+        expect(result.newArticles).toBe(1);
+        expect(RssRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+            link: 'https://example.com/b',
+            canonicalLink: 'https://example.com/b',
+            guid: 'https://example.com/b'
+        }));
+    });
 });
 
 describe('RssService Background Analysis', () => {
@@ -104,7 +274,7 @@ describe('RssService Orchestration', () => {
             'c1': [{ name: 'f1', url: 'u1', enabled: true }]
         };
 
-        const fetchSpy = vi.spyOn(serviceInternal, 'fetchFeedOnly').mockResolvedValue(1);
+        const fetchSpy = vi.spyOn(serviceInternal, 'fetchFeedOnly').mockResolvedValue({ newArticles: 1, notModified: false });
         const analysisSpy = vi.spyOn(serviceInternal, 'runBackgroundAnalysis').mockImplementation(async () => { });
 
         const results = await RssService.processAllFeeds();
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SourceHealthService } from '../sourceHealthService';
+import { rssConfig } from '@/config/rssConfig';
+
+vi.mock('@/repositories/sourceRepository', () => ({
+    SourceRepository: {
+        getSourceByName: vi.fn(),
+        updateHealth: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const NOW = new Date('2024-01-01T00:00:00.000Z');
+
+describe('SourceHealthService', () => {
+    it('should compute running averages on success', () => {
+        const first = SourceHealthService.applySuccess(undefined, 200, 4, NOW);
+        const second = SourceHealthService.applySuccess(first, 400, 0, NOW);
+
+        expect(second.fetchCount).toBe(2);
+        expect(second.avgLatencyMs).toBe(300);
+        expect(second.avgItemYield).toBe(2);
+        expect(second.lastItemCount).toBe(0);
+        expect(second.lastSuccessAt).toBe(NOW.toISOString());
+    });
+
+    it('should back off exponentially on consecutive failures', () => {
+        const first = SourceHealthService.applyFailure(undefined, 'timeout', 100, NOW).health;
+        const second = SourceHealthService.applyFailure(first, 'timeout', 100, NOW).health;
+
+        const firstDelay = new Date(first.nextRetryAt!).getTime() - NOW.getTime();
+        const secondDelay = new Date(second.nextRetryAt!).getTime() - NOW.getTime();
+
+        expect(first.consecutiveFailures).toBe(1);
+        expect(firstDelay).toBe(rssConfig.failureBackoffBaseMs);
+        expect(secondDelay).toBe(Math.min(rssConfig.failureBackoffBaseMs * 2, rssConfig.failureBackoffMaxMs));
+        expect(SourceHealthService.isBackingOff({ health: second }, NOW)).toBe(true);
+    });
+
+    it('should disable a source after too many failures', () => {
+        let result = SourceHealthService.applyFailure(undefined, 'Status code 403', 50, NOW);
+        for (let i = 1; i < rssConfig.maxConsecutiveFailures; i++) {
+            result = SourceHealthService.applyFailure(result.health, 'Status code 403', 50, NOW);
+        }
+
+        expect(result.disable).toBe(true);
+        expect(result.health.disabledReason).toContain('Status code 403');
+    });
+
+    it('should reset failures after a success', () => {
+        const failed = SourceHealthService.applyFailure(undefined, 'timeout', 100, NOW).health;
+        const recovered = SourceHealthService.applySuccess(failed, 100, 1, NOW);
+
+        expect(recovered.consecutiveFailures).toBe(0);
+        expect(recovered.nextRetryAt).toBeNull();
+        expect(SourceHealthService.isBackingOff({ health: recovered }, NOW)).toBe(false);
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ObjectId } from 'mongodb';
+import { TranslationService } from '../translationService';
+import { aiService } from '@/services/aiService';
+import { RssRepository } from '@/repositories/rssRepository';
+import { TranslationRepository } from '@/repositories/translationRepository';
+import { UserRepository } from '@/repositories/userRepository';
+import { ProcessedArticleData } from '@/types/rss';
+
+vi.mock('@/services/aiService', () => ({
+    aiService: {
+        translate: vi.fn(),
+        supportsTranslation: vi.fn((lang: string) => ['en', 'fr', 'es'].includes(lang))
+    }
+}));
+
+vi.mock('@/repositories/rssRepository', () => ({
+    RssRepository: { updateById: vi.fn() }
+}));
+
+vi.mock('@/repositories/translationRepository', () => ({
+    TranslationRepository: { findCached: vi.fn(), saveCached: vi.fn(), reserveCharacters: vi.fn() }
+}));
+
+vi.mock('@/repositories/userRepository', () => ({
+    UserRepository: { findPreferredLanguages: vi.fn() }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const article = {
+    _id: new ObjectId(),
+    title: 'Markets rally',
+    summary: '<p>Markets rally</p>',
+    language: 'en',
+    fetchedAt: null,
+    link: 'https://example.com/a',
+    analysis: { sentiment: 'bullish', sentimentScore: 0.9, iaSummary: 'Stocks rose.' }
+} as ProcessedArticleData;
+
+describe('TranslationService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        TranslationService.resetLanguagesCache();
+        vi.mocked(TranslationRepository.saveCached).mockResolvedValue();
+        vi.mocked(TranslationRepository.reserveCharacters).mockResolvedValue(true);
+        vi.mocked(aiService.translate).mockImplementation(async (text, _from, to) => `[${to}] ${text}`);
+    });
+
+    it('should target the supported languages users prefer, refreshed periodically', async () => {
+        vi.mocked(UserRepository.findPreferredLanguages).mockResolvedValue(['fr', 'klingon', 'en']);
+        const now = Date.now();
+
+        const languages = await TranslationService.getTargetLanguages(now);
+        await TranslationService.getTargetLanguages(now + 1000);
+
+        expect(languages).toEqual(['fr', 'en']);
+        expect(TranslationService.missingLanguages(article, languages)).toEqual(['fr']);
+        expect(UserRepository.findPreferredLanguages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should translate repeated and cached strings once and only bill the others', async () => {
+        vi.mocked(TranslationRepository.findCached).mockImplementation(async keys => new Map([[keys[1], 'Les actions ont monté.']]));
+
+        const translations = await TranslationService.translateArticle(article, ['fr']);
+
+        expect(translations.fr).toEqual({
+            title: '[fr] Markets rally',
+            summary: '[fr] Markets rally',
+            iaSummary: 'Les actions ont monté.'
+        });
+        expect(aiService.translate).toHaveBeenCalledTimes(1);
+        expect(TranslationRepository.reserveCharacters).toHaveBeenCalledWith(expect.any(String), 'Markets rally'.length, expect.any(Number));
+        expect(TranslationRepository.saveCached).toHaveBeenCalledWith([expect.objectContaining({ from: 'en', to: 'fr', translation: '[fr] Markets rally' })]);
+        expect(RssRepository.updateById).toHaveBeenCalledWith(article._id, { translations: { fr: translations.fr } });
+    });
+
+    it('should refuse to translate once the daily budget is spent', async () => {
+        vi.mocked(TranslationRepository.findCached).mockResolvedValue(new Map());
+        vi.mocked(TranslationRepository.reserveCharacters).mockResolvedValue(false);
+
+        const failure = TranslationService.translateArticle(article, ['es']).catch(error => error);
+
+        expect(TranslationService.isBudgetExhausted(await failure)).toBe(true);
+        expect(aiService.translate).not.toHaveBeenCalled();
+        expect(RssRepository.updateById).not.toHaveBeenCalled();
+        expect(TranslationService.budgetResetsAt(new Date('2026-03-02T18:30:00Z')).toISOString()).toBe('2026-03-03T00:00:00.000Z');
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import crypto from 'crypto';
+import { ObjectId } from 'mongodb';
+import { WebhookService } from '../webhookService';
+import { WebhookRepository } from '@/repositories/webhookRepository';
+import { webhookConfig } from '@/config/webhookConfig';
+import { ProcessedArticleData } from '@/types/rss';
+import { Webhook, WebhookDelivery } from '@/types/webhook';
+
+vi.mock('axios', () => ({
+    default: { post: vi.fn() }
+}));
+
+vi.mock('@/repositories/webhookRepository', () => ({
+    WebhookRepository: {
+        create: vi.fn(),
+        findById: vi.fn(),
+        findEnabledForEvent: vi.fn(),
+        createDelivery: vi.fn(),
+        updateDelivery: vi.fn(),
+        claimDueDelivery: vi.fn()
+    }
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+const article: ProcessedArticleData = {
+    _id: new ObjectId(),
+    title: 'Nvidia beats earnings expectations',
+    link: 'https://example.com/nvda',
+    feedName: 'Reuters',
+    category: 'Stocks',
+    fetchedAt: new Date().toISOString(),
+    summary: 'Data center revenue soars.',
+    analysis: { sentiment: 'bullish', sentimentScore: 0.9, entities: [{ text: 'Nvidia', label: 'ORG', score: 0.99 }] }
+};
+
+const webhook: Webhook = {
+    _id: new ObjectId(),
+    url: 'https://hooks.example.com/kognit',
+    secret: 'top-secret',
+    events: ['article.created', 'article.analyzed'],
+    filter: {},
+    enabled: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+};
+
+describe('WebhookService', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should match filters on category, sentiment, entity and keyword', () => {
+        expect(WebhookService.matchesFilter(article, {})).toBe(true);
+        expect(WebhookService.matchesFilter(article, { category: 'Stocks', sentiment: 'bullish', entity: 'nvidia', keyword: 'EARNINGS' })).toBe(true);
+        expect(WebhookService.matchesFilter(article, { feedName: 'Bloomberg' })).toBe(false);
+        expect(WebhookService.matchesFilter({ ...article, analysis: null }, { entity: 'Nvidia' })).toBe(false);
+    });
+
+    it('should post a signed payload to matching webhooks and log the success', async () => {
+        vi.mocked(WebhookRepository.findEnabledForEvent).mockResolvedValue([webhook, { ...webhook, filter: { category: 'Crypto' } }]);
+        vi.mocked(axios.post).mockResolvedValue({ status: 204 });
+
+        const started = await WebhookService.dispatch('article.analyzed', article);
+        await vi.waitFor(() => expect(WebhookRepository.updateDelivery).toHaveBeenCalled());
+
+        expect(started).toBe(1);
+        const [url, body, config] = vi.mocked(axios.post).mock.calls[0];
+        const headers = config!.headers as Record<string, string>;
+        const expected = crypto.createHmac('sha256', webhook.secret).update(`${headers['X-Kognit-Timestamp']}.${body}`).digest('hex');
+        expect(url).toBe(webhook.url);
+        expect(headers['X-Kognit-Signature']).toBe(`sha256=${expected}`);
+        expect(JSON.parse(body as string).article).toMatchObject({ title: article.title, sentiment: 'bullish', entities: [{ text: 'Nvidia', label: 'ORG' }] });
+        expect(vi.mocked(WebhookRepository.updateDelivery).mock.calls[0][1]).toMatchObject({ status: 'success', attempts: 1, lastStatusCode: 204 });
+    });
+
+    it('should schedule a retry with backoff, then dead-letter the delivery', async () => {
+        const delivery = { _id: new ObjectId(), webhookId: webhook._id!.toString(), event: 'article.created', attempts: 0, maxAttempts: 2, payload: {} } as WebhookDelivery;
+        vi.mocked(WebhookRepository.claimDueDelivery)
+            .mockResolvedValueOnce(delivery)
+            .mockResolvedValueOnce({ ...delivery, attempts: 1 })
+            .mockResolvedValueOnce(null);
+        vi.mocked(WebhookRepository.findById).mockResolvedValue(webhook);
+        vi.mocked(axios.post).mockResolvedValue({ status: 500 });
+
+        const retried = await WebhookService.retryDue();
+
+        expect(retried).toBe(2);
+        const [first, second] = vi.mocked(WebhookRepository.updateDelivery).mock.calls.map(call => call[1]);
+        expect(first).toMatchObject({ status: 'failed', attempts: 1, lastError: 'HTTP 500' });
+        expect(new Date(first.nextAttemptAt!).getTime()).toBeGreaterThanOrEqual(Date.now() + webhookConfig.retryBaseMs - 1000);
+        expect(second).toMatchObject({ status: 'dead', attempts: 2, nextAttemptAt: null });
+    });
+
+    it('should reject invalid webhook settings', async () => {
+        await expect(WebhookService.create({ url: 'ftp://example.com' })).rejects.toMatchObject({ statusCode: 400 });
+        await expect(WebhookService.create({ url: 'https://example.com', events: ['article.deleted' as never] })).rejects.toMatchObject({ statusCode: 400 });
+        expect(WebhookRepository.create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { fork } from 'child_process';
+import { WorkerPoolService } from '../workerPoolService';
+import { workerPoolConfig } from '@/config/jobConfig';
+
+vi.mock('child_process', () => ({
+    fork: vi.fn()
+}));
+
+vi.mock('@/utils/logger', () => ({
+    default: { info: vi.fn(), error: vi.fn(), debug: vi.fn(), warn: vi.fn() }
+}));
+
+let nextPid = 100;
+
+function fakeChild() {
+    const child = new EventEmitter() as EventEmitter & { pid: number };
+    child.pid = nextPid++;
+    return child;
+}
+
+describe('WorkerPoolService', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        (WorkerPoolService as unknown as { slots: unknown[] }).slots = [];
+    });
+
+    it('should start the configured number of workers per stage', () => {
+        vi.mocked(fork).mockImplementation(() => fakeChild() as never);
+
+        WorkerPoolService.ensureStarted();
+
+        const status = WorkerPoolService.getStatus();
+        const expected = Object.values(workerPoolConfig.workers).reduce((acc, n) => acc + n, 0);
+        expect(status).toHaveLength(expected);
+        expect(status.every(worker => worker.state === 'running')).toBe(true);
+        expect(vi.mocked(fork).mock.calls[0][2]?.env).toMatchObject({ WORKER_STAGE: 'analysis', WORKER_ID: 'analysis-1' });
+    });
+
+    it('should restart a crashed worker with backoff and track throughput', () => {
+        vi.useFakeTimers();
+        const children: ReturnType<typeof fakeChild>[] = [];
+        vi.mocked(fork).mockImplementation(() => {
+            const child = fakeChild();
+            children.push(child);
+            return child as never;
+        });
+
+        WorkerPoolService.ensureStarted();
+        children[0].emit('message', { type: 'JOB_DONE', jobType: 'analysis', durationMs: 300 });
+        children[0].emit('message', { type: 'JOB_FAILED', jobType: 'analysis', durationMs: 100 });
+        children[0].emit('exit', 1);
+
+        let worker = WorkerPoolService.getStatus()[0];
+        expect(worker).toMatchObject({ state: 'restarting', completed: 1, failed: 1, avgJobMs: 200, restarts: 1 });
+
+        const spawnedBefore = children.length;
+        vi.advanceTimersByTime(WorkerPoolService.getRestartDelayMs(1));
+
+        worker = WorkerPoolService.getStatus()[0];
+        expect(children.length).toBe(spawnedBefore + 1);
+        expect(worker.state).toBe('running');
+    });
+
+    it('should double the restart delay up to the maximum', () => {
+        expect(WorkerPoolService.getRestartDelayMs(2)).toBe(Math.min(workerPoolConfig.restartBaseMs * 2, workerPoolConfig.restartMaxMs));
+        expect(WorkerPoolService.getRestartDelayMs(50)).toBe(workerPoolConfig.restartMaxMs);
+    });
+});
@@ -0,0 +1,46 @@
+// src/services/aiProviders/fakeProvider.ts
+import { AiProvider, AiTask, SentimentResult } from '@/types/ai';
+import { ArticleEntity } from '@/types/rss';
+
+const POSITIVE_WORDS = /\b(gain|gains|rise|rises|surge|surges|rally|record|beat|beats|growth|up)\b/gi;
+const NEGATIVE_WORDS = /\b(loss|losses|fall|falls|drop|drops|crash|plunge|miss|misses|decline|down)\b/gi;
+
+/**
+ * Deterministic provider for tests and for running the pipeline without models:
+ * keyword sentiment, leading sentences as summary, capitalized words as entities.
+ * Each call is recorded in `calls`.
+ */
+export class FakeAiProvider implements AiProvider {
+    readonly name = 'fake' as const;
+    readonly calls: { task: AiTask; input: string }[] = [];
+
+    async init(): Promise<void> {}
+
+    async classifySentiment(text: string): Promise<SentimentResult | null> {
+        this.calls.push({ task: 'sentiment', input: text });
+        const balance = (text.match(POSITIVE_WORDS)?.length || 0) - (text.match(NEGATIVE_WORDS)?.length || 0);
+        if (balance > 0) return { label: 'POSITIVE', score: 0.9 };
+        if (balance < 0) return { label: 'NEGATIVE', score: 0.9 };
+        return { label: 'NEUTRAL', score: 0.6 };
+    }
+
+    async summarize(text: string): Promise<string | null> {
+        this.calls.push({ task: 'summarization', input: text });
+        return text.split(/(?<=[.!?])\s+/).slice(0, 2).join(' ') || null;
+    }
+
+    async extractEntities(text: string): Promise<ArticleEntity[]> {
+        this.calls.push({ task: 'ner', input: text });
+        const words = text.match(/\b[A-Z][\w&-]{2,}(?:\s+[A-Z][\w&-]+)*/g) || [];
+        return [...new Set(words)].map(word => ({ text: word, label: 'MISC', score: 1 }));
+    }
+
+    async translate(text: string, fromLang: string, toLang: string): Promise<string | null> {
+        this.calls.push({ task: 'translation', input: text });
+        return `[${fromLang}→${toLang}] ${text}`;
+    }
+
+    supportsLanguage(): boolean {
+        return true;
+    }
+}
@@ -0,0 +1,107 @@
+// src/services/aiProviders/httpLlmProvider.ts
+import axios from 'axios';
+import { AiProvider, AiTask, SentimentResult } from '@/types/ai';
+import { ArticleEntity } from '@/types/rss';
+import logger from '@/utils/logger';
+
+export interface HttpLlmOptions {
+    /** Base URL including the API version, e.g. `http://localhost:11434/v1` */
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    timeoutMs: number;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string } }[];
+}
+
+const SENTIMENT_LABELS: SentimentResult['label'][] = ['POSITIVE', 'NEUTRAL', 'NEGATIVE'];
+const ENTITY_LABELS = ['ORG', 'PER', 'LOC', 'MISC'];
+
+const PROMPTS = {
+    sentiment: 'You classify the market sentiment of news articles. Reply only with JSON: '
+        + '{"label": "POSITIVE" | "NEUTRAL" | "NEGATIVE", "score": <confidence between 0 and 1>}.',
+    summarization: 'You summarize news articles in two or three sentences, in the language of the article. '
+        + 'Reply only with the summary.',
+    ner: 'You extract the named entities of news articles. Reply only with a JSON array of '
+        + '{"text": <entity as written>, "label": "ORG" | "PER" | "LOC" | "MISC"}.',
+    translation: (from: string, to: string) => `You translate text from the language "${from}" to the language "${to}" `
+        + '(ISO 639-1 codes). Reply only with the translation, keeping the tone and the proper nouns.'
+};
+
+/**
+ * LLM served over an OpenAI-compatible `/chat/completions` endpoint (llama.cpp server,
+ * Ollama, vLLM...). Structured answers are requested as JSON and validated.
+ */
+export class HttpLlmProvider implements AiProvider {
+    readonly name = 'http' as const;
+
+    constructor(private readonly options: HttpLlmOptions) {}
+
+    async init(tasks: AiTask[]): Promise<void> {
+        logger.info(`🔌 AI tasks [${tasks.join(', ')}] served by ${this.options.model} at ${this.options.baseUrl}`);
+    }
+
+    async classifySentiment(text: string): Promise<SentimentResult | null> {
+        const answer = this.parseJson(await this.complete(PROMPTS.sentiment, text, 40)) as Partial<SentimentResult> | null;
+        const label = String(answer?.label || '').toUpperCase() as SentimentResult['label'];
+        if (!SENTIMENT_LABELS.includes(label)) throw new Error('Invalid sentiment answer');
+        const score = Number(answer?.score);
+        return { label, score: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 0.5 };
+    }
+
+    async summarize(text: string): Promise<string | null> {
+        return (await this.complete(PROMPTS.summarization, text, 160)) || null;
+    }
+
+    async extractEntities(text: string): Promise<ArticleEntity[]> {
+        const answer = this.parseJson(await this.complete(PROMPTS.ner, text, 300));
+        if (!Array.isArray(answer)) throw new Error('Invalid entities answer');
+        return answer
+            .filter((e): e is { text: string; label: string } => typeof e?.text === 'string' && e.text.trim().length > 2)
+            .map(e => ({
+                text: e.text.replace(/\s+/g, ' ').trim(),
+                label: ENTITY_LABELS.includes(e.label) ? e.label : 'MISC',
+                score: 1
+            }))
+            .filter((e, idx, self) => idx === self.findIndex(t => t.text === e.text));
+    }
+
+    async translate(text: string, fromLang: string, toLang: string): Promise<string | null> {
+        return (await this.complete(PROMPTS.translation(fromLang, toLang), text, Math.ceil(text.length / 2) + 64)) || null;
+    }
+
+    supportsLanguage(lang: string): boolean {
+        return /^[a-z]{2}$/.test(lang);
+    }
+
+    private async complete(system: string, user: string, maxTokens: number): Promise<string> {
+        const { baseUrl, model, apiKey, timeoutMs } = this.options;
+        const response = await axios.post<ChatCompletionResponse>(`${baseUrl}/chat/completions`, {
+            model,
+            messages: [{ role: 'system', content: system }, { role: 'user', content: user }],
+            temperature: 0,
+            max_tokens: maxTokens,
+            stream: false
+        }, {
+            timeout: timeoutMs,
+            headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+        });
+
+        const content = response.data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new Error('Completion without content');
+        return content.trim();
+    }
+
+    /** Reads the first JSON value of an answer, tolerating code fences and chatter around it. */
+    private parseJson(answer: string): unknown {
+        const match = answer.match(/[[{][\s\S]*[\]}]/);
+        if (!match) return null;
+        try {
+            return JSON.parse(match[0]);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,17 @@
+// src/services/aiProviders/index.ts
+import { aiConfig } from '@/config/aiConfig';
+import { AiProvider, AiProviderName } from '@/types/ai';
+import { TransformersProvider } from './transformersProvider';
+import { HttpLlmProvider } from './httpLlmProvider';
+import { FakeAiProvider } from './fakeProvider';
+
+export { TransformersProvider, HttpLlmProvider, FakeAiProvider };
+
+/**
+ * Instantiates a provider from its configured name.
+ */
+export function createAiProvider(name: AiProviderName): AiProvider {
+    if (name === 'http') return new HttpLlmProvider(aiConfig.http);
+    if (name === 'fake') return new FakeAiProvider();
+    return new TransformersProvider();
+}
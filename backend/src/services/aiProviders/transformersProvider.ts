@@ -0,0 +1,164 @@
+// src/services/aiProviders/transformersProvider.ts
+import { pipeline, env, Pipeline } from '@xenova/transformers';
+import os from 'node:os';
+import logger from '@/utils/logger';
+import { AiProvider, AiTask, SentimentResult } from '@/types/ai';
+import { ArticleEntity } from '@/types/rss';
+
+// Configure cache location and hardware limits
+env.cacheDir = './models_cache';
+
+// Limit threads to half of available CPUs to leave room for the rest of the app
+const cpuCount = os.cpus().length;
+const allowedThreads = Math.max(1, Math.floor(cpuCount / 2));
+if (env.onnx) {
+    env.onnx.numThreads = allowedThreads;
+}
+
+logger.info(`🖥️ System: ${cpuCount} CPUs detected. Limiting AI engine to ${allowedThreads} threads.`);
+
+export const M2M100_MAP: Record<string, string> = {
+    'en': 'en',
+    'fr': 'fr',
+    'es': 'es',
+    'ar': 'ar',
+    'de': 'de',
+    'it': 'it',
+    'pt': 'pt',
+    'ru': 'ru',
+    'zh': 'zh',
+    'ja': 'ja',
+    'cn': 'zh'
+};
+
+// MODEL CONFIGURATION (Easy to change)
+const MODELS: Record<AiTask, { task: string; model: string; icon: string }> = {
+    sentiment: { task: 'sentiment-analysis', model: 'Xenova/bert-base-multilingual-uncased-sentiment', icon: '🧠' },
+    summarization: { task: 'summarization', model: 'Xenova/distilbart-cnn-6-6', icon: '📚' },
+    translation: { task: 'translation', model: 'Xenova/m2m100_418M', icon: '🌐' },
+    ner: { task: 'token-classification', model: 'Xenova/bert-base-multilingual-cased-ner-hrl', icon: '🏷️' }
+};
+
+/**
+ * Raw result from NER pipeline.
+ */
+interface NerResult {
+    entity: string;
+    score: number;
+    index: number;
+    word: string;
+    start: number | null;
+    end: number | null;
+}
+
+type PipelineFn = (input: string, options?: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * In-process Transformers.js models. Each pipeline is loaded on first use, so a task
+ * served by another provider only costs memory when it has to fall back here.
+ */
+export class TransformersProvider implements AiProvider {
+    readonly name = 'transformers' as const;
+    private pipelines: Partial<Record<AiTask, PipelineFn>> = {};
+
+    async init(tasks: AiTask[]): Promise<void> {
+        for (const task of tasks) await this.load(task);
+    }
+
+    async classifySentiment(text: string): Promise<SentimentResult | null> {
+        const result = await (await this.load('sentiment'))(text);
+        const output = Array.isArray(result)
+            ? (Array.isArray(result[0]) ? result[0][0] : result[0])
+            : result;
+
+        if (!output || typeof output !== 'object' || !('label' in output)) return null;
+        const sentimentOutput = output as Record<string, string | number>;
+        return {
+            label: this.mapRawLabel(String(sentimentOutput.label)),
+            score: Number(sentimentOutput.score)
+        };
+    }
+
+    async summarize(text: string): Promise<string | null> {
+        const result = await (await this.load('summarization'))(text, {
+            max_new_tokens: 80,
+            min_new_tokens: 30,
+        });
+        const output = (Array.isArray(result) ? result[0] : result) as Record<string, string>;
+        return output?.summary_text || null;
+    }
+
+    async extractEntities(text: string): Promise<ArticleEntity[]> {
+        const results = await (await this.load('ner'))(text);
+        return this.processNerResults(results as NerResult[]);
+    }
+
+    async translate(text: string, fromLang: string, toLang: string): Promise<string | null> {
+        const tgt_lang = M2M100_MAP[toLang];
+        if (!tgt_lang) return null;
+        const result = await (await this.load('translation'))(text, {
+            src_lang: M2M100_MAP[fromLang] || 'eng_Latn',
+            tgt_lang
+        });
+        const output = (Array.isArray(result) ? result[0] : result) as Record<string, string>;
+        return output?.translation_text || null;
+    }
+
+    supportsLanguage(lang: string): boolean {
+        return Boolean(M2M100_MAP[lang]);
+    }
+
+    private async load(task: AiTask): Promise<PipelineFn> {
+        const loaded = this.pipelines[task];
+        if (loaded) return loaded;
+
+        const { task: pipelineTask, model, icon } = MODELS[task];
+        logger.info(`${icon} Loading ${task} engine (${model})...`);
+        const instance = await pipeline(pipelineTask as Parameters<typeof pipeline>[0], model, { quantized: true }) as Pipeline;
+        this.pipelines[task] = instance as unknown as PipelineFn;
+        return this.pipelines[task]!;
+    }
+
+    private mapRawLabel(rawLabel: string): SentimentResult['label'] {
+        if (rawLabel === '5 stars' || rawLabel === '4 stars') return 'POSITIVE';
+        if (rawLabel === '3 stars') return 'NEUTRAL';
+        if (rawLabel === '2 stars' || rawLabel === '1 star') return 'NEGATIVE';
+        if (rawLabel === 'POSITIVE' || rawLabel === 'LABEL_2') return 'POSITIVE';
+        if (rawLabel === 'NEGATIVE' || rawLabel === 'LABEL_0') return 'NEGATIVE';
+        return 'NEUTRAL';
+    }
+
+    private processNerResults(results: NerResult[]): ArticleEntity[] {
+        const entities: ArticleEntity[] = [];
+        let current: { text: string; label: string; score: number; count: number } | null = null;
+
+        for (const item of results) {
+            const label = item.entity.split('-').pop() || 'MISC';
+            const isSub = item.word.startsWith('##');
+            const word = isSub ? item.word.slice(2) : item.word;
+
+            if (this.isEntityContinuation(current, item, label, isSub)) {
+                current!.text += (isSub ? '' : ' ') + word;
+                current!.score += item.score;
+                current!.count++;
+            } else {
+                if (current) entities.push({ text: current.text, label: current.label, score: current.score / current.count });
+                current = { text: word, label, score: item.score, count: 1 };
+            }
+        }
+        if (current) entities.push({ text: current.text, label: current.label, score: current.score / current.count });
+        return this.finalizeEntities(entities);
+    }
+
+    private isEntityContinuation(current: { label: string } | null, item: NerResult, label: string, isSub: boolean): boolean {
+        if (!current) return false;
+        return isSub || (item.entity.startsWith('I-') && current.label === label);
+    }
+
+    private finalizeEntities(entities: ArticleEntity[]): ArticleEntity[] {
+        return entities
+            .filter(e => e.score > 0.8 && e.text.length > 2)
+            .map(e => ({ ...e, text: e.text.replace(/\s+/g, ' ').replace(/[.,!?]$/, '').trim() }))
+            .filter((e, idx, self) => idx === self.findIndex(t => t.text === e.text));
+    }
+}
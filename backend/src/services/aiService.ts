@@ -1,150 +1,103 @@
-import { pipeline, env, TextClassificationPipeline, SummarizationPipeline, TranslationPipeline, TokenClassificationPipeline } from '@xenova/transformers';
 import { performance } from 'node:perf_hooks';
-import os from 'node:os';
 import logger from '@/utils/logger';
-import { ArticleEntity, FinancialAnalysis as ArticleAnalysis } from '@/types/rss';
+import { aiConfig } from '@/config/aiConfig';
+import { AI_TASKS, AiProvider, AiProviderName, AiTask, SentimentResult } from '@/types/ai';
+import { ArticleEntity, ArticleTranslation, FinancialAnalysis as ArticleAnalysis } from '@/types/rss';
+import { createAiProvider, TransformersProvider } from '@/services/aiProviders';
+import { M2M100_MAP } from '@/services/aiProviders/transformersProvider';
 
-// Configure cache location and hardware limits
-env.cacheDir = './models_cache';
-
-// Limit threads to half of available CPUs to leave room for the rest of the app
-const cpuCount = os.cpus().length;
-const allowedThreads = Math.max(1, Math.floor(cpuCount / 2));
-if (env.onnx) {
-    env.onnx.numThreads = allowedThreads;
-}
-
-logger.info(`🖥️ System: ${cpuCount} CPUs detected. Limiting AI engine to ${allowedThreads} threads.`);
-
-const M2M100_MAP: Record<string, string> = {
-    'en': 'en',
-    'fr': 'fr',
-    'es': 'es',
-    'ar': 'ar',
-    'de': 'de',
-    'it': 'it',
-    'pt': 'pt',
-    'ru': 'ru',
-    'zh': 'zh',
-    'ja': 'ja',
-    'cn': 'zh'
-};
+export type { SentimentResult };
 
 const SUPPORTED_TARGET_LANGS = Object.keys(M2M100_MAP);
 
-// MODEL CONFIGURATION (Easy to change)
-const MODELS = {
-    SENTIMENT: 'Xenova/bert-base-multilingual-uncased-sentiment',
-    SUMMARIZATION: 'Xenova/distilbart-cnn-6-6',
-    TRANSLATION: 'Xenova/m2m100_418M',
-    NER: 'Xenova/bert-base-multilingual-cased-ner-hrl'
-};
-
-/**
- * Result of a sentiment analysis operation.
- */
-export interface SentimentResult {
-    /** The predicted label: 'Positive', 'Neutral', or 'Negative' (or LABEL_X mapped) */
-    label: 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
-    /** The confidence score between 0 and 1 */
-    score: number;
-}
-
-// Local translation result type (not in shared types yet)
-interface TranslationResult {
-    title: string;
-    summary: string;
-}
-
 /**
  * Map of language codes to their translated content.
  */
-type ArticleTranslations = Record<string, TranslationResult>;
-
-/**
- * Raw result from NER pipeline.
- */
-interface NerResult {
-    entity: string;
-    score: number;
-    index: number;
-    word: string;
-    start: number | null;
-    end: number | null;
-}
+type ArticleTranslations = Record<string, ArticleTranslation>;
 
 /**
  * Service responsible for AI-powered analysis of RSS content.
- * Uses local Transformers.js models for privacy and performance.
+ * Each task runs on the provider configured for it (local Transformers.js models by
+ * default, or an OpenAI-compatible HTTP server), falling back to the local model on errors.
  */
 class AiService {
-    /** The Transformers.js sentiment pipeline instance */
-    private sentimentPipeline: TextClassificationPipeline | null = null;
-    /** The Transformers.js summarization pipeline instance */
-    private summarizationPipeline: SummarizationPipeline | null = null;
-    /** The Transformers.js translation pipeline instance */
-    private translationPipeline: TranslationPipeline | null = null;
-    /** The Transformers.js NER pipeline instance */
-    private nerPipeline: TokenClassificationPipeline | null = null;
-    /** Guard to prevent multiple simultaneous initializations */
-    private isInitialized = false;
+    /** In-process models, also the fallback of the other providers */
+    private readonly local = new TransformersProvider();
+    /** Provider serving each task */
+    private providers: Record<AiTask, AiProvider>;
+    /** Tasks whose provider is initialized (a worker only loads the models of its stage) */
+    private readonly readyTasks = new Set<AiTask>();
+
+    constructor() {
+        this.providers = this.createProviders(aiConfig.providers);
+    }
 
     /**
-     * Initializes the AI models.
-     * This may download the model to the local cache if it's the first run.
+     * Initializes the providers of the given tasks (every task by default).
+     * Local models may be downloaded to the cache on the first run.
+     * @param {AiTask[]} tasks - Tasks about to be used; the others stay unloaded.
      * @returns {Promise<void>}
      */
-    async init(): Promise<void> {
-        if (this.isInitialized && this.sentimentPipeline && this.summarizationPipeline && this.translationPipeline) return;
+    async init(tasks: AiTask[] = AI_TASKS): Promise<void> {
+        const pending = tasks.filter(task => !this.readyTasks.has(task));
+        if (pending.length === 0) return;
 
         try {
-            logger.info('🤖 Initializing AI models (loading from local or downloading)...');
-
-            // Load multilingual sentiment analysis model
-            if (!this.sentimentPipeline) {
-                logger.info('🧠 Loading advanced sentiment engine (Xenova/bert-base-multilingual-uncased-sentiment)...');
-                this.sentimentPipeline = await pipeline(
-                    'sentiment-analysis',
-                    MODELS.SENTIMENT,
-                    { quantized: true }
-                ) as TextClassificationPipeline;
+            logger.info(`🤖 Initializing AI providers for ${pending.join(', ')} (loading local models or connecting to the LLM server)...`);
+            for (const [provider, providerTasks] of this.tasksByProvider(pending)) {
+                await provider.init(providerTasks);
             }
+            pending.forEach(task => this.readyTasks.add(task));
+            logger.info('✅ AI providers initialized successfully');
+        } catch (error) {
+            logger.error('❌ Failed to initialize AI providers:', error);
+            throw error;
+        }
+    }
 
-            // Load summarization model
-            if (!this.summarizationPipeline) {
-                logger.info(`📚 Loading summarization engine (${MODELS.SUMMARIZATION})...`);
-                this.summarizationPipeline = await pipeline(
-                    'summarization',
-                    MODELS.SUMMARIZATION,
-                    { quantized: true }
-                ) as SummarizationPipeline;
-            }
+    /**
+     * Replaces the provider of a task (tests, or a deployment wiring its own backend).
+     */
+    useProvider(task: AiTask, provider: AiProvider): void {
+        this.providers[task] = provider;
+        this.readyTasks.delete(task);
+    }
 
-            // Load translation model (M2M-100) - Keeping it but it's now bypassed
-            if (!this.translationPipeline) {
-                logger.info(`🌐 Loading translation engine (${MODELS.TRANSLATION})...`);
-                this.translationPipeline = await pipeline(
-                    'translation',
-                    MODELS.TRANSLATION,
-                    { quantized: true }
-                ) as TranslationPipeline;
-            }
+    private createProviders(names: Record<AiTask, AiProviderName>): Record<AiTask, AiProvider> {
+        const instances = new Map<AiProviderName, AiProvider>([['transformers', this.local]]);
+        const providerOf = (name: AiProviderName): AiProvider => {
+            if (!instances.has(name)) instances.set(name, createAiProvider(name));
+            return instances.get(name)!;
+        };
+        return {
+            sentiment: providerOf(names.sentiment),
+            summarization: providerOf(names.summarization),
+            ner: providerOf(names.ner),
+            translation: providerOf(names.translation)
+        };
+    }
 
-            // Load NER model
-            if (!this.nerPipeline) {
-                logger.info('🏷️ Loading NER engine (Xenova/bert-base-multilingual-cased-ner-hrl)...');
-                this.nerPipeline = await pipeline(
-                    'token-classification',
-                    'Xenova/bert-base-multilingual-cased-ner-hrl',
-                    { quantized: true }
-                ) as TokenClassificationPipeline;
-            }
+    private tasksByProvider(tasks: AiTask[]): Map<AiProvider, AiTask[]> {
+        const grouped = new Map<AiProvider, AiTask[]>();
+        for (const task of tasks) {
+            const provider = this.providers[task];
+            grouped.set(provider, [...(grouped.get(provider) || []), task]);
+        }
+        return grouped;
+    }
 
-            this.isInitialized = true;
-            logger.info('✅ AI models initialized successfully');
+    /**
+     * Runs a task on its provider, and on the local model if that provider fails.
+     */
+    private async run<T>(task: AiTask, call: (provider: AiProvider) => Promise<T>): Promise<T> {
+        const provider = this.providers[task];
+        try {
+            return await call(provider);
         } catch (error) {
-            logger.error('❌ Failed to initialize AI models:', error);
-            throw error;
+            if (!aiConfig.fallbackToLocal || provider === this.local) throw error;
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.warn(`⚠️ [AI] ${provider.name} provider failed for ${task} (${reason}), falling back to the local model`);
+            return call(this.local);
         }
     }
 
@@ -152,52 +105,30 @@ class AiService {
      * Analyze the sentiment of a text.
      */
     async analyzeSentiment(text: string, articleTitle?: string): Promise<SentimentResult | null> {
-        if (!this.isInitialized) await this.init();
-        if (!this.sentimentPipeline) return null;
+        await this.init(['sentiment']);
 
         try {
             const start = performance.now();
             const truncatedText = text.slice(0, 1024);
             const titlePrefix = articleTitle ? `[${articleTitle.slice(0, 30)}...]` : '';
             logger.info(`   [AI] ${titlePrefix} Starting sentiment analysis...`);
-            const result = await this.sentimentPipeline(truncatedText);
-            const output = Array.isArray(result)
-                ? (Array.isArray(result[0]) ? result[0][0] : result[0])
-                : result;
-
-            if (!output || typeof output !== 'object' || !('label' in output)) return null;
+            const result = await this.run('sentiment', provider => provider.classifySentiment(truncatedText));
+            if (!result) return null;
 
             const duration = (performance.now() - start).toFixed(0);
-            const sentimentOutput = output as Record<string, string | number>;
-            const rawLabel = String(sentimentOutput.label);
-            const mappedSentiment = this.mapSentimentLabel({ label: this.mapRawLabel(rawLabel), score: Number(sentimentOutput.score) });
-            logger.info(`   [AI] ${titlePrefix} Sentiment analysis finished in ${duration}ms -> Result: ${mappedSentiment} (score: ${Number(sentimentOutput.score).toFixed(2)})`);
-
-            return {
-                label: this.mapRawLabel(rawLabel),
-                score: Number(sentimentOutput.score)
-            };
+            logger.info(`   [AI] ${titlePrefix} Sentiment analysis finished in ${duration}ms -> Result: ${this.mapSentimentLabel(result)} (score: ${result.score.toFixed(2)})`);
+            return result;
         } catch (error) {
             logger.error('Error analyzing sentiment:', error);
             return null;
         }
     }
 
-    private mapRawLabel(rawLabel: string): 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE' {
-        if (rawLabel === '5 stars' || rawLabel === '4 stars') return 'POSITIVE';
-        if (rawLabel === '3 stars') return 'NEUTRAL';
-        if (rawLabel === '2 stars' || rawLabel === '1 star') return 'NEGATIVE';
-        if (rawLabel === 'POSITIVE' || rawLabel === 'LABEL_2') return 'POSITIVE';
-        if (rawLabel === 'NEGATIVE' || rawLabel === 'LABEL_0') return 'NEGATIVE';
-        return 'NEUTRAL';
-    }
-
     /**
-     * Summarize a text using the local AI model.
+     * Summarize a text.
      */
     async summarize(text: string, articleTitle?: string): Promise<string | null> {
-        if (!this.isInitialized) await this.init();
-        if (!this.summarizationPipeline) return null;
+        await this.init(['summarization']);
 
         try {
             if (text.length < 200) return null;
@@ -205,15 +136,10 @@ class AiService {
             const truncated = text.slice(0, 4000);
             const titlePrefix = articleTitle ? `[${articleTitle.slice(0, 30)}...]` : '';
             logger.info(`📝 [AI] ${titlePrefix} Starting summarization...`);
-            const result = await this.summarizationPipeline(truncated, {
-                max_new_tokens: 80,
-                min_new_tokens: 30,
-            });
+            const summary = await this.run('summarization', provider => provider.summarize(truncated));
             const duration = (performance.now() - start).toFixed(0);
             logger.info(`   [AI] ${titlePrefix} Summarization finished in ${duration}ms`);
 
-            const output = (Array.isArray(result) ? result[0] : result) as Record<string, string>;
-            const summary = output?.summary_text || null;
             if (summary) logger.info(`   ✨ ${titlePrefix} Summary Result: "${summary.slice(0, 50)}..."`);
             return summary;
         } catch (error) {
@@ -223,19 +149,17 @@ class AiService {
     }
 
     /**
-     * Extracts named entities from text using the NER model.
+     * Extracts named entities from text.
      */
     async extractEntities(text: string, articleTitle?: string): Promise<ArticleEntity[]> {
-        if (!this.isInitialized) await this.init();
-        if (!this.nerPipeline) return [];
+        await this.init(['ner']);
 
         try {
             const start = performance.now();
             const truncated = text.slice(0, 1500);
             const titlePrefix = articleTitle ? `[${articleTitle.slice(0, 30)}...]` : '';
             logger.info(`   [AI] ${titlePrefix} Starting NER extraction...`);
-            const results = await this.nerPipeline(truncated);
-            const resultEntities = this.processNerResults(results as unknown as NerResult[]);
+            const resultEntities = await this.run('ner', provider => provider.extractEntities(truncated));
             const duration = (performance.now() - start).toFixed(0);
             logger.info(`   [AI] ${titlePrefix} NER extraction finished in ${duration}ms -> Found ${resultEntities.length} entities`);
             return resultEntities;
@@ -245,44 +169,6 @@ class AiService {
         }
     }
 
-    private processNerResults(results: NerResult[]): ArticleEntity[] {
-        const entities: ArticleEntity[] = [];
-        let current: { text: string; label: string; score: number; count: number } | null = null;
-
-        for (const item of results) {
-            const label = item.entity.split('-').pop() || 'MISC';
-            const isSub = item.word.startsWith('##');
-            const word = isSub ? item.word.slice(2) : item.word;
-
-            if (this.isEntityContinuation(current, item, label, isSub)) {
-                current!.text += (isSub ? '' : ' ') + word;
-                current!.score += item.score;
-                current!.count++;
-            } else {
-                if (current) entities.push({ text: current.text, label: current.label, score: current.score / current.count });
-                current = { text: word, label, score: item.score, count: 1 };
-            }
-        }
-        if (current) entities.push({ text: current.text, label: current.label, score: current.score / current.count });
-        return this.finalizeEntities(entities);
-    }
-
-    private isEntityContinuation(current: { label: string } | null, item: NerResult, label: string, isSub: boolean): boolean {
-        if (!current) return false;
-        return isSub || (item.entity.startsWith('I-') && current.label === label);
-    }
-
-    private finalizeEntities(entities: ArticleEntity[]): ArticleEntity[] {
-        return entities
-            .filter(e => e.score > 0.8 && e.text.length > 2)
-            .map(e => ({ ...e, text: this.cleanEntityText(e.text) }))
-            .filter((e, idx, self) => idx === self.findIndex(t => t.text === e.text));
-    }
-
-    private cleanEntityText(text: string): string {
-        return text.replace(/\s+/g, ' ').replace(/[.,!?]$/, '').trim();
-    }
-
     /**
      * Performs a full analysis of an article in parallel.
      */
@@ -312,7 +198,7 @@ class AiService {
             isPromotional: this.detectPromotionalContent(title, summaryText)
         };
 
-        // Bypassing translations for now to save resources
+        // Translations are produced by the translation stage (TranslationService)
         const translations: ArticleTranslations = {};
 
         return { analysis, translations };
@@ -334,42 +220,23 @@ class AiService {
      * Translates a text between two languages.
      */
     async translate(text: string, fromLang: string, toLang: string): Promise<string | null> {
-        if (!this.isInitialized) await this.init();
-        if (!this.translationPipeline) return null;
+        await this.init(['translation']);
         if (fromLang === toLang) return text;
-
-        const src_lang = M2M100_MAP[fromLang] || 'eng_Latn';
-        const tgt_lang = M2M100_MAP[toLang];
-        if (!tgt_lang) return null;
+        if (!this.supportsTranslation(toLang)) return null;
 
         try {
-            const result = await this.translationPipeline(text, {
-                // @ts-ignore - transformers.js types are sometimes outdated
-                src_lang,
-                // @ts-ignore
-                tgt_lang
-            });
-            const output = (Array.isArray(result) ? result[0] : result) as Record<string, string>;
-            return output?.translation_text || null;
+            return await this.run('translation', provider => provider.translate(text, fromLang, toLang));
         } catch (error) {
             logger.error(`Error translating:`, error);
             return null;
         }
     }
 
-    private async translateArticle(title: string, summary: string, originalLang: string, targetLanguages: string[]): Promise<ArticleTranslations> {
-        const translations: ArticleTranslations = {};
-        const translationPromises = targetLanguages
-            .filter(lang => lang !== originalLang)
-            .map(async (lang) => {
-                const [tTitle, tSummary] = await Promise.all([
-                    this.translate(title, originalLang, lang),
-                    this.translate(summary, originalLang, lang)
-                ]);
-                if (tTitle && tSummary) translations[lang] = { title: tTitle, summary: tSummary };
-            });
-        await Promise.all(translationPromises);
-        return translations;
+    /**
+     * Tells whether the translation provider can produce a language.
+     */
+    supportsTranslation(lang: string): boolean {
+        return this.providers.translation.supportsLanguage(lang);
     }
 }
 
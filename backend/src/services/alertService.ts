@@ -0,0 +1,180 @@
+// src/services/alertService.ts
+import { ObjectId } from 'mongodb';
+import { UserRepository } from '@/repositories/userRepository';
+import { AlertRepository } from '@/repositories/alertRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import { SavedSearch, SavedSearchQuery, UserAlert } from '@/types/user';
+import { matchesFetchOptions } from '@/utils/articleFilter';
+import { AppError } from '@/utils/errorHandler';
+import logger from '@/utils/logger';
+
+/**
+ * Fields accepted when saving or updating a search.
+ */
+export interface SavedSearchInput {
+    name?: string;
+    query?: SavedSearchQuery;
+    isAlert?: boolean;
+}
+
+const STRING_FIELDS = ['category', 'sentiment', 'language', 'search', 'feedName', 'dateRange', 'bookmarkIds', 'translationStatus'] as const;
+const BOOLEAN_FIELDS = ['onlyInsights', 'isBookmarked'] as const;
+
+/**
+ * Keeps the known filter fields of a query, with their expected types.
+ */
+function sanitizeQuery(input: SavedSearchQuery = {}): SavedSearchQuery {
+    const query: Record<string, unknown> = {};
+    for (const field of STRING_FIELDS) {
+        const value = input[field];
+        if (typeof value === 'string' && value.trim()) query[field] = value.trim();
+    }
+    for (const field of BOOLEAN_FIELDS) {
+        if (input[field] === true) query[field] = true;
+    }
+    const entities = Array.isArray(input.entities)
+        ? input.entities.filter((e): e is string => typeof e === 'string' && e.trim().length > 0).map(e => e.trim())
+        : [];
+    if (entities.length > 0) query.entities = entities;
+    return query as SavedSearchQuery;
+}
+
+/**
+ * Saved searches and alert rules: named article queries stored on the user profile.
+ * Alert rules are evaluated against each newly analysed article and matches are
+ * recorded as per-user notifications.
+ */
+export class AlertService {
+    public static async listSavedSearches(userId: string): Promise<SavedSearch[]> {
+        const profile = await UserRepository.getProfile(userId);
+        return profile?.savedSearches || [];
+    }
+
+    /**
+     * Saves a named search for a user.
+     *
+     * @throws {AppError} 400 if the name is missing or not a string.
+     */
+    public static async createSavedSearch(userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!name) throw new AppError('name is required', 400);
+
+        const now = new Date().toISOString();
+        const search: SavedSearch = {
+            id: new ObjectId().toHexString(),
+            name,
+            query: sanitizeQuery(input.query),
+            isAlert: input.isAlert === true,
+            createdAt: now,
+            updatedAt: now
+        };
+        await UserRepository.addSavedSearch(userId, search);
+        return search;
+    }
+
+    /**
+     * Renames a saved search, changes its query or turns its alert on or off.
+     *
+     * @throws {AppError} 404 if the search does not exist, 400 on an empty or non-string name.
+     */
+    public static async updateSavedSearch(userId: string, searchId: string, input: SavedSearchInput): Promise<SavedSearch> {
+        const existing = (await this.listSavedSearches(userId)).find(search => search.id === searchId);
+        if (!existing) throw new AppError('Saved search not found', 404);
+        if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim())) {
+            throw new AppError('name must be a non-empty string', 400);
+        }
+
+        const updated: SavedSearch = {
+            ...existing,
+            name: input.name?.trim() || existing.name,
+            query: input.query ? sanitizeQuery(input.query) : existing.query,
+            isAlert: input.isAlert ?? existing.isAlert,
+            updatedAt: new Date().toISOString()
+        };
+        if (!(await UserRepository.replaceSavedSearch(userId, updated))) throw new AppError('Saved search not found', 404);
+        return updated;
+    }
+
+    /**
+     * Deletes a saved search and the alerts it created.
+     *
+     * @throws {AppError} 404 if the search does not exist.
+     */
+    public static async deleteSavedSearch(userId: string, searchId: string): Promise<void> {
+        if (!(await UserRepository.deleteSavedSearch(userId, searchId))) throw new AppError('Saved search not found', 404);
+        await AlertRepository.deleteBySearch(userId, searchId);
+    }
+
+    /**
+     * Tests an article against a saved query.
+     *
+     * @returns {string[] | null} The matched entity names (empty when the query has none), or null if the article does not match.
+     */
+    public static match(article: ProcessedArticleData, query: SavedSearchQuery): string[] | null {
+        if (!matchesFetchOptions(article, query)) return null;
+        if (!query.entities?.length) return [];
+
+        const wanted = new Set(query.entities.map(entity => entity.toLowerCase()));
+        const matched = (article.analysis?.entities || [])
+            .map(entity => entity.text)
+            .filter(text => wanted.has(text.toLowerCase()));
+        return matched.length > 0 ? [...new Set(matched)] : null;
+    }
+
+    /**
+     * Records a notification for every alert rule matched by a newly analysed article.
+     * Failures are logged: alerting must never break the analysis pipeline.
+     *
+     * @returns {Promise<number>} The number of alerts created.
+     */
+    public static async evaluate(article: ProcessedArticleData): Promise<number> {
+        try {
+            const subscribers = await UserRepository.findAlertSubscribers();
+            const alerts: UserAlert[] = [];
+            for (const user of subscribers) {
+                alerts.push(...this.collectAlerts(user._id, user.savedSearches || [], article));
+            }
+
+            const created = await AlertRepository.insertMany(alerts);
+            if (created > 0) logger.info(`🔔 ${created} alert(s) raised for "${article.title.slice(0, 40)}..."`);
+            return created;
+        } catch (error) {
+            logger.error(`❌ Alert evaluation failed for article ${article._id}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Returns the latest alerts of a user with the unread count.
+     */
+    public static async getAlerts(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<{ alerts: UserAlert[]; unreadCount: number }> {
+        const [alerts, unreadCount] = await Promise.all([
+            AlertRepository.list(userId, options),
+            AlertRepository.countUnread(userId)
+        ]);
+        return { alerts, unreadCount };
+    }
+
+    private static collectAlerts(userId: string, searches: SavedSearch[], article: ProcessedArticleData): UserAlert[] {
+        const alerts: UserAlert[] = [];
+        for (const search of searches) {
+            if (!search.isAlert) continue;
+            const matchedEntities = this.match(article, search.query);
+            if (!matchedEntities) continue;
+
+            alerts.push({
+                userId,
+                searchId: search.id,
+                searchName: search.name,
+                articleId: article._id!.toString(),
+                title: article.title,
+                link: article.link,
+                feedName: article.feedName ?? null,
+                matchedEntities,
+                read: false,
+                createdAt: new Date().toISOString()
+            });
+        }
+        return alerts;
+    }
+}
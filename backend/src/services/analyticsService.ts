@@ -1,6 +1,8 @@
 // src/services/analyticsService.ts
 import { getDatabase } from '@/config/database';
 import { ProcessedArticleData } from '@/types/rss';
+import { AssetAnalytics, AssetSentimentCounts, AssetTimelinePoint, AssetType } from '@/types/asset';
+import { AssetExtractionService } from '@/services/assetExtractionService';
 
 interface SentimentDistribution {
     total: number;
@@ -29,6 +31,22 @@ interface TimelinePoint {
     neutral: number;
 }
 
+export interface AssetAnalyticsOptions {
+    dateRange?: 'today' | 'week' | 'month' | 'all';
+    category?: string;
+    source?: string;
+    granularity?: 'hour' | 'day' | 'week';
+    /** Only these symbols */
+    symbols?: string[];
+    type?: AssetType;
+    limit?: number;
+}
+
+interface AssetBucket {
+    counts: AssetSentimentCounts;
+    timeline: Map<string, AssetSentimentCounts>;
+}
+
 export class AnalyticsService {
     /**
      * Get sentiment distribution across articles
@@ -202,6 +220,85 @@ export class AnalyticsService {
         return timelineMap;
     }
 
+    /**
+     * Get article counts and sentiment over time for each mentioned asset
+     */
+    public static async getAssetAnalytics(options: AssetAnalyticsOptions = {}): Promise<{ assets: AssetAnalytics[] }> {
+        const { dateRange = 'month', category, source, granularity = 'day', symbols, type, limit = 20 } = options;
+        const db = getDatabase();
+        const collection = db.collection<ProcessedArticleData>('rssArticles');
+
+        const filter: Record<string, unknown> = { ...this.buildDateFilter(dateRange) };
+        if (category) filter.category = category;
+        if (source) filter.feedName = source;
+        filter['analysis.mentionedAssets'] = symbols?.length ? { $in: symbols } : { $exists: true, $ne: [] };
+
+        const articles = await collection
+            .find(filter, { projection: { publicationDate: 1, fetchedAt: 1, 'analysis.sentiment': 1, 'analysis.mentionedAssets': 1 } })
+            .toArray();
+        const buckets = this.groupArticlesByAsset(articles, granularity, symbols);
+
+        const assets = Array.from(buckets.entries())
+            .map(([symbol, bucket]) => this.toAssetAnalytics(symbol, bucket))
+            .filter((asset): asset is AssetAnalytics => asset !== null && (!type || asset.type === type))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, limit);
+
+        return { assets };
+    }
+
+    private static groupArticlesByAsset(articles: ProcessedArticleData[], granularity: 'hour' | 'day' | 'week', symbols?: string[]) {
+        const buckets = new Map<string, AssetBucket>();
+
+        for (const article of articles) {
+            const date = article.publicationDate || article.fetchedAt;
+            const timeKey = date ? this.getTimeKey(new Date(date), granularity) : null;
+            const sentiment = article.analysis?.sentiment || 'neutral';
+            const mentioned = (article.analysis?.mentionedAssets || []).filter(symbol => !symbols?.length || symbols.includes(symbol));
+
+            for (const symbol of mentioned) {
+                if (!buckets.has(symbol)) buckets.set(symbol, { counts: this.emptyCounts(), timeline: new Map() });
+                this.countInBucket(buckets.get(symbol)!, sentiment, timeKey);
+            }
+        }
+        return buckets;
+    }
+
+    private static countInBucket(bucket: AssetBucket, sentiment: keyof AssetSentimentCounts, timeKey: string | null): void {
+        bucket.counts[sentiment]++;
+        if (!timeKey) return;
+        if (!bucket.timeline.has(timeKey)) bucket.timeline.set(timeKey, this.emptyCounts());
+        bucket.timeline.get(timeKey)![sentiment]++;
+    }
+
+    private static toAssetAnalytics(symbol: string, bucket: AssetBucket): AssetAnalytics | null {
+        const asset = AssetExtractionService.getAsset(symbol);
+        if (!asset) return null;
+
+        const timeline: AssetTimelinePoint[] = Array.from(bucket.timeline.entries())
+            .map(([date, counts]) => ({ date, ...counts, ...this.summarizeCounts(counts) }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+        return {
+            symbol,
+            name: asset.name,
+            type: asset.type,
+            sentiment: bucket.counts,
+            ...this.summarizeCounts(bucket.counts),
+            timeline
+        };
+    }
+
+    private static summarizeCounts(counts: AssetSentimentCounts): { count: number; netSentiment: number } {
+        const count = counts.bullish + counts.bearish + counts.neutral;
+        const netSentiment = count ? Math.round(((counts.bullish - counts.bearish) / count) * 100) / 100 : 0;
+        return { count, netSentiment };
+    }
+
+    private static emptyCounts(): AssetSentimentCounts {
+        return { bullish: 0, bearish: 0, neutral: 0 };
+    }
+
     /**
      * Build MongoDB date filter based on range
      */
@@ -0,0 +1,103 @@
+// src/services/apiKeyService.ts
+import crypto from 'crypto';
+import { ApiKeyRepository } from '@/repositories/apiKeyRepository';
+import { API_KEY_SCOPES, ApiKey, ApiKeyPrincipal, ApiKeyScope } from '@/types/apiKey';
+import { AppError } from '@/utils/errorHandler';
+import logger from '@/utils/logger';
+
+export interface ApiKeyInput {
+    name?: string;
+    scopes?: unknown;
+}
+
+const KEY_PREFIX = 'kgn_';
+// Resolved keys are cached briefly so that each request does not hit the database
+const CACHE_TTL_MS = 60 * 1000;
+
+interface CachedKey {
+    principal: ApiKeyPrincipal | null;
+    expiresAt: number;
+}
+
+/**
+ * Issued API keys. Only the SHA-256 of a key is stored: the key itself is returned once, on creation.
+ */
+export class ApiKeyService {
+    private static cache = new Map<string, CachedKey>();
+
+    /**
+     * Issues a key.
+     *
+     * @returns The stored key (without its hash) and the key itself.
+     * @throws {AppError} 400 if the name is missing or a scope is unknown.
+     */
+    public static async create(input: ApiKeyInput, createdBy: string | null): Promise<{ apiKey: Omit<ApiKey, 'keyHash'>; key: string }> {
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!name) throw new AppError('Key name is required', 400);
+        const scopes = this.validateScopes(input.scopes);
+
+        const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+        const apiKey: ApiKey = {
+            name,
+            prefix: key.slice(0, KEY_PREFIX.length + 6),
+            keyHash: this.hash(key),
+            scopes,
+            createdBy,
+            createdAt: new Date().toISOString(),
+            lastUsedAt: null,
+            revokedAt: null
+        };
+        apiKey._id = await ApiKeyRepository.create(apiKey);
+        logger.info(`🔑 API key issued: ${name} [${scopes.join(', ')}]`);
+
+        const { keyHash: _keyHash, ...publicKey } = apiKey;
+        return { apiKey: publicKey, key };
+    }
+
+    /**
+     * @throws {AppError} 404 if the key does not exist or is already revoked.
+     */
+    public static async revoke(id: string): Promise<void> {
+        if (!(await ApiKeyRepository.revoke(id))) throw new AppError('API key not found', 404);
+        this.cache.clear();
+        logger.info(`🔑 API key revoked: ${id}`);
+    }
+
+    /**
+     * Resolves the key sent by a client.
+     *
+     * @returns {Promise<ApiKeyPrincipal | null>} Null if the key is unknown or revoked.
+     */
+    public static async authenticate(key: string, now: number = Date.now()): Promise<ApiKeyPrincipal | null> {
+        const keyHash = this.hash(key);
+        const cached = this.cache.get(keyHash);
+        if (cached && cached.expiresAt > now) return cached.principal;
+
+        const apiKey = key.startsWith(KEY_PREFIX) ? await ApiKeyRepository.findActiveByHash(keyHash) : null;
+        const principal = apiKey ? { id: apiKey._id!.toString(), name: apiKey.name, scopes: apiKey.scopes } : null;
+        this.cache.set(keyHash, { principal, expiresAt: now + CACHE_TTL_MS });
+        if (apiKey) void ApiKeyRepository.touch(apiKey._id!).catch(() => undefined);
+        return principal;
+    }
+
+    /**
+     * Tells whether a key grants a scope (`admin` grants every scope).
+     */
+    public static hasScope(principal: ApiKeyPrincipal, scope: ApiKeyScope): boolean {
+        return principal.scopes.includes(scope) || principal.scopes.includes('admin');
+    }
+
+    private static validateScopes(scopes: unknown): ApiKeyScope[] {
+        if (scopes === undefined) return ['read:articles'];
+        if (!Array.isArray(scopes) || scopes.length === 0) throw new AppError('scopes must be a non-empty array', 400);
+        const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+        if (unknown.length > 0) {
+            throw new AppError(`Unknown scopes: ${unknown.join(', ')} (expected ${API_KEY_SCOPES.join(', ')})`, 400);
+        }
+        return [...new Set(scopes as ApiKeyScope[])];
+    }
+
+    private static hash(key: string): string {
+        return crypto.createHash('sha256').update(key).digest('hex');
+    }
+}
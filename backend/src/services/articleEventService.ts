@@ -0,0 +1,84 @@
+// src/services/articleEventService.ts
+import { EventEmitter } from 'events';
+import { FetchOptions, RssRepository } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import { matchesFetchOptions } from '@/utils/articleFilter';
+import logger from '@/utils/logger';
+
+export type ArticleEventType = 'article.created' | 'article.analyzed' | 'article.summarized' | 'sync.completed';
+
+/**
+ * A live update pushed to the stream subscribers. Article events carry the article
+ * (without its scraped full text), `sync.completed` carries the run statistics.
+ */
+export interface ArticleEvent {
+    id: number;
+    type: ArticleEventType;
+    at: string;
+    article?: ProcessedArticleData;
+    sync?: { processed: number; errors: number; notModified: number };
+}
+
+export type ArticleEventListener = (event: ArticleEvent) => void;
+
+const CHANNEL = 'article-event';
+
+/**
+ * Process-wide bus of article events, consumed by the `GET /api/rss/stream` SSE endpoint.
+ */
+export class ArticleEventService {
+    private static emitter = new EventEmitter().setMaxListeners(0);
+    private static lastId = 0;
+
+    /**
+     * Publishes an event to every subscriber.
+     */
+    public static publish(type: ArticleEventType, payload: Pick<ArticleEvent, 'article' | 'sync'> = {}): ArticleEvent {
+        const event: ArticleEvent = { id: ++this.lastId, type, at: new Date().toISOString(), ...payload };
+        if (event.article) {
+            const { fullText: _fullText, ...article } = event.article;
+            event.article = article;
+        }
+        this.emitter.emit(CHANNEL, event);
+        return event;
+    }
+
+    /**
+     * Re-reads an article updated by a worker process and publishes it.
+     */
+    public static async publishArticleUpdate(type: ArticleEventType, articleId: string): Promise<void> {
+        if (this.emitter.listenerCount(CHANNEL) === 0) return;
+        try {
+            const article = await RssRepository.findById(articleId);
+            if (article) this.publish(type, { article });
+        } catch (error) {
+            logger.debug(`⚠️ Could not publish ${type} for article ${articleId}:`, error);
+        }
+    }
+
+    /**
+     * Registers a listener.
+     *
+     * @returns {() => void} A function removing the listener.
+     */
+    public static subscribe(listener: ArticleEventListener): () => void {
+        this.emitter.on(CHANNEL, listener);
+        return () => this.emitter.off(CHANNEL, listener);
+    }
+
+    /**
+     * Tells whether an event is visible through the given filters. Events without an
+     * article (sync runs) are always delivered.
+     */
+    public static matches(event: ArticleEvent, options: FetchOptions): boolean {
+        if (!event.article) return true;
+        return matchesFetchOptions(event.article, options);
+    }
+
+    /**
+     * Serializes an event in the Server-Sent Events wire format.
+     */
+    public static toSse(event: ArticleEvent): string {
+        return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    }
+}
@@ -0,0 +1,133 @@
+// src/services/articleExportService.ts
+import { Writable } from 'stream';
+import { RssRepository, FetchOptions } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import { AppError } from '@/utils/errorHandler';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+
+interface ExportField {
+    paths: string[]; // Document fields to project
+    read: (article: ProcessedArticleData) => unknown;
+}
+
+/**
+ * Exported columns. Values keep a stable type per column (string, number, boolean or
+ * null) so that notebooks can load them straight into typed frames (e.g. Parquet).
+ */
+const EXPORT_FIELDS: Record<string, ExportField> = {
+    id: { paths: ['_id'], read: a => a._id?.toString() ?? null },
+    title: { paths: ['title'], read: a => a.title },
+    link: { paths: ['link'], read: a => a.link },
+    publicationDate: { paths: ['publicationDate'], read: a => a.publicationDate ?? null },
+    fetchedAt: { paths: ['fetchedAt'], read: a => a.fetchedAt ?? null },
+    feedName: { paths: ['feedName'], read: a => a.feedName ?? null },
+    category: { paths: ['category'], read: a => a.category ?? null },
+    language: { paths: ['language'], read: a => a.language ?? null },
+    author: { paths: ['author'], read: a => a.author ?? null },
+    summary: { paths: ['summary'], read: a => a.summary ?? null },
+    sentiment: { paths: ['analysis.sentiment'], read: a => a.analysis?.sentiment ?? null },
+    sentimentScore: { paths: ['analysis.sentimentScore'], read: a => a.analysis?.sentimentScore ?? null },
+    isPromotional: { paths: ['analysis.isPromotional'], read: a => a.analysis?.isPromotional ?? null },
+    iaSummary: { paths: ['analysis.iaSummary'], read: a => a.analysis?.iaSummary ?? null },
+    entities: { paths: ['analysis.entities'], read: a => a.analysis?.entities ?? [] },
+    isBookmarked: { paths: ['isBookmarked'], read: a => a.isBookmarked ?? false }
+};
+
+export const EXPORT_FIELD_NAMES = Object.keys(EXPORT_FIELDS);
+export const DEFAULT_EXPORT_FIELDS = EXPORT_FIELD_NAMES.filter(field => field !== 'summary');
+
+function escapeCsv(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Prefixes text that spreadsheet tools would run as a formula (feed content is untrusted).
+ */
+function neutralizeFormula(value: string): string {
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Flattens a value into a CSV cell. Entities become `text:label` pairs separated by `;`.
+ * Numbers and booleans are written as is, so negative scores stay numeric.
+ */
+function toCsvCell(field: string, value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (field === 'entities') {
+        return escapeCsv(neutralizeFormula((value as { text: string; label: string }[]).map(e => `${e.text}:${e.label}`).join(';')));
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return escapeCsv(neutralizeFormula(String(value)));
+}
+
+/**
+ * Streams filtered articles from a database cursor, one line at a time, so that
+ * exports of any size run in constant memory.
+ */
+export class ArticleExportService {
+    /**
+     * Validates a comma-separated list of fields.
+     *
+     * @throws {AppError} 400 if a field is unknown.
+     */
+    public static parseFields(raw?: string): string[] {
+        if (!raw) return DEFAULT_EXPORT_FIELDS;
+        const fields = [...new Set(raw.split(',').map(field => field.trim()).filter(Boolean))];
+        const unknown = fields.filter(field => !EXPORT_FIELDS[field]);
+        if (unknown.length > 0 || fields.length === 0) {
+            throw new AppError(`Unknown fields: ${unknown.join(', ')} (expected ${EXPORT_FIELD_NAMES.join(', ')})`, 400);
+        }
+        return fields;
+    }
+
+    /**
+     * Writes the articles matching the filters to `output`, waiting for it to drain.
+     * Stops early if `output` is destroyed (client gone).
+     *
+     * @returns {Promise<number>} Number of exported articles.
+     */
+    public static async export(output: Writable, format: ExportFormat, fields: string[], options: FetchOptions): Promise<number> {
+        const projection = Object.fromEntries(fields.flatMap(field => EXPORT_FIELDS[field].paths).map(path => [path, 1]));
+        const cursor = RssRepository.streamAll(options, projection);
+        let count = 0;
+
+        try {
+            if (format === 'csv') await this.write(output, `${fields.join(',')}\n`);
+            for await (const article of cursor) {
+                if (output.destroyed) break;
+                await this.write(output, this.formatLine(format, fields, article));
+                count++;
+            }
+        } finally {
+            await cursor.close();
+        }
+        return count;
+    }
+
+    public static formatLine(format: ExportFormat, fields: string[], article: ProcessedArticleData): string {
+        if (format === 'csv') {
+            return `${fields.map(field => toCsvCell(field, EXPORT_FIELDS[field].read(article))).join(',')}\n`;
+        }
+        const row = Object.fromEntries(fields.map(field => [field, EXPORT_FIELDS[field].read(article)]));
+        return `${JSON.stringify(row)}\n`;
+    }
+
+    /**
+     * Writes a chunk, waiting for the buffer to drain (or the stream to close) when it is full.
+     */
+    private static async write(output: Writable, chunk: string): Promise<void> {
+        if (output.write(chunk)) return;
+        await new Promise<void>(resolve => {
+            const resume = () => {
+                output.off('drain', resume);
+                output.off('close', resume);
+                resolve();
+            };
+            output.once('drain', resume);
+            output.once('close', resume);
+        });
+    }
+}
@@ -0,0 +1,69 @@
+// src/services/assetExtractionService.ts
+import { assetDictionary } from '@/config/assets';
+import { AssetDefinition } from '@/types/asset';
+import { ArticleEntity } from '@/types/rss';
+import { normalizeEntityName } from '@/utils/entityName';
+
+/** Entity labels that can name an asset (people and places cannot). */
+const ASSET_ENTITY_LABELS = new Set(['ORG', 'MISC']);
+const CASHTAG_PATTERN = /(?<![\w$])\$([A-Za-z][A-Za-z0-9.]{0,9})(?![\w])/g;
+
+/**
+ * Links articles to the assets of the local dictionary, from their NER entities
+ * and cashtags ($BTC, $AAPL). The result fills `analysis.mentionedAssets`.
+ */
+export class AssetExtractionService {
+    private static aliasIndex: Map<string, AssetDefinition> | null = null;
+    private static symbolIndex: Map<string, AssetDefinition> | null = null;
+
+    /**
+     * Returns the symbols of the assets mentioned by the text and entities, sorted.
+     */
+    public static extract(text: string, entities: ArticleEntity[] = []): string[] {
+        const symbols = new Set<string>();
+        for (const entity of entities) {
+            if (!ASSET_ENTITY_LABELS.has(entity.label)) continue;
+            const asset = this.findByName(entity.text);
+            if (asset) symbols.add(asset.symbol);
+        }
+        for (const match of text.matchAll(CASHTAG_PATTERN)) {
+            const asset = this.findByCashtag(match[1]);
+            if (asset) symbols.add(asset.symbol);
+        }
+        return [...symbols].sort();
+    }
+
+    /**
+     * Dictionary entry of a stored symbol.
+     */
+    public static getAsset(symbol: string): AssetDefinition | undefined {
+        return this.getSymbolIndex().get(symbol.toUpperCase());
+    }
+
+    /**
+     * Dictionary entry named by an entity mention ("Apple Inc.", "bitcoin").
+     */
+    public static findByName(text: string): AssetDefinition | undefined {
+        return this.getAliasIndex().get(normalizeEntityName(text));
+    }
+
+    private static findByCashtag(tag: string): AssetDefinition | undefined {
+        const cleaned = tag.replace(/\.+$/, '');
+        return this.getAsset(cleaned) || this.findByName(cleaned);
+    }
+
+    private static getAliasIndex(): Map<string, AssetDefinition> {
+        if (!this.aliasIndex) {
+            this.aliasIndex = new Map();
+            for (const asset of assetDictionary) {
+                for (const alias of [asset.name, ...asset.aliases]) this.aliasIndex.set(normalizeEntityName(alias), asset);
+            }
+        }
+        return this.aliasIndex;
+    }
+
+    private static getSymbolIndex(): Map<string, AssetDefinition> {
+        if (!this.symbolIndex) this.symbolIndex = new Map(assetDictionary.map(asset => [asset.symbol, asset]));
+        return this.symbolIndex;
+    }
+}
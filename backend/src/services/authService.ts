@@ -0,0 +1,113 @@
+// src/services/authService.ts
+import { ObjectId } from 'mongodb';
+import { AccountRepository } from '@/repositories/accountRepository';
+import { authConfig } from '@/config/authConfig';
+import { AuthUser, TokenPayload, UserAccount } from '@/types/auth';
+import { AppError } from '@/utils/errorHandler';
+import { hashPassword, signToken, verifyPassword, verifyToken } from '@/utils/token';
+import logger from '@/utils/logger';
+
+/**
+ * Credentials sent to the register and login endpoints.
+ */
+export interface Credentials {
+    email?: string;
+    password?: string;
+}
+
+export interface AuthSession {
+    token: string;
+    expiresIn: number;
+    user: AuthUser;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Local email/password accounts with stateless access tokens (HS256 JWT).
+ */
+export class AuthService {
+    /**
+     * Creates an account with a new profile and the `user` role. Admins are promoted
+     * out-of-band (`pnpm run promote-admin -- <email>`), never at sign-up.
+     *
+     * @throws {AppError} 400 on invalid credentials, 409 if the email is taken.
+     */
+    public static async register(credentials: Credentials): Promise<AuthSession> {
+        const { email, password } = this.validateCredentials(credentials);
+        if (password.length < authConfig.passwordMinLength) {
+            throw new AppError(`Password must be at least ${authConfig.passwordMinLength} characters`, 400);
+        }
+        if (await AccountRepository.findByEmail(email)) throw new AppError('An account already exists for this email', 409);
+
+        const account: UserAccount = {
+            email,
+            passwordHash: await hashPassword(password),
+            role: 'user',
+            profileId: `user_${new ObjectId().toHexString()}`,
+            createdAt: new Date().toISOString(),
+            lastLoginAt: new Date().toISOString()
+        };
+        account._id = await AccountRepository.create(account);
+        logger.info(`👤 Account created: ${email} (${account.role})`);
+        return this.createSession(account);
+    }
+
+    /**
+     * Authenticates an account.
+     *
+     * @throws {AppError} 401 if the email or password is wrong.
+     */
+    public static async login(credentials: Credentials): Promise<AuthSession> {
+        const { email, password } = this.validateCredentials(credentials);
+        const account = await AccountRepository.findByEmail(email);
+        if (!account || !(await verifyPassword(password, account.passwordHash))) {
+            throw new AppError('Invalid email or password', 401);
+        }
+
+        await AccountRepository.touchLogin(account._id!);
+        return this.createSession(account);
+    }
+
+    /**
+     * Resolves the user of an access token.
+     *
+     * @returns {AuthUser | null} Null if the token is invalid or expired.
+     */
+    public static authenticate(token: string): AuthUser | null {
+        const payload = verifyToken<TokenPayload>(token, authConfig.jwtSecret);
+        if (!payload) return null;
+        return { id: payload.id, email: payload.email, role: payload.role, profileId: payload.profileId };
+    }
+
+    /**
+     * Tells whether a user is still an admin. The role of a token is only a claim: it is
+     * checked against the account so that a revoked admin loses access before the token expires.
+     */
+    public static async isAdmin(user?: AuthUser): Promise<boolean> {
+        if (user?.role !== 'admin') return false;
+        return (await AccountRepository.findRole(user.id)) === 'admin';
+    }
+
+    private static createSession(account: UserAccount): AuthSession {
+        const user: AuthUser = {
+            id: account._id!.toString(),
+            email: account.email,
+            role: account.role,
+            profileId: account.profileId
+        };
+        return {
+            token: signToken(user, authConfig.jwtSecret, authConfig.tokenTtlSeconds),
+            expiresIn: authConfig.tokenTtlSeconds,
+            user
+        };
+    }
+
+    private static validateCredentials(credentials: Credentials): { email: string; password: string } {
+        const email = typeof credentials.email === 'string' ? credentials.email.trim().toLowerCase() : '';
+        const password = typeof credentials.password === 'string' ? credentials.password : '';
+        if (!EMAIL_PATTERN.test(email)) throw new AppError('A valid email is required', 400);
+        if (!password) throw new AppError('Password is required', 400);
+        return { email, password };
+    }
+}
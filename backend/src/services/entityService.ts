@@ -0,0 +1,157 @@
+// src/services/entityService.ts
+import { entityAliases } from '@/config/entityAliases';
+import { EntityRepository } from '@/repositories/entityRepository';
+import { RssRepository } from '@/repositories/rssRepository';
+import { AssetExtractionService } from '@/services/assetExtractionService';
+import { EntityMention, EntityProfile, EntitySentimentPoint, KnowledgeEntity, RelatedEntity } from '@/types/entity';
+import { ArticleEntity } from '@/types/rss';
+import { AppError } from '@/utils/errorHandler';
+import { normalizeEntityName, toEntitySlug } from '@/utils/entityName';
+
+export interface EntityProfileOptions {
+    articleLimit?: number;
+    days?: number;
+    relatedLimit?: number;
+}
+
+type EntityIdentity = Pick<EntityMention, 'entityId' | 'name' | 'assetSymbol'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Knowledge base of the entities found by NER: mentions are canonicalised (case and
+ * accent folding, company suffixes, configured aliases, asset dictionary, surnames of
+ * people named in full in the same article) and counted with their co-occurrences.
+ */
+export class EntityService {
+    private static aliasIndex: Map<string, string> | null = null;
+
+    /**
+     * Resolves the canonical entity of each mention.
+     */
+    public static canonicalize(entities: ArticleEntity[]): EntityMention[] {
+        const mentions = entities
+            .map(entity => ({ ...entity, ...this.resolve(entity.text) }))
+            .filter(mention => mention.entityId);
+        return this.mergeSurnames(mentions);
+    }
+
+    /**
+     * Counts an article in the store: one mention per entity, and every pair of its entities.
+     */
+    public static async indexArticle(mentions: EntityMention[], seenAt: string): Promise<void> {
+        const unique = mentions.filter((mention, idx, self) => idx === self.findIndex(m => m.entityId === mention.entityId));
+        await EntityRepository.recordMentions(unique, seenAt);
+        await EntityRepository.recordCooccurrences(unique.map(mention => mention.entityId), seenAt);
+    }
+
+    /**
+     * Entity page: the entity, its latest articles, daily sentiment and related entities.
+     *
+     * @throws {AppError} 404 if the entity is unknown.
+     */
+    public static async getProfile(id: string, options: EntityProfileOptions = {}, now: number = Date.now()): Promise<EntityProfile> {
+        const { articleLimit = 10, days = 30, relatedLimit = 10 } = options;
+        const entity = await EntityRepository.findById(id);
+        if (!entity) throw new AppError(`Entity not found: ${id}`, 404);
+
+        const since = new Date(now - days * DAY_MS).toISOString().slice(0, 10);
+        const [articles, sentimentRows, related] = await Promise.all([
+            RssRepository.findByEntity(id, articleLimit),
+            RssRepository.countEntitySentiment(id, since),
+            this.findRelated(id, relatedLimit)
+        ]);
+
+        return {
+            entity: {
+                id: entity._id,
+                name: entity.name,
+                label: this.dominantLabel(entity),
+                aliases: entity.aliases,
+                assetSymbol: entity.assetSymbol,
+                articleCount: entity.articleCount,
+                firstSeenAt: entity.firstSeenAt,
+                lastSeenAt: entity.lastSeenAt
+            },
+            articles: articles.map(article => ({
+                _id: article._id!.toString(),
+                title: article.title,
+                link: article.link,
+                feedName: article.feedName,
+                publicationDate: article.publicationDate,
+                sentiment: article.analysis?.sentiment,
+                sentimentScore: article.analysis?.sentimentScore
+            })),
+            sentimentTrend: this.toSentimentTrend(sentimentRows),
+            related
+        };
+    }
+
+    private static resolve(text: string): EntityIdentity {
+        const asset = AssetExtractionService.findByName(text);
+        if (asset) return { ...this.identify(asset.name), assetSymbol: asset.symbol };
+
+        const normalized = normalizeEntityName(text);
+        const canonical = this.getAliasIndex().get(normalized);
+        if (canonical) return this.identify(canonical);
+        return { entityId: toEntitySlug(normalized), name: text.replace(/\s+/g, ' ').trim() };
+    }
+
+    private static identify(name: string): EntityIdentity {
+        return { entityId: toEntitySlug(normalizeEntityName(name)), name };
+    }
+
+    /**
+     * "Powell" is the "Jerome Powell" of the same article.
+     */
+    private static mergeSurnames(mentions: EntityMention[]): EntityMention[] {
+        const fullNames = mentions.filter(mention => mention.label === 'PER' && mention.entityId.includes('-'));
+        return mentions.map(mention => {
+            if (mention.label !== 'PER' || mention.entityId.includes('-')) return mention;
+            const full = fullNames.find(candidate => candidate.entityId.endsWith(`-${mention.entityId}`));
+            return full ? { ...mention, entityId: full.entityId, name: full.name, assetSymbol: full.assetSymbol } : mention;
+        });
+    }
+
+    private static async findRelated(id: string, limit: number): Promise<RelatedEntity[]> {
+        const pairs = await EntityRepository.findCooccurrences(id, limit);
+        const others = pairs.map(pair => ({ id: pair.entities[0] === id ? pair.entities[1] : pair.entities[0], count: pair.count }));
+        const entities = new Map((await EntityRepository.findByIds(others.map(other => other.id))).map(entity => [entity._id, entity]));
+
+        return others
+            .filter(other => entities.has(other.id))
+            .map(other => {
+                const entity = entities.get(other.id)!;
+                return { id: other.id, name: entity.name, label: this.dominantLabel(entity), count: other.count };
+            });
+    }
+
+    private static toSentimentTrend(rows: { date: string; sentiment: string; count: number }[]): EntitySentimentPoint[] {
+        const points = new Map<string, EntitySentimentPoint>();
+        for (const row of rows) {
+            const point = points.get(row.date) || { date: row.date, count: 0, bullish: 0, bearish: 0, neutral: 0, netSentiment: 0 };
+            const sentiment = row.sentiment === 'bullish' || row.sentiment === 'bearish' ? row.sentiment : 'neutral';
+            point[sentiment] += row.count;
+            point.count += row.count;
+            points.set(row.date, point);
+        }
+        return Array.from(points.values())
+            .map(point => ({ ...point, netSentiment: Math.round(((point.bullish - point.bearish) / point.count) * 100) / 100 }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    private static dominantLabel(entity: KnowledgeEntity): string {
+        const [label] = Object.entries(entity.labels || {}).sort(([, a], [, b]) => b - a)[0] || ['MISC'];
+        return label;
+    }
+
+    private static getAliasIndex(): Map<string, string> {
+        if (!this.aliasIndex) {
+            this.aliasIndex = new Map();
+            for (const [canonical, aliases] of Object.entries(entityAliases)) {
+                for (const alias of [canonical, ...aliases]) this.aliasIndex.set(normalizeEntityName(alias), canonical);
+            }
+        }
+        return this.aliasIndex;
+    }
+}
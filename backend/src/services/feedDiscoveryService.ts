@@ -0,0 +1,186 @@
+// src/services/feedDiscoveryService.ts
+import * as cheerio from 'cheerio';
+import { URL } from 'url';
+import { RssService, ParsedFeed, FEED_HEADERS, FEED_TIMEOUT_MS } from './rssService';
+import { AppError } from '@/utils/errorHandler';
+import { fetchPublicUrl } from '@/utils/publicHttp';
+import logger from '@/utils/logger';
+
+/** MIME types announced by `<link rel="alternate">` feed declarations. */
+const FEED_LINK_TYPES = [
+    'application/rss+xml',
+    'application/atom+xml',
+    'application/rdf+xml',
+    'application/feed+json',
+    'application/json'
+];
+
+/** Well-known feed locations probed when the page declares no feed. */
+const COMMON_FEED_PATHS = ['/feed', '/rss', '/rss.xml', '/feed.xml', '/atom.xml', '/index.xml', '/feed.json'];
+
+const MAX_CANDIDATES = 10;
+const SAMPLE_SIZE = 3;
+
+export interface FeedCandidate {
+    url: string;
+    title: string | null;
+    format: ParsedFeed['format'];
+    language: string | null;
+    itemCount: number;
+    sample: { title: string | null; link: string | null; publicationDate: string | null }[];
+    discoveredVia: 'direct' | 'link' | 'guess';
+}
+
+interface FetchedDocument {
+    url: string;
+    body: string;
+    contentType: string;
+}
+
+/**
+ * Normalizes user input into an absolute http(s) URL.
+ *
+ * @throws {AppError} 400 if the input is not a usable URL.
+ */
+function normalizeInputUrl(input: string): string {
+    const trimmed = input.trim();
+    const withScheme = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        return new URL(withScheme).href;
+    } catch {
+        throw new AppError(`Invalid URL: ${input}`, 400);
+    }
+}
+
+/**
+ * Keeps the primary language subtag ("fr-FR" -> "fr").
+ */
+function toLanguageCode(value?: string | null): string | null {
+    if (!value) return null;
+    const code = value.trim().toLowerCase().split(/[-_]/)[0];
+    return code || null;
+}
+
+export class FeedDiscoveryService {
+    /**
+     * Finds the feeds published by a website.
+     * The URL itself is tried first, then the `<link rel="alternate">` declarations
+     * of the page, then well-known feed paths. Every candidate is fetched and parsed,
+     * so only working feeds are returned.
+     *
+     * @param {string} input - A homepage or feed URL (scheme optional).
+     * @returns {Promise<FeedCandidate[]>} Valid feeds, declared ones first.
+     * @throws {AppError} 400 on an invalid URL or a non-public host, 502 if the page cannot be fetched.
+     */
+    public static async discover(input: string): Promise<FeedCandidate[]> {
+        const pageUrl = normalizeInputUrl(input);
+
+        let page: FetchedDocument;
+        try {
+            page = await this.fetchDocument(pageUrl);
+        } catch (error) {
+            if (error instanceof AppError) throw error;
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new AppError(`Could not fetch ${pageUrl}: ${reason}`, 502);
+        }
+
+        if (!page.contentType.includes('html')) {
+            const direct = await this.parseCandidate(page, 'direct', null);
+            if (direct) return [direct];
+        }
+
+        const $ = cheerio.load(page.body);
+        const pageLanguage = toLanguageCode($('html').attr('lang'));
+
+        const declared = this.extractDeclaredFeeds($, page.url);
+        const found = await this.validateCandidates(declared, 'link', pageLanguage);
+        if (found.length > 0) return found;
+
+        const guessed = COMMON_FEED_PATHS.map(feedPath => new URL(feedPath, page.url).href);
+        return this.validateCandidates(guessed, 'guess', pageLanguage);
+    }
+
+    /**
+     * Reads feed URLs from `<link rel="alternate">` tags, resolved against the page URL.
+     */
+    private static extractDeclaredFeeds($: cheerio.CheerioAPI, baseUrl: string): string[] {
+        const urls = new Set<string>();
+        $('link[rel~="alternate"][href]').each((_index, element) => {
+            const type = ($(element).attr('type') || '').toLowerCase();
+            if (!FEED_LINK_TYPES.includes(type)) return;
+            try {
+                urls.add(new URL($(element).attr('href')!, baseUrl).href);
+            } catch {
+                // Ignore malformed hrefs
+            }
+        });
+        return Array.from(urls).slice(0, MAX_CANDIDATES);
+    }
+
+    private static async validateCandidates(
+        urls: string[],
+        discoveredVia: FeedCandidate['discoveredVia'],
+        pageLanguage: string | null
+    ): Promise<FeedCandidate[]> {
+        const results = await Promise.all(urls.map(async (url) => {
+            try {
+                const document = await this.fetchDocument(url);
+                return await this.parseCandidate(document, discoveredVia, pageLanguage);
+            } catch {
+                return null;
+            }
+        }));
+
+        // Several paths can redirect to the same feed
+        const unique = new Map<string, FeedCandidate>();
+        for (const candidate of results) {
+            if (candidate && !unique.has(candidate.url)) unique.set(candidate.url, candidate);
+        }
+        return Array.from(unique.values());
+    }
+
+    private static async parseCandidate(
+        document: FetchedDocument,
+        discoveredVia: FeedCandidate['discoveredVia'],
+        pageLanguage: string | null
+    ): Promise<FeedCandidate | null> {
+        try {
+            const feed = await RssService.parseFeed(document.body, document.contentType);
+            return {
+                url: document.url,
+                title: feed.title,
+                format: feed.format,
+                language: toLanguageCode(feed.language) ?? pageLanguage,
+                itemCount: feed.items.length,
+                sample: feed.items.slice(0, SAMPLE_SIZE).map(item => ({
+                    title: item.title ?? null,
+                    link: item.link ?? null,
+                    publicationDate: item.isoDate ?? item.pubDate ?? null
+                })),
+                discoveredVia
+            };
+        } catch (error) {
+            logger.debug(`🔎 Not a feed: ${document.url}`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Fetches a page or feed given by the user; internal addresses are refused (SSRF),
+     * including as redirect targets and on every candidate URL found in the page.
+     */
+    private static async fetchDocument(url: string): Promise<FetchedDocument> {
+        // Redirects are followed so the stored URL is the final feed location
+        const { response, url: finalUrl } = await fetchPublicUrl<string>(url, {
+            timeout: FEED_TIMEOUT_MS,
+            headers: { ...FEED_HEADERS, 'Accept': `text/html;q=0.9, ${FEED_HEADERS.Accept}` },
+            responseType: 'text'
+        });
+
+        return {
+            url: finalUrl,
+            body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+            contentType: String(response.headers['content-type'] || '').toLowerCase()
+        };
+    }
+}
@@ -0,0 +1,92 @@
+// src/services/feedOutputService.ts
+import { RssRepository, FetchOptions } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import {
+    buildAtomFeed,
+    buildJsonFeed,
+    buildRssFeed,
+    FeedOutputChannel,
+    FeedOutputFormat,
+    FeedOutputItem
+} from '@/utils/feedOutput';
+
+export interface FeedOutputRequest {
+    options: FetchOptions;
+    limit: number;
+    homeUrl: string;
+    selfUrl: string;
+}
+
+export interface RenderedFeed {
+    contentType: string;
+    body: string;
+}
+
+const CONTENT_TYPES: Record<FeedOutputFormat, string> = {
+    rss: 'application/rss+xml; charset=utf-8',
+    atom: 'application/atom+xml; charset=utf-8',
+    json: 'application/feed+json; charset=utf-8'
+};
+
+function validDate(value?: string | null): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function publishedAt(article: ProcessedArticleData): string {
+    return validDate(article.publicationDate) || validDate(article.fetchedAt) || new Date().toISOString();
+}
+
+function attribution(article: ProcessedArticleData): Pick<FeedOutputItem, 'author' | 'sourceName' | 'sourceUrl'> {
+    return {
+        author: article.author || null,
+        sourceName: article.feedName || null,
+        sourceUrl: article.sourceFeed || null
+    };
+}
+
+function toFeedItem(article: ProcessedArticleData): FeedOutputItem {
+    const link = article.canonicalLink || article.link;
+    return {
+        id: link || article._id!.toString(),
+        title: article.title,
+        link,
+        summary: article.analysis?.iaSummary || article.summary || null,
+        sentiment: article.analysis?.sentiment || null,
+        categories: article.category ? [article.category] : [],
+        publishedAt: publishedAt(article),
+        ...attribution(article)
+    };
+}
+
+/**
+ * Names the channel after its filters, e.g. "Kognit · Tech · bullish".
+ */
+function describeFilters(options: FetchOptions): string {
+    const filters = [options.category, options.feedName, options.sentiment, options.language, options.search && `"${options.search}"`];
+    return ['Kognit', ...filters.filter(Boolean)].join(' · ');
+}
+
+/**
+ * Republishes a filtered view of the articles as RSS 2.0, Atom 1.0 or JSON Feed 1.1.
+ */
+export class FeedOutputService {
+    public static async render(format: FeedOutputFormat, request: FeedOutputRequest): Promise<RenderedFeed> {
+        const { articles } = await RssRepository.fetchAll({ ...request.options, page: 1, limit: request.limit });
+        const items = articles.map(toFeedItem);
+
+        const channel: FeedOutputChannel = {
+            title: describeFilters(request.options),
+            description: 'Articles aggregated and analysed by Kognit',
+            homeUrl: request.homeUrl,
+            selfUrl: request.selfUrl,
+            updatedAt: items[0]?.publishedAt || new Date().toISOString()
+        };
+
+        const body = format === 'json'
+            ? JSON.stringify(buildJsonFeed(channel, items), null, 2)
+            : (format === 'atom' ? buildAtomFeed : buildRssFeed)(channel, items);
+        return { contentType: CONTENT_TYPES[format], body };
+    }
+}
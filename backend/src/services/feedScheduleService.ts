@@ -0,0 +1,72 @@
+// src/services/feedScheduleService.ts
+import { SourceRepository, SourceConfig } from '@/repositories/sourceRepository';
+import { rssConfig } from '@/config/rssConfig';
+import logger from '@/utils/logger';
+
+/** Tolerance so a source due "now" is not pushed back by cron tick jitter. */
+const DUE_TOLERANCE_MS = 30 * 1000;
+
+/** Minimum number of dated items required to learn a publishing rhythm. */
+const MIN_SAMPLES = 3;
+
+type ScheduledSource = Pick<SourceConfig, 'refreshIntervalMinutes' | 'learnedIntervalMinutes' | 'lastFetchedAt'>;
+
+export class FeedScheduleService {
+    /**
+     * Resolves the polling interval of a source, in minutes.
+     * An explicit interval wins, then the learned one, then the global default.
+     */
+    public static getIntervalMinutes(source: ScheduledSource): number {
+        if (source.refreshIntervalMinutes && source.refreshIntervalMinutes > 0) {
+            return source.refreshIntervalMinutes;
+        }
+        if (source.learnedIntervalMinutes && source.learnedIntervalMinutes > 0) {
+            return source.learnedIntervalMinutes;
+        }
+        return rssConfig.defaultRefreshMinutes;
+    }
+
+    /**
+     * Returns true when the source has never been fetched or its interval has elapsed.
+     */
+    public static isDue(source: ScheduledSource, now: Date = new Date()): boolean {
+        if (!source.lastFetchedAt) return true;
+        const elapsed = now.getTime() - new Date(source.lastFetchedAt).getTime();
+        return elapsed + DUE_TOLERANCE_MS >= this.getIntervalMinutes(source) * 60 * 1000;
+    }
+
+    /**
+     * Learns a polling interval from the observed publication dates of a feed:
+     * the median gap between consecutive items, clamped to the configured bounds.
+     * Returns null when there are not enough dated items.
+     */
+    public static learnInterval(publicationDates: (string | null | undefined)[]): number | null {
+        const timestamps = publicationDates
+            .map(date => (date ? new Date(date).getTime() : NaN))
+            .filter(time => !isNaN(time))
+            .sort((a, b) => b - a);
+
+        if (timestamps.length < MIN_SAMPLES) return null;
+
+        const gaps: number[] = [];
+        for (let i = 1; i < timestamps.length; i++) {
+            gaps.push(timestamps[i - 1] - timestamps[i]);
+        }
+        gaps.sort((a, b) => a - b);
+
+        const median = gaps[Math.floor(gaps.length / 2)];
+        const minutes = Math.round(median / 60000);
+        return Math.min(Math.max(minutes, rssConfig.minRefreshMinutes), rssConfig.maxRefreshMinutes);
+    }
+
+    /**
+     * Records a fetch attempt so the scheduler knows when the source is next due.
+     */
+    public static async recordFetch(name: string, learnedIntervalMinutes?: number | null): Promise<void> {
+        try {
+            await SourceRepository.updateSchedule(name, new Date().toISOString(), learnedIntervalMinutes);
+        } catch (error) {
+            logger.debug(`⚠️ Could not record fetch schedule for ${name}:`, error);
+        }
+    }
+}
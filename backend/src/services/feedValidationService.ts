@@ -0,0 +1,165 @@
+// src/services/feedValidationService.ts
+import { RssService, RssItem, ParsedFeed, FEED_HEADERS, FEED_TIMEOUT_MS } from './rssService';
+import { fetchPublicUrl } from '@/utils/publicHttp';
+import { detectLanguage } from '@/utils/languageDetection';
+
+/** Below these ratios, the report carries a warning rather than an error. */
+const MIN_DATE_COVERAGE = 0.5;
+const MIN_IMAGE_COVERAGE = 0.3;
+
+/** Feeds whose newest item is older than this are reported as stale. */
+const STALE_AFTER_DAYS = 30;
+
+export interface FeedValidationReport {
+    url: string;
+    ok: boolean;
+    httpStatus: number | null;
+    contentType: string | null;
+    error: string | null;
+    format: ParsedFeed['format'] | null;
+    title: string | null;
+    itemCount: number;
+    dateCoverage: number; // Share of items with a publication date (0-1)
+    newestItemAt: string | null;
+    oldestItemAt: string | null;
+    imageCoverage: number; // Share of items with an image (0-1)
+    language: string | null;
+    languageSource: 'declared' | 'guessed' | null;
+    warnings: string[];
+}
+
+function emptyReport(url: string): FeedValidationReport {
+    return {
+        url,
+        ok: false,
+        httpStatus: null,
+        contentType: null,
+        error: null,
+        format: null,
+        title: null,
+        itemCount: 0,
+        dateCoverage: 0,
+        newestItemAt: null,
+        oldestItemAt: null,
+        imageCoverage: 0,
+        language: null,
+        languageSource: null,
+        warnings: []
+    };
+}
+
+function ratio(count: number, total: number): number {
+    return total === 0 ? 0 : Number((count / total).toFixed(2));
+}
+
+export class FeedValidationService {
+    /**
+     * Fetches and parses a feed, then reports what the ingestion pipeline would get out of it.
+     * A report with `ok: false` carries a blocking `error` (network, HTTP status, parse error
+     * or empty feed); `warnings` list non-blocking quality issues.
+     *
+     * @param {string} url - The feed URL to check.
+     * @returns {Promise<FeedValidationReport>} The diagnostics, never throws.
+     */
+    public static async validate(url: string): Promise<FeedValidationReport> {
+        const report = emptyReport(url);
+
+        let body: string;
+        try {
+            const { response } = await fetchPublicUrl<string>(url, {
+                timeout: FEED_TIMEOUT_MS,
+                headers: FEED_HEADERS,
+                responseType: 'text',
+                validateStatus: () => true
+            });
+            report.httpStatus = response.status;
+            report.contentType = response.headers['content-type'] ? String(response.headers['content-type']) : null;
+            body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+        } catch (error) {
+            report.error = `Request failed: ${error instanceof Error ? error.message : String(error)}`;
+            return report;
+        }
+
+        if (report.httpStatus < 200 || report.httpStatus >= 300) {
+            report.error = `HTTP ${report.httpStatus}`;
+            return report;
+        }
+
+        let feed: ParsedFeed;
+        try {
+            feed = await RssService.parseFeed(body, report.contentType ?? undefined);
+        } catch (error) {
+            report.error = `Parse error: ${error instanceof Error ? error.message : String(error)}`;
+            return report;
+        }
+
+        return this.inspectFeed(report, feed);
+    }
+
+    /**
+     * Fills the content statistics of a report from a parsed feed.
+     */
+    public static inspectFeed(report: FeedValidationReport, feed: ParsedFeed, now: Date = new Date()): FeedValidationReport {
+        const items = feed.items;
+        report.format = feed.format;
+        report.title = feed.title;
+        report.itemCount = items.length;
+
+        if (items.length === 0) {
+            report.error = 'The feed contains no items';
+            return report;
+        }
+
+        const timestamps = items
+            .map(item => RssService.extractDates(item))
+            .map(date => (date ? new Date(date).getTime() : NaN))
+            .filter(time => !isNaN(time))
+            .sort((a, b) => a - b);
+
+        report.dateCoverage = ratio(timestamps.length, items.length);
+        report.oldestItemAt = timestamps.length > 0 ? new Date(timestamps[0]).toISOString() : null;
+        report.newestItemAt = timestamps.length > 0 ? new Date(timestamps[timestamps.length - 1]).toISOString() : null;
+        report.imageCoverage = ratio(items.filter(item => RssService.extractImageUrl(item)).length, items.length);
+
+        this.resolveLanguage(report, feed);
+        report.warnings = this.collectWarnings(report, now);
+        report.ok = true;
+        return report;
+    }
+
+    private static resolveLanguage(report: FeedValidationReport, feed: ParsedFeed): void {
+        const declared = feed.language?.trim().toLowerCase().split(/[-_]/)[0];
+        if (declared) {
+            report.language = declared;
+            report.languageSource = 'declared';
+            return;
+        }
+        report.language = this.guessLanguage(feed.items);
+        report.languageSource = report.language ? 'guessed' : null;
+    }
+
+    /**
+     * Guesses the language of a feed from the titles and summaries of its items.
+     */
+    public static guessLanguage(items: RssItem[]): string | null {
+        const text = items.map(item => `${item.title ?? ''}. ${item.contentSnippet ?? ''}`).join(' ');
+        return detectLanguage(text)?.language ?? null;
+    }
+
+    private static collectWarnings(report: FeedValidationReport, now: Date): string[] {
+        const warnings: string[] = [];
+        if (report.dateCoverage < MIN_DATE_COVERAGE) {
+            warnings.push(`Only ${Math.round(report.dateCoverage * 100)}% of items have a publication date`);
+        }
+        if (report.imageCoverage < MIN_IMAGE_COVERAGE) {
+            warnings.push(`Only ${Math.round(report.imageCoverage * 100)}% of items have an image (pages will be scraped)`);
+        }
+        if (report.newestItemAt && now.getTime() - new Date(report.newestItemAt).getTime() > STALE_AFTER_DAYS * 86400000) {
+            warnings.push(`No new item for more than ${STALE_AFTER_DAYS} days`);
+        }
+        if (!report.language) {
+            warnings.push('Language could not be determined');
+        }
+        return warnings;
+    }
+}
@@ -0,0 +1,146 @@
+// src/services/jobQueueService.ts
+import { JobRepository } from '@/repositories/jobRepository';
+import { RssRepository } from '@/repositories/rssRepository';
+import { jobConfig, JOB_PRIORITY } from '@/config/jobConfig';
+import { Job, JobType } from '@/types/job';
+import { ProcessedArticleData } from '@/types/rss';
+import logger from '@/utils/logger';
+
+/** Articles published within this window feed the daily briefing. */
+const BRIEFING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export class JobQueueService {
+    /**
+     * Computes the priority of an article: bookmarked first, then recent (briefing-bound) ones.
+     */
+    public static getPriority(article: Pick<ProcessedArticleData, 'isBookmarked' | 'publicationDate'>, now: Date = new Date()): number {
+        if (article.isBookmarked) return JOB_PRIORITY.BOOKMARKED;
+        const published = article.publicationDate ? new Date(article.publicationDate).getTime() : NaN;
+        if (!isNaN(published) && now.getTime() - published <= BRIEFING_WINDOW_MS) return JOB_PRIORITY.RECENT;
+        return JOB_PRIORITY.DEFAULT;
+    }
+
+    /**
+     * Queues the AI analysis (fast path) of an article.
+     */
+    public static async enqueueAnalysis(article: ProcessedArticleData): Promise<boolean> {
+        if (!article._id) return false;
+        return this.enqueue('analysis', article._id.toString(), this.getPriority(article));
+    }
+
+    /**
+     * Queues a job. Failures are logged and never break ingestion: the worker
+     * also back-fills pending articles on startup.
+     */
+    public static async enqueue(type: JobType, articleId: string, priority: number = JOB_PRIORITY.DEFAULT): Promise<boolean> {
+        try {
+            return await JobRepository.enqueue(type, articleId, priority, jobConfig.maxAttempts);
+        } catch (error) {
+            logger.error(`❌ Could not enqueue ${type} job for article ${articleId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Queues a job, reopening it if an earlier one already completed: `enqueue` alone
+     * keeps a done job as is, so the work would never run again.
+     */
+    public static async requeue(type: JobType, articleId: string, priority: number = JOB_PRIORITY.DEFAULT): Promise<boolean> {
+        try {
+            if (await JobRepository.reopen(type, articleId, priority, jobConfig.maxAttempts)) return true;
+            return await JobRepository.enqueue(type, articleId, priority, jobConfig.maxAttempts);
+        } catch (error) {
+            logger.error(`❌ Could not requeue ${type} job for article ${articleId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Moves the pending jobs of an article to the front of the queue (e.g. after a bookmark).
+     */
+    public static async prioritize(articleId: string, priority: number = JOB_PRIORITY.BOOKMARKED): Promise<void> {
+        try {
+            await JobRepository.raisePriority(articleId, priority);
+        } catch (error) {
+            logger.debug(`⚠️ Could not raise job priority for article ${articleId}:`, error);
+        }
+    }
+
+    /**
+     * Queues an analysis job for pending articles that have none (articles stored
+     * before the queue existed, or whose enqueue failed).
+     *
+     * @returns {Promise<number>} The number of jobs created.
+     */
+    public static async backfillPending(limit: number = 500): Promise<number> {
+        const pending = await RssRepository.findPendingAnalysis(limit);
+        let created = 0;
+        for (const article of pending) {
+            if (await this.enqueueAnalysis(article)) created++;
+        }
+        if (created > 0) logger.info(`📥 Queued ${created} pending article(s) for analysis`);
+        return created;
+    }
+
+    /**
+     * Claims the next runnable job of the given types. Expired jobs without attempts
+     * left are dead-lettered first instead of being reclaimed.
+     */
+    public static async claimNext(workerId: string, types: JobType[]): Promise<Job | null> {
+        const dead = await JobRepository.deadLetterExpired(types);
+        if (dead > 0) {
+            logger.warn(`🪦 ${dead} ${types.join('/')} job(s) dead-lettered: lease expired on their last attempt`);
+        }
+        return JobRepository.claimNext(workerId, types, jobConfig.leaseMs);
+    }
+
+    /**
+     * Computes the delay before the next attempt: doubles with each attempt, capped.
+     */
+    public static getRetryDelayMs(attempts: number): number {
+        return Math.min(jobConfig.retryBaseMs * Math.pow(2, Math.max(attempts - 1, 0)), jobConfig.retryMaxMs);
+    }
+
+    public static async complete(job: Job): Promise<void> {
+        if (!(await JobRepository.complete(job._id!, job.workerId!))) this.logLostLease(job);
+    }
+
+    /**
+     * Postpones a job that cannot run yet (e.g. a spent quota); the attempt is not counted.
+     */
+    public static async defer(job: Job, reason: string, until: Date): Promise<void> {
+        if (!(await JobRepository.defer(job._id!, job.workerId!, reason, until.toISOString()))) {
+            this.logLostLease(job);
+            return;
+        }
+        logger.info(`⏸️ Job ${job.type} for article ${job.articleId} deferred until ${until.toISOString()}: ${reason}`);
+    }
+
+    /**
+     * Records a failed attempt, scheduling a retry with backoff or dead-lettering the job
+     * once `maxAttempts` is reached.
+     *
+     * @returns {Promise<boolean>} True if the job was dead-lettered (false if the worker lost it).
+     */
+    public static async fail(job: Job, error: unknown, now: Date = new Date()): Promise<boolean> {
+        const message = error instanceof Error ? error.message : String(error);
+        const dead = job.attempts >= job.maxAttempts;
+        const retryAt = dead ? null : new Date(now.getTime() + this.getRetryDelayMs(job.attempts)).toISOString();
+
+        if (!(await JobRepository.fail(job._id!, job.workerId!, message, retryAt))) {
+            this.logLostLease(job);
+            return false;
+        }
+        if (dead) {
+            logger.warn(`🪦 Job ${job.type} for article ${job.articleId} dead-lettered after ${job.attempts} attempts: ${message}`);
+        }
+        return dead;
+    }
+
+    /**
+     * The outcome of a job reclaimed by another worker after its lease expired is dropped.
+     */
+    private static logLostLease(job: Job): void {
+        logger.warn(`⌛ Job ${job.type} for article ${job.articleId} was reclaimed after its lease expired; ignoring the outcome of ${job.workerId}`);
+    }
+}
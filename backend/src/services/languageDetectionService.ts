@@ -0,0 +1,77 @@
+// src/services/languageDetectionService.ts
+import { RssRepository } from '@/repositories/rssRepository';
+import { SourceRepository, SourceConfig, SourceLanguageMismatch } from '@/repositories/sourceRepository';
+import { languageDetectionConfig } from '@/config/rssConfig';
+import { ProcessedArticleData } from '@/types/rss';
+import { detectLanguage } from '@/utils/languageDetection';
+import logger from '@/utils/logger';
+
+export type ArticleLanguage = Pick<ProcessedArticleData, 'language' | 'detectedLanguage' | 'languageConfidence'>;
+
+/**
+ * Per-article language identification, and audit of the languages configured on sources.
+ */
+export class LanguageDetectionService {
+    /**
+     * Identifies the language of an article text. The source language is kept when
+     * the detection is not confident enough (short or ambiguous texts).
+     */
+    public static detect(text: string, sourceLanguage: string): ArticleLanguage {
+        const guess = detectLanguage(text);
+        const confident = guess !== null && guess.confidence >= languageDetectionConfig.minConfidence;
+        return {
+            language: confident ? guess.language : sourceLanguage,
+            detectedLanguage: guess?.language ?? null,
+            languageConfidence: guess?.confidence ?? null
+        };
+    }
+
+    /**
+     * Flags the sources whose recent articles are mostly in another language than the
+     * configured one, and clears the flag of the others.
+     *
+     * @returns {Promise<string[]>} Names of the flagged sources.
+     */
+    public static async auditSources(now: Date = new Date()): Promise<string[]> {
+        const since = new Date(now.getTime() - languageDetectionConfig.auditWindowDays * 86400000).toISOString();
+        const [rows, sources] = await Promise.all([
+            RssRepository.countDetectedLanguages(since, languageDetectionConfig.minConfidence),
+            SourceRepository.getAllSources()
+        ]);
+
+        const flagged: string[] = [];
+        for (const source of sources) {
+            const counts = rows.filter(row => row.feedName === source.name);
+            const mismatch = this.findMismatch(source, counts, now);
+            if (mismatch) {
+                flagged.push(source.name);
+                logger.warn(`🈯 Source "${source.name}" is set to ${source.language || 'en'} but ${Math.round(mismatch.share * 100)}% of its articles are in ${mismatch.detectedLanguage}`);
+            }
+            if (mismatch || source.languageMismatch) await SourceRepository.updateSource(source.name, { languageMismatch: mismatch });
+        }
+        return flagged;
+    }
+
+    /**
+     * A source disagrees when less than half of enough audited articles are in its language.
+     */
+    public static findMismatch(
+        source: Pick<SourceConfig, 'language'>,
+        counts: { language: string; count: number }[],
+        now: Date = new Date()
+    ): SourceLanguageMismatch | null {
+        const total = counts.reduce((sum, row) => sum + row.count, 0);
+        if (total < languageDetectionConfig.auditMinArticles) return null;
+
+        const configured = counts.find(row => row.language === (source.language || 'en'))?.count ?? 0;
+        if (configured / total >= 0.5) return null;
+
+        const top = counts.reduce((best, row) => (row.count > best.count ? row : best));
+        return {
+            detectedLanguage: top.language,
+            share: Number((top.count / total).toFixed(2)),
+            sampleSize: total,
+            checkedAt: now.toISOString()
+        };
+    }
+}
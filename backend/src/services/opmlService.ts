@@ -0,0 +1,135 @@
+// src/services/opmlService.ts
+import { SourceRepository, SourceConfig } from '@/repositories/sourceRepository';
+import { buildOpml, parseOpml, OpmlFeed } from '@/utils/opml';
+import { AppError } from '@/utils/errorHandler';
+import logger from '@/utils/logger';
+
+export interface OpmlDuplicate {
+    name: string;
+    url: string;
+    reason: 'name' | 'url';
+    existing: string; // Name of the source it collides with
+}
+
+export interface OpmlImportReport {
+    dryRun: boolean;
+    total: number;
+    toCreate: SourceConfig[];
+    duplicates: OpmlDuplicate[];
+    created: number;
+}
+
+/**
+ * Normalizes a feed URL for duplicate detection (scheme, case, trailing slash).
+ */
+function normalizeFeedUrl(url: string): string {
+    return url
+        .trim()
+        .toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/\/+$/, '');
+}
+
+/**
+ * Builds a new source from an imported feed, filling in the catalogue defaults.
+ */
+function toSourceConfig(feed: OpmlFeed): SourceConfig {
+    return {
+        name: feed.name,
+        url: feed.url,
+        category: feed.category,
+        language: feed.language || 'en',
+        enabled: feed.enabled !== false,
+        color: feed.color || '#6366f1',
+        maxArticles: feed.maxArticles || 20
+    };
+}
+
+export class OpmlService {
+    /**
+     * Exports the whole source catalogue as an OPML document.
+     */
+    public static async exportSources(): Promise<string> {
+        await SourceRepository.initializeSources();
+        const sources = await SourceRepository.getAllSources();
+
+        const feeds: OpmlFeed[] = sources
+            .filter(source => !!source.url)
+            .map(source => ({
+                name: source.name,
+                url: source.url!,
+                category: source.category,
+                language: source.language,
+                color: source.color,
+                maxArticles: source.maxArticles,
+                enabled: source.enabled
+            }));
+
+        return buildOpml(feeds);
+    }
+
+    /**
+     * Imports sources from an OPML document.
+     * Feeds whose name or URL already exists (in the catalogue or earlier in the
+     * same document) are reported as duplicates and skipped.
+     * With `dryRun`, nothing is written and the report acts as a preview.
+     *
+     * @throws {AppError} 400 if the document is not valid OPML.
+     */
+    public static async importSources(xml: string, dryRun: boolean = false): Promise<OpmlImportReport> {
+        let feeds: OpmlFeed[];
+        try {
+            feeds = parseOpml(xml);
+        } catch (parseError) {
+            throw new AppError(parseError instanceof Error ? parseError.message : 'Invalid OPML document', 400);
+        }
+        const existing = await SourceRepository.getAllSources();
+
+        const { toCreate, duplicates } = this.planImport(feeds, existing);
+
+        let created = 0;
+        if (!dryRun && toCreate.length > 0) {
+            created = await SourceRepository.addSources(toCreate);
+            logger.info(`📥 OPML import: ${created} sources created, ${duplicates.length} duplicates skipped`);
+        }
+
+        return { dryRun, total: feeds.length, toCreate, duplicates, created };
+    }
+
+    /**
+     * Splits imported feeds into new sources and duplicates.
+     */
+    public static planImport(feeds: OpmlFeed[], existing: SourceConfig[]): { toCreate: SourceConfig[]; duplicates: OpmlDuplicate[] } {
+        const byName = new Map<string, string>();
+        const byUrl = new Map<string, string>();
+        for (const source of existing) {
+            byName.set(source.name.toLowerCase(), source.name);
+            if (source.url) byUrl.set(normalizeFeedUrl(source.url), source.name);
+        }
+
+        const toCreate: SourceConfig[] = [];
+        const duplicates: OpmlDuplicate[] = [];
+
+        for (const feed of feeds) {
+            const nameMatch = byName.get(feed.name.toLowerCase());
+            const urlMatch = byUrl.get(normalizeFeedUrl(feed.url));
+
+            if (nameMatch || urlMatch) {
+                duplicates.push({
+                    name: feed.name,
+                    url: feed.url,
+                    reason: nameMatch ? 'name' : 'url',
+                    existing: (nameMatch || urlMatch)!
+                });
+                continue;
+            }
+
+            byName.set(feed.name.toLowerCase(), feed.name);
+            byUrl.set(normalizeFeedUrl(feed.url), feed.name);
+            toCreate.push(toSourceConfig(feed));
+        }
+
+        return { toCreate, duplicates };
+    }
+}
@@ -0,0 +1,66 @@
+// src/services/rateLimitService.ts
+import { BucketPolicy } from '@/config/rateLimitConfig';
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+    policy: BucketPolicy;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * In-memory token buckets, one per client and route tier.
+ */
+export class RateLimitService {
+    private static buckets = new Map<string, Bucket>();
+
+    /**
+     * Takes one token from a bucket, refilled for the time elapsed since its last use.
+     */
+    public static consume(bucketId: string, policy: BucketPolicy, now: number = Date.now()): RateLimitDecision {
+        const bucket = this.refill(this.buckets.get(bucketId), policy, now);
+        const allowed = bucket.tokens >= 1;
+        if (allowed) bucket.tokens -= 1;
+        this.buckets.set(bucketId, bucket);
+
+        const msPerToken = 60000 / policy.refillPerMinute;
+        return {
+            allowed,
+            limit: policy.capacity,
+            remaining: Math.floor(bucket.tokens),
+            retryAfterSeconds: allowed ? 0 : Math.ceil(((1 - bucket.tokens) * msPerToken) / 1000)
+        };
+    }
+
+    /**
+     * Drops the buckets that have refilled completely: they are equivalent to new ones.
+     *
+     * @returns {number} Number of buckets dropped.
+     */
+    public static prune(now: number = Date.now()): number {
+        let pruned = 0;
+        for (const [bucketId, bucket] of this.buckets) {
+            if (this.refill(bucket, bucket.policy, now).tokens >= bucket.policy.capacity) {
+                this.buckets.delete(bucketId);
+                pruned++;
+            }
+        }
+        return pruned;
+    }
+
+    public static reset(): void {
+        this.buckets.clear();
+    }
+
+    private static refill(bucket: Bucket | undefined, policy: BucketPolicy, now: number): Bucket {
+        if (!bucket) return { tokens: policy.capacity, updatedAt: now, policy };
+        const refilled = ((now - bucket.updatedAt) / 60000) * policy.refillPerMinute;
+        return { tokens: Math.min(policy.capacity, bucket.tokens + refilled), updatedAt: now, policy };
+    }
+}
@@ -1,21 +1,25 @@
 import Parser from 'rss-parser';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
-import { fork, ChildProcess } from 'child_process';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import { URL } from 'url';
 import { RssRepository } from '@/repositories/rssRepository';
 import { ProcessedArticleData, RssFeedConfig } from '@/types/rss';
 import { generateSourceColor } from '@/utils/colors';
+import { fetchPublicUrl } from '@/utils/publicHttp';
+import { canonicalizeUrl, guidAsUrl } from '@/utils/canonicalUrl';
+import { isJsonFeedResponse, parseJsonFeed, getJsonFeedAuthors, JsonFeedItem } from '@/utils/jsonFeed';
 import logger from '@/utils/logger';
 import { SourceRepository } from '@/repositories/sourceRepository';
 import { ClusteringService } from './clusteringService';
-
-// ESM compatibility for __filename and __dirname
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-interface RssItem {
+import { SourceHealthService } from './sourceHealthService';
+import { FeedScheduleService } from './feedScheduleService';
+import { JobQueueService } from './jobQueueService';
+import { WorkerPoolService } from './workerPoolService';
+import { ArticleEventService } from './articleEventService';
+import { WebhookService } from './webhookService';
+import { LanguageDetectionService } from './languageDetectionService';
+
+export interface RssItem {
     title?: string;
     link?: string;
     contentSnippet?: string;
@@ -32,15 +36,48 @@ interface RssItem {
     description?: string;
     'dc:subject'?: string;
     image?: { url: string } | string;
+    guid?: string;
+}
+
+export const FEED_TIMEOUT_MS = 20000;
+export const FEED_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, text/xml;q=0.8, application/json;q=0.7'
+};
+
+/**
+ * Outcome of a single feed fetch, used to build the sync statistics.
+ */
+export interface FeedFetchResult {
+    newArticles: number;
+    notModified: boolean;
+    learnedIntervalMinutes?: number | null;
+}
+
+/**
+ * A parsed feed document, whatever its wire format.
+ */
+export interface ParsedFeed {
+    format: 'rss' | 'atom' | 'json';
+    title: string | null;
+    language: string | null;
+    items: RssItem[];
+}
+
+/**
+ * Result of a synchronization run.
+ */
+export interface SyncResult {
+    processed: number;
+    errors: number;
+    notModified: number;
 }
 
 const parser = new Parser({
-    timeout: 20000,
-    headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'application/rss+xml, application/xml;q=0.9, text/xml;q=0.8'
-    },
+    timeout: FEED_TIMEOUT_MS,
+    headers: FEED_HEADERS,
     customFields: {
+        feed: ['language'],
         item: [
             ['content:encoded', 'content:encoded'],
             ['dc:subject', 'dc:subject'],
@@ -54,49 +91,50 @@ const parser = new Parser({
 });
 
 export class RssService {
-    private static aiProcess: ChildProcess | null = null;
+    private static isSyncing = false;
 
     /**
-     * Orchestrates the fetching and processing of all enabled RSS feeds from configuration.
-     * This process is optimized with batching and background AI analysis (via child process).
+     * Orchestrates the fetching and processing of enabled RSS feeds.
+     * This process is optimized with batching and background AI analysis (queued jobs run by a child process).
      * 
-     * @returns {Promise<{ processed: number; errors: number }>} Counts of processed articles and errors.
+     * @param {{ onlyDue?: boolean }} options - When `onlyDue` is set, only sources whose polling interval elapsed are fetched.
+     * @returns {Promise<SyncResult>} Counts of processed articles, errors and unchanged feeds.
      */
-    public static async processAllFeeds(): Promise<{ processed: number; errors: number }> {
-        const start = Date.now();
-        logger.info('🚀 Starting RSS synchronization...');
-
-        const enabledSourcesByCategory = await SourceRepository.getEnabledSources();
-        const allFeeds: { feed: RssFeedConfig; category: string }[] = [];
+    public static async processAllFeeds(options: { onlyDue?: boolean } = {}): Promise<SyncResult> {
+        if (this.isSyncing) {
+            logger.info('⏭️ RSS synchronization already running, skipping this run.');
+            return { processed: 0, errors: 0, notModified: 0 };
+        }
 
-        for (const [category, sources] of Object.entries(enabledSourcesByCategory)) {
-            for (const source of sources) {
-                allFeeds.push({
-                    feed: {
-                        name: source.name,
-                        url: source.url || '',
-                        enabled: source.enabled,
-                        language: source.language as 'en' | 'fr' | 'es' | 'de' | 'pt' | 'ar' | 'zh' | 'ja',
-                        color: source.color,
-                        maxArticles: source.maxArticles
-                    },
-                    category
-                });
-            }
+        this.isSyncing = true;
+        try {
+            return await this.runSync(options.onlyDue === true);
+        } finally {
+            this.isSyncing = false;
         }
+    }
+
+    private static async runSync(onlyDue: boolean): Promise<SyncResult> {
+        const start = Date.now();
+        const allFeeds = await this.collectEnabledFeeds(onlyDue);
+        if (onlyDue && allFeeds.length === 0) return { processed: 0, errors: 0, notModified: 0 };
+
+        logger.info(`🚀 Starting RSS synchronization (${allFeeds.length} feeds)...`);
 
         let totalNewArticles = 0;
         const failedFeeds: string[] = [];
         let successCount = 0;
+        let notModifiedCount = 0;
 
         const batchSize = 10; // Increased batch size for faster processing
         for (let i = 0; i < allFeeds.length; i += batchSize) {
             const batch = allFeeds.slice(i, i + batchSize);
             const batchPromises = batch.map(async ({ feed, category }) => {
                 try {
-                    const count = await this.fetchFeedOnly(feed, category);
+                    const result = await this.fetchAndTrack(feed, category);
                     successCount++;
-                    return count;
+                    if (result.notModified) notModifiedCount++;
+                    return result.newArticles;
                 } catch (error) {
                     logger.error(`❌ Feed failed: ${feed.name} (${feed.url})`, error);
                     failedFeeds.push(feed.name);
@@ -112,22 +150,72 @@ export class RssService {
         const status = failedFeeds.length === 0 ? '✅' : '⚠️';
         const errorDetail = failedFeeds.length > 0 ? ` (Failed: ${failedFeeds.join(', ')})` : '';
 
-        logger.info(`${status} RSS Sync Complete [${duration}s]: ${totalNewArticles} new articles | ${successCount}/${allFeeds.length} feeds successful${errorDetail}`);
+        logger.info(`${status} RSS Sync Complete [${duration}s]: ${totalNewArticles} new articles | ${successCount}/${allFeeds.length} feeds successful (${notModifiedCount} not modified)${errorDetail}`);
 
         // 2. Start AI Analysis in separate process (Non-blocking)
         this.startBackgroundWorker();
 
-        return { processed: totalNewArticles, errors: failedFeeds.length };
+        const result = { processed: totalNewArticles, errors: failedFeeds.length, notModified: notModifiedCount };
+        ArticleEventService.publish('sync.completed', { sync: result });
+        return result;
     }
 
     /**
-     * Fetches a single RSS feed, parses items, and saves new ones to the database.
-     * Note: This does not trigger AI analysis immediately (saved as pending).
-     * 
-     * @param {RssFeedConfig} feed - The feed target configuration.
-     * @param {string} category - The category associated with this feed.
-     * @returns {Promise<number>} Number of new articles saved.
+     * Fetches a feed and records its health and schedule, whatever the outcome.
      */
+    private static async fetchAndTrack(feed: RssFeedConfig, category: string): Promise<FeedFetchResult> {
+        const fetchStart = Date.now();
+        try {
+            const result = await this.fetchFeedOnly(feed, category);
+            await SourceHealthService.recordSuccess(feed.name, Date.now() - fetchStart, result.newArticles);
+            await FeedScheduleService.recordFetch(feed.name, result.learnedIntervalMinutes);
+            return result;
+        } catch (error) {
+            await SourceHealthService.recordFailure(feed.name, error, Date.now() - fetchStart);
+            await FeedScheduleService.recordFetch(feed.name);
+            throw error;
+        }
+    }
+
+    /**
+     * Flattens the enabled sources of every category into feed targets.
+     * Sources still inside their failure backoff window are skipped, as well as
+     * sources that are not due yet when `onlyDue` is set.
+     */
+    private static async collectEnabledFeeds(onlyDue: boolean = false): Promise<{ feed: RssFeedConfig; category: string }[]> {
+        const enabledSourcesByCategory = await SourceRepository.getEnabledSources();
+        const allFeeds: { feed: RssFeedConfig; category: string }[] = [];
+        const backingOff: string[] = [];
+
+        for (const [category, sources] of Object.entries(enabledSourcesByCategory)) {
+            for (const source of sources) {
+                if (SourceHealthService.isBackingOff(source)) {
+                    backingOff.push(source.name);
+                    continue;
+                }
+                if (onlyDue && !FeedScheduleService.isDue(source)) continue;
+                allFeeds.push({
+                    feed: {
+                        name: source.name,
+                        url: source.url || '',
+                        enabled: source.enabled,
+                        language: source.language as 'en' | 'fr' | 'es' | 'de' | 'pt' | 'ar' | 'zh' | 'ja',
+                        color: source.color,
+                        maxArticles: source.maxArticles,
+                        etag: source.etag,
+                        lastModified: source.lastModified
+                    },
+                    category
+                });
+            }
+        }
+
+        if (backingOff.length > 0) {
+            logger.info(`⏳ Skipping ${backingOff.length} source(s) in backoff: ${backingOff.join(', ')}`);
+        }
+        return allFeeds;
+    }
+
     private static cleanUrl(url?: string): string | null {
         if (!url) return null;
         if (url.startsWith('http%3A') || url.startsWith('https%3A')) {
@@ -136,7 +224,10 @@ export class RssService {
         return url;
     }
 
-    private static extractImageUrl(item: RssItem): string | null {
+    /**
+     * Finds the illustration of an item (enclosure, media tags, image tags, then inline HTML).
+     */
+    public static extractImageUrl(item: RssItem): string | null {
         return this.getFromEnclosure(item) ||
             this.getFromMediaContent(item) ||
             this.getFromMediaThumbnail(item) ||
@@ -202,33 +293,120 @@ export class RssService {
         return null;
     }
 
-    private static async fetchFeedOnly(feed: RssFeedConfig, category: string): Promise<number> {
-        const rssFeed = await parser.parseURL(feed.url);
-        let newCount = 0;
+    /**
+     * Fetches a single feed (RSS/Atom or JSON Feed), parses items, and saves new ones to the database.
+     * Sends the stored ETag/Last-Modified validators so unchanged feeds answer 304.
+     * Note: This does not run AI analysis itself (new articles are queued for the worker).
+     * 
+     * @param {RssFeedConfig} feed - The feed target configuration.
+     * @param {string} category - The category associated with this feed.
+     * @returns {Promise<FeedFetchResult>} Number of new articles saved and whether the feed was unchanged.
+     */
+    private static async fetchFeedOnly(feed: RssFeedConfig, category: string): Promise<FeedFetchResult> {
+        // Sources can come from OPML imports or forced creations: internal addresses are refused here
+        const { response } = await fetchPublicUrl<string>(feed.url, {
+            timeout: FEED_TIMEOUT_MS,
+            headers: { ...FEED_HEADERS, ...this.buildConditionalHeaders(feed) },
+            responseType: 'text',
+            validateStatus: (status) => (status >= 200 && status < 300) || status === 304
+        });
+
+        if (response.status === 304) {
+            logger.debug(`📭 Feed not modified: ${feed.name}`);
+            return { newArticles: 0, notModified: true };
+        }
+
+        const { items: allItems } = await this.parseFeed(response.data, response.headers['content-type']);
 
-        const items = feed.maxArticles ? rssFeed.items.slice(0, feed.maxArticles) : rssFeed.items;
+        let newCount = 0;
+        const items = feed.maxArticles ? allItems.slice(0, feed.maxArticles) : allItems;
 
         for (const item of items) {
             if (await this.processSingleItem(item, feed, category)) {
                 newCount++;
             }
         }
-        return newCount;
+        // Only once every item is stored: a 304 on the next fetch must not skip unprocessed items
+        await this.storeValidators(feed, response.headers);
+        const learnedIntervalMinutes = FeedScheduleService.learnInterval(allItems.map(item => this.extractDates(item)));
+        return { newArticles: newCount, notModified: false, learnedIntervalMinutes };
     }
 
-    private static async processSingleItem(item: RssItem, feed: RssFeedConfig, category: string): Promise<boolean> {
-        if (!item.link || await RssRepository.findByLink(item.link)) {
-            return false;
+    /**
+     * Parses a feed body, detecting JSON Feed from the Content-Type or the body.
+     * JSON Feed items are mapped onto the RSS item shape so the rest of the pipeline is unchanged.
+     *
+     * @throws {Error} If the body is neither a valid XML feed nor a valid JSON Feed.
+     */
+    public static async parseFeed(body: string, contentType?: string): Promise<ParsedFeed> {
+        if (isJsonFeedResponse(contentType, body)) {
+            const jsonFeed = parseJsonFeed(body);
+            return {
+                format: 'json',
+                title: jsonFeed.title || null,
+                language: jsonFeed.language ?? null,
+                items: jsonFeed.items.map(item => this.mapJsonFeedItem(item))
+            };
         }
 
-        const article = this.mapToArticleData(item, feed, category);
+        const rssFeed = await parser.parseString(body);
+        return {
+            format: /<feed[\s>]/.test(body.slice(0, 2000)) ? 'atom' : 'rss',
+            title: rssFeed.title ?? null,
+            language: typeof rssFeed.language === 'string' ? rssFeed.language : null,
+            items: rssFeed.items
+        };
+    }
+
+    private static mapJsonFeedItem(item: JsonFeedItem): RssItem {
+        const authors = getJsonFeedAuthors(item);
+        return {
+            title: item.title,
+            link: item.url ?? item.external_url,
+            guid: item.id,
+            isoDate: item.date_published ?? item.date_modified,
+            creator: authors.length > 0 ? authors.join(', ') : undefined,
+            categories: item.tags,
+            image: item.image ?? item.banner_image,
+            content: item.content_html,
+            contentSnippet: item.summary ?? item.content_text
+        };
+    }
+
+    private static buildConditionalHeaders(feed: RssFeedConfig): Record<string, string> {
+        const headers: Record<string, string> = {};
+        if (feed.etag) headers['If-None-Match'] = feed.etag;
+        if (feed.lastModified) headers['If-Modified-Since'] = feed.lastModified;
+        return headers;
+    }
+
+    /**
+     * Persists the HTTP cache validators returned by the publisher, if they changed.
+     */
+    private static async storeValidators(feed: RssFeedConfig, headers: Record<string, unknown>): Promise<void> {
+        const etag = typeof headers['etag'] === 'string' ? headers['etag'] : null;
+        const lastModified = typeof headers['last-modified'] === 'string' ? headers['last-modified'] : null;
+
+        if (etag === (feed.etag ?? null) && lastModified === (feed.lastModified ?? null)) return;
+
+        try {
+            await SourceRepository.updateFetchValidators(feed.name, etag, lastModified);
+        } catch (error) {
+            logger.debug(`⚠️ Could not store cache validators for ${feed.name}:`, error);
+        }
+    }
+
+    private static async processSingleItem(item: RssItem, feed: RssFeedConfig, category: string): Promise<boolean> {
+        // Items without a link can still be identified by a permalink GUID
+        const link = item.link || guidAsUrl(item.guid);
+        if (!link) return false;
+
+        const article = this.mapToArticleData({ ...item, link }, feed, category);
+        if (await this.mergeIfDuplicate(article, feed)) return false;
 
         // Fallback: If no image found in RSS, try to scrape OG tags (Story 4.5)
-        if (!article.imageUrl && article.link) {
-            article.imageUrl = await this.scrapeImageUrl(article.link);
-            if (article.imageUrl) {
-                article.scrapedContent = true; // Mark that we did some scraping
-            }
+        if (!article.imageUrl && await this.enrichFromPage(article) && await this.mergeIfDuplicate(article, feed)) {
+            return false;
         }
 
         // Semantic Clustering (Story 4.3)
@@ -240,14 +418,73 @@ export class RssService {
             }
         } catch (clusterError) {
             // Log as debug to avoid noise in main logs
-            logger.debug(`⚠️ Clustering failed for article ${item.link}:`, clusterError);
+            logger.debug(`⚠️ Clustering failed for article ${link}:`, clusterError);
+        }
+
+        const saved = await this.saveOrMerge(article, feed);
+        if (saved) void WebhookService.dispatch('article.created', article);
+        return saved;
+    }
+
+    /**
+     * Looks for an already stored copy of the story (same canonical link, link or GUID).
+     * A copy published by another feed is merged into the stored article, so the story
+     * is neither stored nor analyzed twice.
+     *
+     * @returns {Promise<boolean>} True if the article is a duplicate.
+     */
+    private static async mergeIfDuplicate(article: ProcessedArticleData, feed: RssFeedConfig): Promise<boolean> {
+        const existing = await RssRepository.findDuplicate({
+            canonicalLink: article.canonicalLink ?? article.link,
+            link: article.link,
+            guid: article.guid,
+            sourceFeed: article.sourceFeed
+        });
+        if (!existing) return false;
+
+        if (existing._id && existing.feedName !== feed.name) {
+            await RssRepository.mergeDuplicate(existing._id, feed.name, article.link);
+        }
+        return true;
+    }
+
+    /**
+     * Saves a new article and queues its AI analysis; a concurrent insert of the same
+     * story (unique `canonicalLink`) is merged instead.
+     */
+    private static async saveOrMerge(article: ProcessedArticleData, feed: RssFeedConfig): Promise<boolean> {
+        try {
+            article._id = await RssRepository.save(article);
+            await JobQueueService.enqueueAnalysis(article);
+            ArticleEventService.publish('article.created', { article });
+            return true;
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) throw error;
+            await this.mergeIfDuplicate(article, feed);
+            return false;
         }
+    }
 
-        await RssRepository.save(article);
+    /**
+     * Scrapes the article page for an image and its `<link rel="canonical">`.
+     *
+     * @returns {Promise<boolean>} True if the canonical link of the article changed.
+     */
+    private static async enrichFromPage(article: ProcessedArticleData): Promise<boolean> {
+        const page = await this.scrapePageMetadata(article.link);
+        if (page.imageUrl) {
+            article.imageUrl = page.imageUrl;
+            article.scrapedContent = true; // Mark that we did some scraping
+        }
+
+        if (!page.canonicalUrl) return false;
+        const canonicalLink = canonicalizeUrl(page.canonicalUrl);
+        if (canonicalLink === article.canonicalLink) return false;
+        article.canonicalLink = canonicalLink;
         return true;
     }
 
-    private static async scrapeImageUrl(url: string): Promise<string | null> {
+    private static async scrapePageMetadata(url: string): Promise<{ imageUrl: string | null; canonicalUrl: string | null }> {
         try {
             // Using a realistic User-Agent to avoid being blocked
             const { data } = await axios.get(url, {
@@ -259,34 +496,41 @@ export class RssService {
             const $ = cheerio.load(data);
 
             // Try OpenGraph tags first as they are standard for high-quality images
-            const ogImage = $('meta[property="og:image"]').attr('content');
-            if (ogImage) return ogImage;
-
-            const twitterImage = $('meta[name="twitter:image"]').attr('content');
-            if (twitterImage) return twitterImage;
-
-            const imageSrc = $('link[rel="image_src"]').attr('href');
-            if (imageSrc) return imageSrc;
+            const imageUrl = $('meta[property="og:image"]').attr('content') ||
+                $('meta[name="twitter:image"]').attr('content') ||
+                $('link[rel="image_src"]').attr('href') ||
+                null;
+
+            const canonicalHref = $('link[rel="canonical"]').attr('href');
+            let canonicalUrl: string | null = null;
+            if (canonicalHref) {
+                try { canonicalUrl = new URL(canonicalHref, url).href; } catch { canonicalUrl = null; }
+            }
 
-            return null;
+            return { imageUrl, canonicalUrl };
         } catch {
             // Silently fail scraping, it's just a fallback
-            return null;
+            return { imageUrl: null, canonicalUrl: null };
         }
     }
 
     private static mapToArticleData(item: RssItem, feed: RssFeedConfig, category: string): ProcessedArticleData {
+        const title = item.title ?? 'No title';
+        const summary = this.extractSummary(item);
         return {
-            title: item.title ?? 'No title',
+            title,
             link: item.link ?? '',
+            canonicalLink: item.link ? canonicalizeUrl(item.link) : null,
+            guid: item.guid ?? null,
             publicationDate: this.extractDates(item),
             sourceFeed: feed.url,
             feedName: feed.name,
             category,
-            language: feed.language ?? 'en',
+            // Mixed-language and mislabeled feeds: the feed language is only a fallback
+            ...LanguageDetectionService.detect(`${title}. ${summary ?? ''}`, feed.language ?? 'en'),
             fetchedAt: new Date().toISOString(),
             processedAt: new Date().toISOString(),
-            summary: this.extractSummary(item),
+            summary,
             imageUrl: this.extractImageUrl(item),
             author: this.extractAuthor(item),
             sourceTags: this.extractSourceTags(item),
@@ -321,7 +565,7 @@ export class RssService {
         return Array.from(tags).filter(t => t.length > 0);
     }
 
-    private static extractDates(item: RssItem): string | null {
+    public static extractDates(item: RssItem): string | null {
         return item.isoDate ?? item.pubDate ?? null;
     }
 
@@ -334,56 +578,11 @@ export class RssService {
     }
 
     /**
-     * Spawns a dedicated child process to handle AI analysis.
+     * Starts the AI worker pool (separate processes) if it is not running yet.
      * This prevents the main event loop from blocking during heavy ML inference.
      */
     private static startBackgroundWorker(): void {
-        if (this.aiProcess && !this.aiProcess.killed) {
-            logger.info('🧠 AI Worker Process is already running.');
-            return;
-        }
-
-        // Resolve correct path whether we are in TS (dev) or JS (prod)
-        // In dev with tsx, we point to .ts. In prod, dist structure usually matches.
-        // Simple heuristic: if we are in src directory, use .ts, else .js
-        const isDev = __filename.endsWith('.ts');
-        const workerFilename = isDev ? 'aiWorker.ts' : 'aiWorker.js';
-        const workerPath = path.resolve(__dirname, '../workers/', workerFilename);
-
-        logger.info(`🚀 Spawning AI Worker Process: ${workerPath}`);
-
-        try {
-            // fork() spawns a new V8 instance.
-            // If running with tsx, it should handle TS files automatically.
-            this.aiProcess = fork(workerPath, [], {
-                // Forward environment variables
-                env: { ...process.env, IS_WORKER: 'true' }
-            });
-
-            this.aiProcess.on('message', (msg: { type: string; title?: string }) => {
-                if (msg.type === 'COMPLETED') {
-                    logger.info(`✨ Worker finished article: ${msg.title}`);
-                }
-            });
-
-            this.aiProcess.on('error', (err) => {
-                logger.error('❌ AI Worker Process Error:', err);
-            });
-
-            this.aiProcess.on('exit', (code) => {
-                if (code !== 0) {
-                    logger.warn(`⚠️ AI Worker Process stopped with exit code ${code}. Restarting in 10s...`);
-                    // Retry strategy handled by next cron or explicit timeout
-                    setTimeout(() => this.startBackgroundWorker(), 10000);
-                } else {
-                    logger.info('AI Worker Process stopped clean.');
-                    this.aiProcess = null;
-                }
-            });
-
-        } catch (error) {
-            logger.error('❌ Failed to spawn AI Worker:', error);
-        }
+        WorkerPoolService.ensureStarted();
     }
 
     /**
@@ -0,0 +1,113 @@
+// src/services/sourceHealthService.ts
+import { SourceRepository, SourceConfig, SourceHealth } from '@/repositories/sourceRepository';
+import { rssConfig } from '@/config/rssConfig';
+import logger from '@/utils/logger';
+
+const EMPTY_HEALTH: SourceHealth = {
+    consecutiveFailures: 0,
+    fetchCount: 0,
+    avgLatencyMs: 0,
+    lastItemCount: 0,
+    avgItemYield: 0
+};
+
+export class SourceHealthService {
+    /**
+     * Returns true while a failing source is still inside its backoff window.
+     */
+    public static isBackingOff(source: Pick<SourceConfig, 'health'>, now: Date = new Date()): boolean {
+        const nextRetryAt = source.health?.nextRetryAt;
+        return !!nextRetryAt && new Date(nextRetryAt).getTime() > now.getTime();
+    }
+
+    /**
+     * Computes the health after a successful fetch (running averages, reset of failures).
+     */
+    public static applySuccess(previous: SourceHealth | undefined, latencyMs: number, itemCount: number, now: Date = new Date()): SourceHealth {
+        const health = { ...EMPTY_HEALTH, ...previous };
+        const fetchCount = health.fetchCount + 1;
+
+        return {
+            ...health,
+            lastSuccessAt: now.toISOString(),
+            consecutiveFailures: 0,
+            fetchCount,
+            avgLatencyMs: Math.round(health.avgLatencyMs + (latencyMs - health.avgLatencyMs) / fetchCount),
+            lastItemCount: itemCount,
+            avgItemYield: Number((health.avgItemYield + (itemCount - health.avgItemYield) / fetchCount).toFixed(2)),
+            nextRetryAt: null,
+            disabledReason: null,
+            disabledAt: null
+        };
+    }
+
+    /**
+     * Computes the health after a failed fetch.
+     * The retry delay doubles with every consecutive failure and the source is
+     * quarantined once `maxConsecutiveFailures` is reached.
+     */
+    public static applyFailure(
+        previous: SourceHealth | undefined,
+        errorMessage: string,
+        latencyMs: number,
+        now: Date = new Date()
+    ): { health: SourceHealth; disable: boolean } {
+        const health = { ...EMPTY_HEALTH, ...previous };
+        const fetchCount = health.fetchCount + 1;
+        const consecutiveFailures = health.consecutiveFailures + 1;
+        const disable = consecutiveFailures >= rssConfig.maxConsecutiveFailures;
+
+        const backoffMs = Math.min(
+            rssConfig.failureBackoffBaseMs * Math.pow(2, consecutiveFailures - 1),
+            rssConfig.failureBackoffMaxMs
+        );
+
+        return {
+            health: {
+                ...health,
+                lastErrorAt: now.toISOString(),
+                lastError: errorMessage,
+                consecutiveFailures,
+                fetchCount,
+                avgLatencyMs: Math.round(health.avgLatencyMs + (latencyMs - health.avgLatencyMs) / fetchCount),
+                nextRetryAt: new Date(now.getTime() + backoffMs).toISOString(),
+                disabledReason: disable ? `Auto-disabled after ${consecutiveFailures} consecutive failures: ${errorMessage}` : null,
+                disabledAt: disable ? now.toISOString() : null
+            },
+            disable
+        };
+    }
+
+    /**
+     * Records a successful fetch for a source.
+     */
+    public static async recordSuccess(name: string, latencyMs: number, itemCount: number): Promise<void> {
+        try {
+            const source = await SourceRepository.getSourceByName(name);
+            if (!source) return;
+            await SourceRepository.updateHealth(name, this.applySuccess(source.health, latencyMs, itemCount));
+        } catch (error) {
+            logger.debug(`⚠️ Could not record fetch success for ${name}:`, error);
+        }
+    }
+
+    /**
+     * Records a failed fetch for a source and quarantines it when needed.
+     */
+    public static async recordFailure(name: string, error: unknown, latencyMs: number): Promise<void> {
+        const message = error instanceof Error ? error.message : String(error);
+        try {
+            const source = await SourceRepository.getSourceByName(name);
+            if (!source) return;
+
+            const { health, disable } = this.applyFailure(source.health, message, latencyMs);
+            await SourceRepository.updateHealth(name, health, disable);
+
+            if (disable) {
+                logger.warn(`🚫 Source quarantined: ${name} (${health.disabledReason})`);
+            }
+        } catch (recordError) {
+            logger.debug(`⚠️ Could not record fetch failure for ${name}:`, recordError);
+        }
+    }
+}
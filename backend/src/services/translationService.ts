@@ -0,0 +1,137 @@
+// src/services/translationService.ts
+import { createHash } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { aiService } from '@/services/aiService';
+import { RssRepository } from '@/repositories/rssRepository';
+import { TranslationRepository } from '@/repositories/translationRepository';
+import { UserRepository } from '@/repositories/userRepository';
+import { translationConfig } from '@/config/translationConfig';
+import { ArticleTranslation, ProcessedArticleData } from '@/types/rss';
+import { TranslationCacheEntry } from '@/types/translation';
+import { AppError } from '@/utils/errorHandler';
+import logger from '@/utils/logger';
+
+const HTML_TAGS = /<[^>]*>/g;
+
+function cacheKey(from: string, to: string, text: string): string {
+    return createHash('sha256').update(`${from}:${to}:${text}`).digest('hex');
+}
+
+/**
+ * Translation of article titles, summaries and AI summaries, within a daily character
+ * budget. Strings are cached, so repeated ones do not cost anything.
+ */
+export class TranslationService {
+    private static languagesCache: { languages: Promise<string[]>; expiresAt: number } | null = null;
+
+    /**
+     * Languages articles are translated into: `AI_TRANSLATION_LANGUAGES`, plus the
+     * `preferredLanguage` of every user profile. Languages the model lacks are dropped.
+     */
+    public static async getTargetLanguages(now: number = Date.now()): Promise<string[]> {
+        if (!this.languagesCache || this.languagesCache.expiresAt <= now) {
+            const languages = this.loadTargetLanguages();
+            this.languagesCache = { languages, expiresAt: now + translationConfig.languagesRefreshMs };
+            languages.catch(() => { this.languagesCache = null; });
+        }
+        return this.languagesCache.languages;
+    }
+
+    public static resetLanguagesCache(): void {
+        this.languagesCache = null;
+    }
+
+    /**
+     * Target languages an article is neither written in nor translated into yet.
+     */
+    public static missingLanguages(article: ProcessedArticleData, languages: string[]): string[] {
+        const original = article.language || 'en';
+        return languages.filter(lang => lang !== original && !article.translations?.[lang]);
+    }
+
+    /**
+     * Translates an article into each language and stores the translations as they complete.
+     *
+     * @returns {Promise<Record<string, ArticleTranslation>>} Every translation of the article.
+     * @throws {AppError} 400 for a language the model cannot produce, 429 once the daily budget is spent.
+     */
+    public static async translateArticle(article: ProcessedArticleData, languages: string[]): Promise<Record<string, ArticleTranslation>> {
+        const translations = { ...(article.translations || {}) };
+        for (const lang of languages) {
+            if (!aiService.supportsTranslation(lang)) throw new AppError(`Unsupported language: ${lang}`, 400);
+            translations[lang] = await this.translateFields(article, lang);
+            await RssRepository.updateById(article._id as ObjectId, { translations });
+        }
+        return translations;
+    }
+
+    /**
+     * Tells whether an error means the daily budget is spent (the translation can wait for `budgetResetsAt`).
+     */
+    public static isBudgetExhausted(error: unknown): boolean {
+        return error instanceof AppError && error.statusCode === 429;
+    }
+
+    /**
+     * Start of the next budget day (UTC midnight).
+     */
+    public static budgetResetsAt(now: Date = new Date()): Date {
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+    }
+
+    private static async loadTargetLanguages(): Promise<string[]> {
+        const preferred = translationConfig.followUserLanguages ? await UserRepository.findPreferredLanguages() : [];
+        return [...new Set([...translationConfig.languages, ...preferred])].filter(lang => aiService.supportsTranslation(lang));
+    }
+
+    private static async translateFields(article: ProcessedArticleData, to: string): Promise<ArticleTranslation> {
+        const from = article.language || 'en';
+        const summary = (article.summary || '').replace(HTML_TAGS, '').trim();
+        const iaSummary = article.analysis?.iaSummary;
+        const translate = await this.translateTexts([article.title, summary, iaSummary ?? ''], from, to);
+
+        return {
+            title: translate(article.title),
+            summary: translate(summary),
+            ...(iaSummary && { iaSummary: translate(iaSummary) })
+        };
+    }
+
+    /**
+     * Translates texts, reading the cache first and reserving budget for the others.
+     *
+     * @returns A lookup of the translation of each text (empty texts stay empty).
+     */
+    private static async translateTexts(texts: string[], from: string, to: string): Promise<(text: string) => string> {
+        const unique = [...new Set(texts.filter(Boolean))];
+        const translations = await TranslationRepository.findCached(unique.map(text => cacheKey(from, to, text)));
+        const missing = unique.filter(text => !translations.has(cacheKey(from, to, text)));
+        await this.reserveBudget(missing);
+
+        const entries: TranslationCacheEntry[] = [];
+        for (const text of missing) {
+            const translation = await aiService.translate(text, from, to);
+            if (!translation) throw new Error(`No translation produced from ${from} to ${to}`);
+            entries.push({ _id: cacheKey(from, to, text), from, to, translation, createdAt: new Date() });
+            translations.set(cacheKey(from, to, text), translation);
+        }
+        await TranslationRepository.saveCached(entries);
+        if (missing.length < unique.length) logger.debug(`🌐 ${unique.length - missing.length} cached translation(s) reused (${from} → ${to})`);
+
+        return text => (text ? translations.get(cacheKey(from, to, text)) ?? '' : '');
+    }
+
+    /**
+     * Counts the characters against today's budget. A failed translation still consumes it.
+     *
+     * @throws {AppError} 429 if the budget cannot cover them.
+     */
+    private static async reserveBudget(texts: string[], now: Date = new Date()): Promise<void> {
+        const characters = texts.reduce((total, text) => total + text.length, 0);
+        if (characters === 0) return;
+        const day = now.toISOString().slice(0, 10);
+        if (!(await TranslationRepository.reserveCharacters(day, characters, translationConfig.dailyCharacterBudget))) {
+            throw new AppError('Daily translation budget exhausted', 429);
+        }
+    }
+}
@@ -0,0 +1,329 @@
+// src/services/webhookService.ts
+import axios from 'axios';
+import crypto from 'crypto';
+import { URL } from 'url';
+import { ObjectId } from 'mongodb';
+import { WebhookRepository } from '@/repositories/webhookRepository';
+import { webhookConfig } from '@/config/webhookConfig';
+import { ProcessedArticleData } from '@/types/rss';
+import { Webhook, WebhookDelivery, WebhookEvent, WebhookFilter, WebhookPayload, WEBHOOK_EVENTS } from '@/types/webhook';
+import { AppError } from '@/utils/errorHandler';
+import logger from '@/utils/logger';
+
+/**
+ * Fields accepted when registering or updating a webhook.
+ */
+export interface WebhookInput {
+    url?: string;
+    events?: WebhookEvent[];
+    filter?: WebhookFilter;
+    secret?: string;
+    description?: string | null;
+    enabled?: boolean;
+}
+
+const SENTIMENTS = ['bullish', 'bearish', 'neutral'];
+const FILTER_FIELDS: (keyof WebhookFilter)[] = ['category', 'feedName', 'sentiment', 'entity', 'keyword'];
+
+const SAMPLE_ARTICLE: ProcessedArticleData = {
+    title: 'Kognit webhook test',
+    link: 'https://example.com/kognit-webhook-test',
+    feedName: 'Kognit',
+    category: 'Test',
+    language: 'en',
+    publicationDate: new Date(0).toISOString(),
+    fetchedAt: new Date(0).toISOString(),
+    summary: 'This delivery was triggered from the test endpoint.',
+    analysis: { sentiment: 'neutral', sentimentScore: 0, entities: [{ text: 'Kognit', label: 'ORG', score: 1 }] }
+};
+
+type FilterPredicate = (article: ProcessedArticleData, filter: WebhookFilter) => boolean;
+
+const FILTER_PREDICATES: FilterPredicate[] = [
+    (article, { category }) => !category || article.category === category,
+    (article, { feedName }) => !feedName || article.feedName === feedName,
+    (article, { sentiment }) => !sentiment || article.analysis?.sentiment === sentiment,
+    (article, { entity }) => !entity || (article.analysis?.entities || []).some(e => e.text.toLowerCase() === entity.toLowerCase()),
+    (article, { keyword }) => !keyword || `${article.title} ${article.summary || ''}`.toLowerCase().includes(keyword.toLowerCase())
+];
+
+type PayloadArticle = WebhookPayload['article'];
+
+function describeSource(article: ProcessedArticleData): Pick<PayloadArticle, 'id' | 'canonicalLink' | 'feedName' | 'category' | 'language'> {
+    return {
+        id: article._id?.toString() ?? null,
+        canonicalLink: article.canonicalLink ?? null,
+        feedName: article.feedName ?? null,
+        category: article.category ?? null,
+        language: article.language ?? null
+    };
+}
+
+function describeContent(article: ProcessedArticleData): Pick<PayloadArticle, 'author' | 'publicationDate' | 'summary' | 'imageUrl'> {
+    return {
+        author: article.author ?? null,
+        publicationDate: article.publicationDate ?? null,
+        summary: article.summary ?? null,
+        imageUrl: article.imageUrl ?? null
+    };
+}
+
+function describeAnalysis(article: ProcessedArticleData): Pick<PayloadArticle, 'sentiment' | 'sentimentScore' | 'iaSummary' | 'entities'> {
+    const analysis = article.analysis;
+    return {
+        sentiment: analysis?.sentiment ?? null,
+        sentimentScore: analysis?.sentimentScore ?? null,
+        iaSummary: analysis?.iaSummary ?? null,
+        entities: (analysis?.entities || []).map(({ text, label }) => ({ text, label }))
+    };
+}
+
+/**
+ * Pushes article events to registered HTTP endpoints. Payloads are signed with
+ * HMAC-SHA256 (`X-Kognit-Signature: sha256=<hex>` over `<timestamp>.<body>`), failed
+ * deliveries are retried with exponential backoff and every attempt is logged.
+ */
+export class WebhookService {
+    /**
+     * Registers a webhook. A signing secret is generated when none is provided.
+     */
+    public static async create(input: WebhookInput): Promise<Webhook> {
+        if (!input.url) throw new AppError('url is required', 400);
+        const now = new Date().toISOString();
+        const webhook: Webhook = {
+            url: this.validateUrl(input.url),
+            secret: input.secret || crypto.randomBytes(24).toString('hex'),
+            events: input.events ? this.validateEvents(input.events) : [...WEBHOOK_EVENTS],
+            filter: this.validateFilter(input.filter || {}),
+            enabled: input.enabled !== false,
+            description: input.description ?? null,
+            createdAt: now,
+            updatedAt: now
+        };
+        webhook._id = await WebhookRepository.create(webhook);
+        logger.info(`🪝 Webhook registered: ${webhook.url}`);
+        return webhook;
+    }
+
+    /**
+     * Updates the settings of a webhook.
+     *
+     * @throws {AppError} 404 if the webhook does not exist, 400 on invalid settings.
+     */
+    public static async update(id: string, input: WebhookInput): Promise<Webhook> {
+        const data: Partial<Webhook> = {};
+        if (input.url !== undefined) data.url = this.validateUrl(input.url);
+        if (input.events !== undefined) data.events = this.validateEvents(input.events);
+        if (input.filter !== undefined) data.filter = this.validateFilter(input.filter);
+        if (input.secret) data.secret = input.secret;
+        if (input.description !== undefined) data.description = input.description;
+        if (input.enabled !== undefined) data.enabled = input.enabled === true;
+
+        const updated = await WebhookRepository.update(id, data);
+        if (!updated) throw new AppError('Webhook not found', 404);
+        return updated;
+    }
+
+    /**
+     * Tells whether an article passes the filter of a webhook.
+     */
+    public static matchesFilter(article: ProcessedArticleData, filter: WebhookFilter): boolean {
+        return FILTER_PREDICATES.every(predicate => predicate(article, filter));
+    }
+
+    /**
+     * Sends an event to every matching webhook. Deliveries run in the background and
+     * failures never propagate: ingestion and analysis must not depend on subscribers.
+     *
+     * @returns {Promise<number>} The number of deliveries started.
+     */
+    public static async dispatch(event: WebhookEvent, article: ProcessedArticleData): Promise<number> {
+        try {
+            const webhooks = await WebhookRepository.findEnabledForEvent(event);
+            const targets = webhooks.filter(webhook => this.matchesFilter(article, webhook.filter || {}));
+
+            for (const webhook of targets) {
+                const delivery = await this.createDelivery(webhook, event, article, webhookConfig.maxAttempts);
+                void this.attempt(webhook, delivery);
+            }
+            return targets.length;
+        } catch (error) {
+            logger.error(`❌ Webhook dispatch failed for ${event}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Sends a sample payload once (no retry) and returns the logged delivery.
+     *
+     * @throws {AppError} 404 if the webhook does not exist.
+     */
+    public static async testFire(id: string): Promise<WebhookDelivery> {
+        const webhook = await WebhookRepository.findById(id);
+        if (!webhook) throw new AppError('Webhook not found', 404);
+
+        const delivery = await this.createDelivery(webhook, 'webhook.test', SAMPLE_ARTICLE, 1);
+        return this.attempt(webhook, delivery);
+    }
+
+    /**
+     * Retries the failed deliveries whose backoff elapsed.
+     *
+     * @returns {Promise<number>} The number of deliveries retried.
+     */
+    public static async retryDue(limit: number = 50): Promise<number> {
+        let retried = 0;
+        while (retried < limit) {
+            const delivery = await WebhookRepository.claimDueDelivery(webhookConfig.timeoutMs * 3);
+            if (!delivery) break;
+            retried++;
+
+            const webhook = await WebhookRepository.findById(delivery.webhookId);
+            if (!webhook || !webhook.enabled) {
+                await WebhookRepository.updateDelivery(delivery._id!, { status: 'dead', lastError: 'Webhook removed or disabled', nextAttemptAt: null });
+                continue;
+            }
+            await this.attempt(webhook, delivery);
+        }
+        return retried;
+    }
+
+    /**
+     * Computes the signature header value of a payload.
+     */
+    public static sign(secret: string, timestamp: string, body: string): string {
+        return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+    }
+
+    /**
+     * Computes the delay before the next attempt: doubles with each attempt, capped.
+     */
+    public static getRetryDelayMs(attempts: number): number {
+        return Math.min(webhookConfig.retryBaseMs * Math.pow(2, Math.max(attempts - 1, 0)), webhookConfig.retryMaxMs);
+    }
+
+    /**
+     * Builds the public JSON payload of an article event.
+     */
+    public static buildPayload(deliveryId: string, event: WebhookPayload['event'], article: ProcessedArticleData): WebhookPayload {
+        return {
+            id: deliveryId,
+            event,
+            createdAt: new Date().toISOString(),
+            article: {
+                title: article.title,
+                link: article.link,
+                ...describeSource(article),
+                ...describeContent(article),
+                ...describeAnalysis(article)
+            }
+        };
+    }
+
+    private static async createDelivery(webhook: Webhook, event: WebhookPayload['event'], article: ProcessedArticleData, maxAttempts: number): Promise<WebhookDelivery> {
+        const now = new Date().toISOString();
+        const id = new ObjectId();
+        const delivery: WebhookDelivery = {
+            _id: id,
+            webhookId: webhook._id!.toString(),
+            event,
+            articleId: article._id?.toString() ?? null,
+            payload: this.buildPayload(id.toString(), event, article),
+            status: 'pending',
+            attempts: 0,
+            maxAttempts,
+            nextAttemptAt: null,
+            lastStatusCode: null,
+            lastError: null,
+            durationMs: null,
+            createdAt: now,
+            updatedAt: now
+        };
+        await WebhookRepository.createDelivery(delivery);
+        return delivery;
+    }
+
+    /**
+     * Posts a delivery and records the outcome: success, retry with backoff, or dead-letter.
+     */
+    private static async attempt(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+        const start = Date.now();
+        const attempts = delivery.attempts + 1;
+        const { statusCode, error } = await this.post(webhook, delivery);
+
+        const outcome: Partial<WebhookDelivery> = { attempts, lastStatusCode: statusCode, lastError: error, durationMs: Date.now() - start };
+        if (!error) {
+            Object.assign(outcome, { status: 'success', nextAttemptAt: null, deliveredAt: new Date().toISOString() });
+        } else if (attempts >= delivery.maxAttempts) {
+            Object.assign(outcome, { status: 'dead', nextAttemptAt: null });
+            logger.warn(`🪦 Webhook delivery ${delivery._id} to ${webhook.url} dead-lettered after ${attempts} attempts: ${error}`);
+        } else {
+            const retryAt = new Date(Date.now() + this.getRetryDelayMs(attempts)).toISOString();
+            Object.assign(outcome, { status: 'failed', nextAttemptAt: retryAt });
+            logger.debug(`⚠️ Webhook delivery ${delivery._id} to ${webhook.url} failed (${error}), retry at ${retryAt}`);
+        }
+
+        try {
+            await WebhookRepository.updateDelivery(delivery._id!, outcome);
+        } catch (updateError) {
+            logger.error(`❌ Could not record webhook delivery ${delivery._id}:`, updateError);
+        }
+        return { ...delivery, ...outcome };
+    }
+
+    private static async post(webhook: Webhook, delivery: WebhookDelivery): Promise<{ statusCode: number | null; error: string | null }> {
+        const body = JSON.stringify(delivery.payload);
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        try {
+            const response = await axios.post(webhook.url, body, {
+                timeout: webhookConfig.timeoutMs,
+                maxRedirects: 0,
+                validateStatus: () => true,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': 'Kognit-Webhooks/1.0',
+                    'X-Kognit-Event': delivery.event,
+                    'X-Kognit-Delivery': delivery._id!.toString(),
+                    'X-Kognit-Timestamp': timestamp,
+                    'X-Kognit-Signature': this.sign(webhook.secret, timestamp, body)
+                }
+            });
+            const ok = response.status >= 200 && response.status < 300;
+            return { statusCode: response.status, error: ok ? null : `HTTP ${response.status}` };
+        } catch (error) {
+            return { statusCode: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private static validateUrl(value: string): string {
+        try {
+            const url = new URL(value);
+            if (url.protocol === 'http:' || url.protocol === 'https:') return url.toString();
+        } catch {
+            // Reported below
+        }
+        throw new AppError(`Invalid webhook URL: ${value}`, 400);
+    }
+
+    private static validateEvents(events: WebhookEvent[]): WebhookEvent[] {
+        const valid = Array.isArray(events) && events.length > 0 && events.every(event => WEBHOOK_EVENTS.includes(event));
+        if (!valid) {
+            throw new AppError(`Invalid events. Expected some of: ${WEBHOOK_EVENTS.join(', ')}`, 400);
+        }
+        return [...new Set(events)];
+    }
+
+    private static validateFilter(input: WebhookFilter): WebhookFilter {
+        if (input.sentiment && !SENTIMENTS.includes(input.sentiment)) {
+            throw new AppError(`Invalid sentiment. Expected one of: ${SENTIMENTS.join(', ')}`, 400);
+        }
+        const filter: WebhookFilter = {};
+        for (const field of FILTER_FIELDS) {
+            const value = input[field];
+            if (typeof value === 'string' && value.trim()) {
+                (filter as Record<string, string>)[field] = value.trim();
+            }
+        }
+        return filter;
+    }
+}
@@ -0,0 +1,184 @@
+// src/services/workerPoolService.ts
+import { fork, ChildProcess } from 'child_process';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { workerPoolConfig } from '@/config/jobConfig';
+import { JobType, JOB_TYPES, WorkerMessage } from '@/types/job';
+import { ArticleEventService } from './articleEventService';
+import logger from '@/utils/logger';
+
+// ESM compatibility for __filename and __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+interface WorkerSlot {
+    id: string;
+    stage: JobType;
+    process: ChildProcess | null;
+    startedAt: number | null;
+    restarts: number;          // Consecutive crashes, reset once the worker is stable
+    totalRestarts: number;
+    lastExitCode: number | null;
+    restartTimer: ReturnType<typeof setTimeout> | null;
+    completed: number;
+    failed: number;
+    busyMs: number;
+    lastJobAt: string | null;
+}
+
+export interface WorkerStatus {
+    id: string;
+    stage: JobType;
+    pid: number | null;
+    state: 'running' | 'restarting' | 'stopped';
+    uptimeSeconds: number;
+    restarts: number;
+    lastExitCode: number | null;
+    completed: number;
+    failed: number;
+    avgJobMs: number;
+    jobsPerMinute: number;
+    lastJobAt: string | null;
+}
+
+/**
+ * Supervises the AI worker processes: N processes per stage (fast path, summary,
+ * translation), restarted with exponential backoff when they crash.
+ * Jobs are distributed through the queue, whose atomic claim prevents double-processing.
+ */
+export class WorkerPoolService {
+    private static slots: WorkerSlot[] = [];
+
+    /**
+     * Starts the configured workers. Calling it again only revives stopped slots.
+     */
+    public static ensureStarted(): void {
+        if (this.slots.length === 0) {
+            this.slots = this.createSlots();
+            const summary = JOB_TYPES.map(stage => `${stage}=${workerPoolConfig.workers[stage]}`).join(', ');
+            logger.info(`🚀 Starting AI worker pool (${summary})`);
+        }
+
+        for (const slot of this.slots) {
+            if (!slot.process && !slot.restartTimer) this.spawn(slot);
+        }
+    }
+
+    /**
+     * Reports the state and throughput of every worker.
+     */
+    public static getStatus(now: number = Date.now()): WorkerStatus[] {
+        return this.slots.map(slot => {
+            const uptimeMs = slot.startedAt ? now - slot.startedAt : 0;
+            const processed = slot.completed + slot.failed;
+            return {
+                id: slot.id,
+                stage: slot.stage,
+                pid: slot.process?.pid ?? null,
+                state: slot.process ? 'running' : (slot.restartTimer ? 'restarting' : 'stopped'),
+                uptimeSeconds: Math.round(uptimeMs / 1000),
+                restarts: slot.totalRestarts,
+                lastExitCode: slot.lastExitCode,
+                completed: slot.completed,
+                failed: slot.failed,
+                avgJobMs: processed > 0 ? Math.round(slot.busyMs / processed) : 0,
+                jobsPerMinute: uptimeMs > 0 ? Number((processed / (uptimeMs / 60000)).toFixed(2)) : 0,
+                lastJobAt: slot.lastJobAt
+            };
+        });
+    }
+
+    /**
+     * Computes the delay before restarting a crashed worker.
+     */
+    public static getRestartDelayMs(restarts: number): number {
+        return Math.min(workerPoolConfig.restartBaseMs * Math.pow(2, Math.max(restarts - 1, 0)), workerPoolConfig.restartMaxMs);
+    }
+
+    private static createSlots(): WorkerSlot[] {
+        const slots: WorkerSlot[] = [];
+        for (const stage of JOB_TYPES) {
+            const count = Math.max(workerPoolConfig.workers[stage], 0);
+            for (let i = 1; i <= count; i++) {
+                slots.push({
+                    id: `${stage}-${i}`,
+                    stage,
+                    process: null,
+                    startedAt: null,
+                    restarts: 0,
+                    totalRestarts: 0,
+                    lastExitCode: null,
+                    restartTimer: null,
+                    completed: 0,
+                    failed: 0,
+                    busyMs: 0,
+                    lastJobAt: null
+                });
+            }
+        }
+        return slots;
+    }
+
+    private static resolveWorkerPath(): string {
+        // In dev with tsx, we point to .ts. In prod, dist structure usually matches.
+        const isDev = __filename.endsWith('.ts');
+        return path.resolve(__dirname, '../workers/', isDev ? 'aiWorker.ts' : 'aiWorker.js');
+    }
+
+    private static spawn(slot: WorkerSlot): void {
+        try {
+            const child = fork(this.resolveWorkerPath(), [], {
+                env: { ...process.env, IS_WORKER: 'true', WORKER_ID: slot.id, WORKER_STAGE: slot.stage }
+            });
+            slot.process = child;
+            slot.startedAt = Date.now();
+            logger.info(`🧵 Spawned AI worker ${slot.id} (pid ${child.pid})`);
+
+            child.on('message', (msg: WorkerMessage) => this.handleMessage(slot, msg));
+            child.on('error', (err) => logger.error(`❌ AI worker ${slot.id} error:`, err));
+            child.on('exit', (code) => this.handleExit(slot, code));
+        } catch (error) {
+            logger.error(`❌ Failed to spawn AI worker ${slot.id}:`, error);
+            this.scheduleRestart(slot);
+        }
+    }
+
+    private static handleMessage(slot: WorkerSlot, msg: WorkerMessage): void {
+        if (msg.type === 'JOB_DONE' || msg.type === 'JOB_FAILED') {
+            if (msg.type === 'JOB_DONE') slot.completed++;
+            else slot.failed++;
+            slot.busyMs += msg.durationMs;
+            slot.lastJobAt = new Date().toISOString();
+        } else if (msg.type === 'COMPLETED') {
+            logger.debug(`✨ Worker ${slot.id} finished ${msg.stage} of article: ${msg.title}`);
+            const event = msg.stage === 'analysis' ? 'article.analyzed' : 'article.summarized';
+            void ArticleEventService.publishArticleUpdate(event, msg.articleId);
+        }
+    }
+
+    private static handleExit(slot: WorkerSlot, code: number | null): void {
+        const uptime = slot.startedAt ? Date.now() - slot.startedAt : 0;
+        slot.process = null;
+        slot.lastExitCode = code;
+
+        if (code === 0) {
+            logger.info(`AI worker ${slot.id} stopped clean.`);
+            return;
+        }
+
+        if (uptime >= workerPoolConfig.stableAfterMs) slot.restarts = 0;
+        this.scheduleRestart(slot);
+    }
+
+    private static scheduleRestart(slot: WorkerSlot): void {
+        slot.restarts++;
+        slot.totalRestarts++;
+        const delayMs = this.getRestartDelayMs(slot.restarts);
+        logger.warn(`⚠️ AI worker ${slot.id} stopped with exit code ${slot.lastExitCode}. Restarting in ${Math.round(delayMs / 1000)}s...`);
+
+        slot.restartTimer = setTimeout(() => {
+            slot.restartTimer = null;
+            this.spawn(slot);
+        }, delayMs);
+    }
+}
@@ -0,0 +1,34 @@
+// src/types/ai.ts
+import { ArticleEntity } from '@/types/rss';
+
+/** Tasks an AI provider can be selected for, independently of each other. */
+export type AiTask = 'sentiment' | 'summarization' | 'ner' | 'translation';
+
+export const AI_TASKS: AiTask[] = ['sentiment', 'summarization', 'ner', 'translation'];
+
+export type AiProviderName = 'transformers' | 'http' | 'fake';
+
+/**
+ * Result of a sentiment analysis operation.
+ */
+export interface SentimentResult {
+    /** The predicted label: 'Positive', 'Neutral', or 'Negative' (or LABEL_X mapped) */
+    label: 'POSITIVE' | 'NEUTRAL' | 'NEGATIVE';
+    /** The confidence score between 0 and 1 */
+    score: number;
+}
+
+/**
+ * Backend running the models. Inputs are already truncated by the AiService;
+ * a provider throws when it cannot answer so the caller can fall back.
+ */
+export interface AiProvider {
+    readonly name: AiProviderName;
+    /** Loads whatever the tasks need up front (models, connections). */
+    init(tasks: AiTask[]): Promise<void>;
+    classifySentiment(text: string): Promise<SentimentResult | null>;
+    summarize(text: string): Promise<string | null>;
+    extractEntities(text: string): Promise<ArticleEntity[]>;
+    translate(text: string, fromLang: string, toLang: string): Promise<string | null>;
+    supportsLanguage(lang: string): boolean;
+}
@@ -0,0 +1,32 @@
+// src/types/apiKey.ts
+import { ObjectId } from 'mongodb';
+
+/**
+ * - `read:articles`: read the public API (articles, metadata, analytics)
+ * - `write:sources`: manage the source catalogue
+ * - `admin`: every scope, including sync, delete-all, webhooks and keys
+ */
+export type ApiKeyScope = 'read:articles' | 'write:sources' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read:articles', 'write:sources', 'admin'];
+
+export interface ApiKey {
+    _id?: ObjectId;
+    name: string;
+    prefix: string;          // First characters of the key, to recognise it in listings
+    keyHash: string;         // SHA-256 of the key (hex); the key itself is never stored
+    scopes: ApiKeyScope[];
+    createdBy: string | null; // Account id of the admin who issued the key
+    createdAt: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+}
+
+/**
+ * The API key attached to the request by the API key middleware.
+ */
+export interface ApiKeyPrincipal {
+    id: string;
+    name: string;
+    scopes: ApiKeyScope[];
+}
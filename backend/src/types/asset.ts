@@ -0,0 +1,37 @@
+// src/types/asset.ts
+
+export type AssetType = 'crypto' | 'stock' | 'index' | 'commodity' | 'currency';
+
+/**
+ * Entry of the local asset dictionary. `symbol` is the value stored in
+ * `analysis.mentionedAssets`; `aliases` are matched against NER entities.
+ */
+export interface AssetDefinition {
+    symbol: string;
+    name: string;
+    type: AssetType;
+    aliases: string[];
+}
+
+export interface AssetSentimentCounts {
+    bullish: number;
+    bearish: number;
+    neutral: number;
+}
+
+export interface AssetTimelinePoint extends AssetSentimentCounts {
+    date: string;
+    count: number;
+    /** (bullish - bearish) / count, between -1 and 1 */
+    netSentiment: number;
+}
+
+export interface AssetAnalytics {
+    symbol: string;
+    name: string;
+    type: AssetType;
+    count: number;
+    sentiment: AssetSentimentCounts;
+    netSentiment: number;
+    timeline: AssetTimelinePoint[];
+}
@@ -0,0 +1,32 @@
+// src/types/auth.ts
+import { ObjectId } from 'mongodb';
+
+/**
+ * `admin` is required to manage sources, trigger a sync and delete articles.
+ */
+export type UserRole = 'user' | 'admin';
+
+export interface UserAccount {
+    _id?: ObjectId;
+    email: string;           // Lower-cased, unique
+    passwordHash: string;    // scrypt: `salt:hash` (hex)
+    role: UserRole;
+    profileId: string;       // Key of the `users` profile document
+    createdAt: string;
+    lastLoginAt: string | null;
+}
+
+/**
+ * The authenticated user attached to the request by the auth middleware.
+ */
+export interface AuthUser {
+    id: string;
+    email: string;
+    role: UserRole;
+    profileId: string;
+}
+
+export interface TokenPayload extends AuthUser {
+    iat: number;
+    exp: number;
+}
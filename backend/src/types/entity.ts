@@ -0,0 +1,77 @@
+// src/types/entity.ts
+import { ArticleEntity } from '@/types/rss';
+
+/**
+ * Canonical entity of the knowledge base. `_id` is the slug of the canonical name,
+ * shared by every alias ("BlackRock", "Blackrock Inc" and "BLK" → `blackrock`).
+ */
+export interface KnowledgeEntity {
+    _id: string;
+    name: string;
+    labels: Record<string, number>;  // Articles per NER label
+    aliases: string[];               // Surface forms seen in articles
+    assetSymbol?: string;            // Entry of the asset dictionary, if any
+    articleCount: number;
+    firstSeenAt: string;
+    lastSeenAt: string;
+}
+
+/**
+ * Number of articles mentioning both entities; `_id` is `<a>|<b>` with a < b.
+ */
+export interface EntityCooccurrence {
+    _id: string;
+    entities: [string, string];
+    count: number;
+    lastSeenAt: string;
+}
+
+/**
+ * NER span resolved to its canonical entity.
+ */
+export interface EntityMention extends ArticleEntity {
+    entityId: string;
+    name: string;
+    assetSymbol?: string;
+}
+
+export interface EntitySentimentPoint {
+    date: string;
+    count: number;
+    bullish: number;
+    bearish: number;
+    neutral: number;
+    /** (bullish - bearish) / count, between -1 and 1 */
+    netSentiment: number;
+}
+
+export interface RelatedEntity {
+    id: string;
+    name: string;
+    label: string;
+    count: number;
+}
+
+export interface EntityProfile {
+    entity: {
+        id: string;
+        name: string;
+        label: string;
+        aliases: string[];
+        assetSymbol?: string;
+        articleCount: number;
+        firstSeenAt: string;
+        lastSeenAt: string;
+    };
+    articles: {
+        _id: string;
+        title: string;
+        link: string;
+        feedName?: string | null;
+        publicationDate?: string | null;
+        sentiment?: 'bullish' | 'bearish' | 'neutral';
+        sentimentScore?: number;
+    }[];
+    sentimentTrend: EntitySentimentPoint[];
+    related: RelatedEntity[];
+}
@@ -0,0 +1,13 @@
+import { AuthUser } from './auth';
+import { ApiKeyPrincipal } from './apiKey';
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+            apiKey?: ApiKeyPrincipal;
+        }
+    }
+}
+
+export {};
@@ -0,0 +1,42 @@
+// src/types/job.ts
+import { ObjectId } from 'mongodb';
+
+/**
+ * AI work items: `analysis` is the fast path (sentiment + entities),
+ * `summary` the slow path (abstractive summary), `translation` the
+ * translation of title and summary.
+ */
+export type JobType = 'analysis' | 'summary' | 'translation';
+
+export const JOB_TYPES: JobType[] = ['analysis', 'summary', 'translation'];
+
+/**
+ * `failed` jobs are waiting for a retry; `dead` jobs exhausted their attempts (dead-letter).
+ */
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'dead';
+
+export interface Job {
+    _id?: ObjectId;
+    type: JobType;
+    articleId: string;
+    status: JobStatus;
+    priority: number;       // Higher runs first
+    attempts: number;
+    maxAttempts: number;
+    runAt: string;          // Not claimable before this date (retry backoff)
+    leaseUntil: string | null; // A running job whose lease expired is claimable again
+    workerId: string | null;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+    startedAt?: string | null;
+    finishedAt?: string | null;
+}
+
+/**
+ * Messages sent by worker processes to the supervisor.
+ */
+export type WorkerMessage =
+    | { type: 'JOB_DONE'; jobType: JobType; durationMs: number }
+    | { type: 'JOB_FAILED'; jobType: JobType; durationMs: number }
+    | { type: 'COMPLETED'; stage: 'analysis' | 'summary'; articleId: string; title?: string };
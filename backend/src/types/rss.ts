@@ -10,20 +10,21 @@ export interface ProcessedArticleData {
     _id?: ObjectId;
     title: string;
     link: string;
+    canonicalLink?: string | null; // Normalized link, unique across feeds
+    guid?: string | null;
+    alsoSeenIn?: { feedName: string; link: string }[]; // Other feeds that published the same story
     publicationDate?: string | null;
     sourceFeed?: string | null;
     feedName?: string | null;
     category?: string | null;
-    language?: string | null; // 'fr' | 'en' | ...
+    language?: string | null; // 'fr' | 'en' | ...: detected, or the source language when unsure
+    detectedLanguage?: string | null;   // Language identified from the text
+    languageConfidence?: number | null; // Confidence of `detectedLanguage` (0-1)
     fetchedAt: string | null;
     processedAt?: string | null;
     summary?: string | null;
     analysis?: FinancialAnalysis | null;
-    translations?: Record<string, {
-        title: string;
-        summary: string;
-        iaSummary?: string;
-    }> | null;
+    translations?: Record<string, ArticleTranslation> | null; // By language code
     error?: string | null;
     scrapedContent?: boolean;
     fullText?: string | null;
@@ -35,10 +36,17 @@ export interface ProcessedArticleData {
     clusterId?: string | null;
 }
 
+export interface ArticleTranslation {
+    title: string;
+    summary: string;
+    iaSummary?: string;
+}
+
 export interface ArticleEntity {
     text: string;
     label: string; // 'ORG', 'PER', 'LOC', 'MISC'
     score: number;
+    entityId?: string; // Canonical entity of the entity store (`entities` collection)
 }
 
 export interface FinancialAnalysis {
@@ -79,6 +87,8 @@ export interface RssFeedConfig {
     language?: 'fr' | 'en' | 'es' | 'de' | 'it' | 'pt' | 'nl' | 'ru' | 'zh' | 'ja' | 'ar'; // Langue du flux
     color?: string;       // Couleur de la marque du flux
     maxArticles?: number; // Nombre maximum d'articles à récupérer par scan
+    etag?: string | null;         // Validateur ETag du dernier téléchargement
+    lastModified?: string | null; // Validateur Last-Modified du dernier téléchargement
 }
 
 /**
@@ -0,0 +1,21 @@
+// src/types/translation.ts
+
+/**
+ * A translated string, keyed by the SHA-256 of `<from>:<to>:<text>`, so repeated
+ * titles and boilerplate summaries are only sent to the model once.
+ */
+export interface TranslationCacheEntry {
+    _id: string;
+    from: string;
+    to: string;
+    translation: string;
+    createdAt: Date;  // Expiry of the TTL index
+}
+
+/**
+ * Characters sent to the translation model during a UTC day (`_id` is `YYYY-MM-DD`).
+ */
+export interface TranslationUsage {
+    _id: string;
+    characters: number;
+}
@@ -1,3 +1,6 @@
+import { ObjectId } from 'mongodb';
+import { FetchOptions } from '@/repositories/rssRepository';
+
 export interface UserUserSettings {
     viewMode: 'grid' | 'list' | 'compact';
     globalInsightMode: boolean;
@@ -6,10 +9,45 @@ export interface UserUserSettings {
     preferredLanguage: string;
 }
 
+/**
+ * Filters of a saved search: the article list filters, plus entity names
+ * (any of them must appear in `analysis.entities`).
+ */
+export type SavedSearchQuery = Omit<FetchOptions, 'page' | 'limit'> & {
+    entities?: string[];
+};
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    query: SavedSearchQuery;
+    isAlert: boolean; // Newly analysed articles matching the query create notifications
+    createdAt: string;
+    updatedAt: string;
+}
+
 export interface UserProfile {
     _id: string; // We'll use a string ID (could be from localStorage or auth)
     bookmarks: string[]; // Array of article IDs
     customTags: string[];
     settings: UserUserSettings;
+    savedSearches?: SavedSearch[];
     updatedAt: string;
 }
+
+/**
+ * A notification created when an article matches one of the user's alert rules.
+ */
+export interface UserAlert {
+    _id?: ObjectId;
+    userId: string;
+    searchId: string;
+    searchName: string;
+    articleId: string;
+    title: string;
+    link: string;
+    feedName: string | null;
+    matchedEntities: string[];
+    read: boolean;
+    createdAt: string;
+}
@@ -0,0 +1,83 @@
+// src/types/webhook.ts
+import { ObjectId } from 'mongodb';
+
+/**
+ * `article.created` fires when an article is stored, `article.analyzed` once the
+ * AI fast path (sentiment + entities) completed.
+ */
+export type WebhookEvent = 'article.created' | 'article.analyzed';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['article.created', 'article.analyzed'];
+
+/**
+ * Every set field must match. `entity` and `keyword` are case-insensitive;
+ * `sentiment` and `entity` only match analysed articles.
+ */
+export interface WebhookFilter {
+    category?: string;
+    feedName?: string;
+    sentiment?: 'bullish' | 'bearish' | 'neutral';
+    entity?: string;
+    keyword?: string;
+}
+
+export interface Webhook {
+    _id?: ObjectId;
+    url: string;
+    secret: string;          // HMAC-SHA256 key of the signature header
+    events: WebhookEvent[];
+    filter: WebhookFilter;
+    enabled: boolean;
+    description?: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * `failed` deliveries wait for a retry; `dead` ones exhausted their attempts.
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'success' | 'failed' | 'dead';
+
+export interface WebhookDelivery {
+    _id?: ObjectId;
+    webhookId: string;
+    event: WebhookEvent | 'webhook.test';
+    articleId: string | null;
+    payload: WebhookPayload;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: string | null;
+    lastStatusCode: number | null;
+    lastError: string | null;
+    durationMs: number | null;
+    createdAt: string;
+    updatedAt: string;
+    deliveredAt?: string | null;
+}
+
+/**
+ * JSON body posted to the endpoints.
+ */
+export interface WebhookPayload {
+    id: string;              // Delivery id, also sent as `X-Kognit-Delivery`
+    event: WebhookEvent | 'webhook.test';
+    createdAt: string;
+    article: {
+        id: string | null;
+        title: string;
+        link: string;
+        canonicalLink: string | null;
+        feedName: string | null;
+        category: string | null;
+        language: string | null;
+        author: string | null;
+        publicationDate: string | null;
+        summary: string | null;
+        imageUrl: string | null;
+        sentiment: string | null;
+        sentimentScore: number | null;
+        iaSummary: string | null;
+        entities: { text: string; label: string }[];
+    };
+}
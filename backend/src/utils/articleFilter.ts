@@ -0,0 +1,92 @@
+// src/utils/articleFilter.ts
+import { FetchOptions } from '@/repositories/rssRepository';
+import { ProcessedArticleData } from '@/types/rss';
+import { parseSearchQuery, SearchQuery } from '@/utils/searchQuery';
+
+const DATE_RANGES_MS: Record<string, number> = {
+    '1h': 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+type ArticlePredicate = (article: ProcessedArticleData, options: FetchOptions) => boolean;
+
+/**
+ * In-memory equivalents of the `RssRepository` filters, one per `FetchOptions` field.
+ */
+const ARTICLE_FILTERS: ArticlePredicate[] = [
+    (article, { category }) => !category || article.category === category,
+    (article, { feedName }) => !feedName || article.feedName === feedName,
+    (article, { sentiment }) => !sentiment || article.analysis?.sentiment === sentiment,
+    (article, { language }) => !language || language.split(',').includes(article.language ?? ''),
+    (article, { onlyInsights }) => !onlyInsights || Boolean(article.analysis?.iaSummary),
+    matchesBookmarks,
+    matchesDateRange,
+    matchesTranslationStatus,
+    matchesSearch
+];
+
+function matchesBookmarks(article: ProcessedArticleData, { isBookmarked, bookmarkIds }: FetchOptions): boolean {
+    if (!isBookmarked) return true;
+    if (bookmarkIds) return bookmarkIds.split(',').includes(article._id?.toString() ?? '');
+    return article.isBookmarked === true;
+}
+
+function matchesDateRange(article: ProcessedArticleData, { dateRange }: FetchOptions): boolean {
+    const rangeMs = dateRange ? DATE_RANGES_MS[dateRange] : undefined;
+    if (!rangeMs) return true;
+    const published = article.publicationDate ? new Date(article.publicationDate).getTime() : NaN;
+    return !isNaN(published) && Date.now() - published <= rangeMs;
+}
+
+function matchesTranslationStatus(article: ProcessedArticleData, { translationStatus }: FetchOptions): boolean {
+    const translated = Object.keys(article.translations || {}).length > 0;
+    if (translationStatus === 'translated') return translated;
+    if (translationStatus === 'original') return !translated;
+    return true;
+}
+
+type SearchPredicate = (article: ProcessedArticleData, query: SearchQuery) => boolean;
+
+function includesValue(field: string | null | undefined, value: string): boolean {
+    return (field || '').toLowerCase().includes(value.toLowerCase());
+}
+
+/**
+ * In-memory equivalents of `RssRepository.applySearchFilter`. Free text approximates
+ * `$text`: any term, and every phrase, found in the title or summary.
+ */
+const SEARCH_FILTERS: SearchPredicate[] = [
+    (article, { terms }) => terms.length === 0 || terms.some(term => includesValue(searchableText(article), term)),
+    (article, { phrases }) => phrases.every(phrase => includesValue(searchableText(article), phrase)),
+    (article, { excluded }) => !excluded.some(term => includesValue(searchableText(article), term)),
+    (article, { title }) => title.every(value => includesValue(article.title, value)),
+    (article, { authors }) => authors.every(value => includesValue(article.author, value)),
+    (article, { sources }) => sources.every(value => includesValue(article.feedName, value)),
+    (article, { entities }) => entities.every(value =>
+        (article.analysis?.entities ?? []).some(entity => entity.text.toLowerCase() === value.toLowerCase())),
+    (article, { sentiment }) => !sentiment || article.analysis?.sentiment === sentiment,
+    (article, { after, before }) => {
+        if (!after && !before) return true;
+        const published = article.publicationDate ?? '';
+        return Boolean(published) && (!after || published >= after) && (!before || published < before);
+    }
+];
+
+function searchableText(article: ProcessedArticleData): string {
+    return `${article.title} ${article.summary || ''}`;
+}
+
+function matchesSearch(article: ProcessedArticleData, { search }: FetchOptions): boolean {
+    if (!search?.trim()) return true;
+    const query = parseSearchQuery(search);
+    return SEARCH_FILTERS.every(filter => filter(article, query));
+}
+
+/**
+ * Tells whether an article would be returned by `RssRepository.fetchAll` with these
+ * filters, without querying the database (live streams, alert rules).
+ */
+export function matchesFetchOptions(article: ProcessedArticleData, options: FetchOptions): boolean {
+    return ARTICLE_FILTERS.every(filter => filter(article, options));
+}
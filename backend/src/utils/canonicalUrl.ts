@@ -0,0 +1,65 @@
+import { URL, URLSearchParams } from 'url';
+
+/** Query parameters that only carry tracking or campaign information. */
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid', 'mc_cid', 'mc_eid',
+    '_ga', '_gl', 'ocid', 'cmpid', 'ncid', 'sr_share', 'ref', 'ref_src',
+    'taid', 'soc_src', 'soc_trk', 'smid', 'smtyp', 'guccounter', 'guce_referrer', 'guce_referrer_sig',
+    'amp', 'outputtype'
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'at_', 'pk_', 'mtm_', 'hsa_'];
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Removes the AMP variants of an article path (`/amp`, `/amp/...`, `.amp.html`, `?amp`).
+ */
+function stripAmpPath(pathname: string): string {
+    return pathname
+        .replace(/\.amp(\.html?)$/i, '$1')
+        .replace(/\/amp(\/|$)/i, '/')
+        .replace(/^\/amp\//i, '/');
+}
+
+/**
+ * Returns the canonical form of an article URL, used to detect the same story
+ * published under several URLs (tracking parameters, AMP pages, http/https,
+ * `www.`, trailing slashes, fragments).
+ * Non-http(s) or unparsable values are returned trimmed but otherwise untouched.
+ *
+ * @param {string} url - The article URL.
+ * @returns {string} The canonical URL.
+ */
+export function canonicalizeUrl(url: string): string {
+    const trimmed = url.trim();
+    let parsed: URL;
+    try {
+        parsed = new URL(trimmed);
+    } catch {
+        return trimmed;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return trimmed;
+
+    const host = parsed.hostname.toLowerCase().replace(/^(www|amp|m)\./, '');
+    const pathname = stripAmpPath(parsed.pathname).replace(/\/{2,}/g, '/').replace(/\/+$/, '') || '/';
+
+    const params = Array.from(parsed.searchParams.entries())
+        .filter(([name]) => !isTrackingParam(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+    const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? `:${parsed.port}` : '';
+    return `https://${host}${port}${pathname === '/' ? '' : pathname}${query}`;
+}
+
+/**
+ * Returns the GUID as a URL when it is a permalink, so it can stand in for a missing link.
+ */
+export function guidAsUrl(guid?: string | null): string | null {
+    if (!guid) return null;
+    return /^https?:\/\//i.test(guid.trim()) ? guid.trim() : null;
+}
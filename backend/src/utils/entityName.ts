@@ -0,0 +1,28 @@
+// src/utils/entityName.ts
+
+const COMPANY_SUFFIX = /\s+(inc|corp|corporation|co|ltd|plc|sa|se|ag|nv|group|holdings?|company)$/;
+
+/**
+ * Folds an entity mention for comparison: lowercase, no accents, no trailing
+ * punctuation or company suffix ("Blackrock Inc." → "blackrock").
+ */
+export function normalizeEntityName(text: string): string {
+    return text
+        .normalize('NFD')
+        .replace(/\p{Diacritic}/gu, '')
+        .toLowerCase()
+        .replace(/[.,!?'’"]+$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(COMPANY_SUFFIX, '');
+}
+
+/**
+ * URL-safe identifier of a normalized name ("jerome powell" → "jerome-powell").
+ */
+export function toEntitySlug(normalized: string): string {
+    return normalized
+        .replace(/&/g, ' and ')
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '');
+}
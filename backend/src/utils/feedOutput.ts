@@ -0,0 +1,151 @@
+import { JsonFeed } from './jsonFeed';
+import { escapeXml } from './xml';
+
+/**
+ * A channel republished as RSS 2.0, Atom 1.0 or JSON Feed 1.1.
+ */
+export interface FeedOutputChannel {
+    title: string;
+    description: string;
+    homeUrl: string;
+    selfUrl: string;
+    updatedAt: string; // ISO date
+}
+
+export interface FeedOutputItem {
+    id: string;
+    title: string;
+    link: string;
+    summary: string | null;
+    sentiment: string | null;
+    categories: string[];
+    publishedAt: string; // ISO date
+    author: string | null;
+    sourceName: string | null;
+    sourceUrl: string | null;
+}
+
+export type FeedOutputFormat = 'rss' | 'atom' | 'json';
+
+// Atom categories need a scheme IRI
+const SENTIMENT_SCHEME = 'urn:kognit:sentiment';
+
+function tag(name: string, value: string | null | undefined, attributes: string = ''): string {
+    if (value === null || value === undefined || value === '') return '';
+    return `<${name}${attributes}>${escapeXml(value)}</${name}>`;
+}
+
+function lines(indent: string, parts: string[]): string {
+    return parts.filter(Boolean).map(part => `${indent}${part}`).join('\n');
+}
+
+function buildRssItem(item: FeedOutputItem): string {
+    const source = item.sourceName && item.sourceUrl
+        ? tag('source', item.sourceName, ` url="${escapeXml(item.sourceUrl)}"`)
+        : '';
+    return [
+        '    <item>',
+        lines('      ', [
+            tag('title', item.title),
+            tag('link', item.link),
+            tag('guid', item.id, ` isPermaLink="${item.id === item.link}"`),
+            tag('pubDate', new Date(item.publishedAt).toUTCString()),
+            tag('description', item.summary),
+            tag('category', item.sentiment, ' domain="sentiment"'),
+            ...item.categories.map(category => tag('category', category)),
+            tag('author', item.author),
+            source
+        ]),
+        '    </item>'
+    ].join('\n');
+}
+
+/**
+ * Serializes a channel as an RSS 2.0 document.
+ */
+export function buildRssFeed(channel: FeedOutputChannel, items: FeedOutputItem[]): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '  <channel>',
+        lines('    ', [
+            tag('title', channel.title),
+            tag('link', channel.homeUrl),
+            tag('description', channel.description),
+            `<atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+            tag('lastBuildDate', new Date(channel.updatedAt).toUTCString()),
+            tag('generator', 'Kognit')
+        ]),
+        ...items.map(buildRssItem),
+        '  </channel>',
+        '</rss>',
+        ''
+    ].join('\n');
+}
+
+function buildAtomEntry(item: FeedOutputItem): string {
+    return [
+        '  <entry>',
+        lines('    ', [
+            tag('title', item.title),
+            tag('id', item.id),
+            `<link rel="alternate" href="${escapeXml(item.link)}"/>`,
+            tag('published', item.publishedAt),
+            tag('updated', item.publishedAt),
+            tag('summary', item.summary),
+            item.sentiment ? `<category term="${escapeXml(item.sentiment)}" scheme="${SENTIMENT_SCHEME}" label="sentiment"/>` : '',
+            ...item.categories.map(category => `<category term="${escapeXml(category)}"/>`),
+            item.author ? `<author>${tag('name', item.author)}</author>` : '',
+            item.sourceName ? `<source>${tag('title', item.sourceName)}</source>` : ''
+        ]),
+        '  </entry>'
+    ].join('\n');
+}
+
+/**
+ * Serializes a channel as an Atom 1.0 document.
+ */
+export function buildAtomFeed(channel: FeedOutputChannel, items: FeedOutputItem[]): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        lines('  ', [
+            tag('title', channel.title),
+            tag('subtitle', channel.description),
+            tag('id', channel.selfUrl),
+            `<link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}"/>`,
+            `<link rel="alternate" href="${escapeXml(channel.homeUrl)}"/>`,
+            tag('updated', channel.updatedAt),
+            `<author>${tag('name', 'Kognit')}</author>`,
+            tag('generator', 'Kognit')
+        ]),
+        ...items.map(buildAtomEntry),
+        '</feed>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * Serializes a channel as a JSON Feed 1.1 document. The sentiment is also exposed
+ * in the `_kognit` extension object of each item.
+ */
+export function buildJsonFeed(channel: FeedOutputChannel, items: FeedOutputItem[]): JsonFeed {
+    return {
+        version: 'https://jsonfeed.org/version/1.1',
+        title: channel.title,
+        description: channel.description,
+        home_page_url: channel.homeUrl,
+        feed_url: channel.selfUrl,
+        items: items.map(item => ({
+            id: item.id,
+            url: item.link,
+            title: item.title,
+            content_text: item.summary || item.title,
+            summary: item.summary || undefined,
+            date_published: item.publishedAt,
+            authors: item.author ? [{ name: item.author }] : undefined,
+            tags: [...(item.sentiment ? [item.sentiment] : []), ...item.categories],
+            _kognit: { sentiment: item.sentiment, source: item.sourceName }
+        }))
+    };
+}
@@ -0,0 +1,69 @@
+import { ProcessedArticleData } from '@/types/rss';
+
+const SNIPPET_RADIUS = 80;
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function termsPattern(terms: string[]): RegExp | null {
+    const sorted = [...new Set(terms.filter(Boolean))].sort((a, b) => b.length - a.length);
+    return sorted.length > 0 ? new RegExp(sorted.map(escapeRegExp).join('|'), 'gi') : null;
+}
+
+/**
+ * HTML-escapes a text and wraps the occurrences of the terms in `<mark>`.
+ */
+export function highlightText(text: string, terms: string[]): string {
+    const pattern = termsPattern(terms);
+    if (!pattern) return escapeHtml(text);
+
+    let html = '';
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+        html += `${escapeHtml(text.slice(last, match.index))}<mark>${escapeHtml(match[0])}</mark>`;
+        last = match.index! + match[0].length;
+    }
+    return html + escapeHtml(text.slice(last));
+}
+
+/**
+ * Extracts the passage around the first occurrence of a term, highlighted.
+ *
+ * @returns {string | null} Null if no term occurs in the text.
+ */
+export function highlightSnippet(text: string, terms: string[], radius: number = SNIPPET_RADIUS): string | null {
+    const pattern = termsPattern(terms);
+    const match = pattern?.exec(text);
+    if (!match) return null;
+
+    const start = Math.max(0, match.index - radius);
+    const end = Math.min(text.length, match.index + match[0].length + radius);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    return `${prefix}${highlightText(text.slice(start, end), terms)}${suffix}`;
+}
+
+export interface ArticleHighlight {
+    title: string;          // Escaped title with <mark> around matches
+    snippet: string | null; // Escaped passage of the summary around the first match
+}
+
+/**
+ * Highlights the search terms in an article title and summary.
+ */
+export function highlightArticle(article: ProcessedArticleData, terms: string[]): ArticleHighlight {
+    const summary = article.analysis?.iaSummary || article.summary || '';
+    return {
+        title: highlightText(article.title, terms),
+        snippet: highlightSnippet(summary, terms)
+    };
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal JSON Feed 1.0 / 1.1 model (https://jsonfeed.org/version/1.1).
+ * Only the fields used by the ingestion pipeline are declared.
+ */
+export interface JsonFeedAuthor {
+    name?: string;
+    url?: string;
+}
+
+export interface JsonFeedItem {
+    id: string;
+    url?: string;
+    external_url?: string;
+    title?: string;
+    content_html?: string;
+    content_text?: string;
+    summary?: string;
+    image?: string;
+    banner_image?: string;
+    date_published?: string;
+    date_modified?: string;
+    authors?: JsonFeedAuthor[];
+    author?: JsonFeedAuthor; // JSON Feed 1.0
+    tags?: string[];
+    [extension: `_${string}`]: unknown; // Custom extensions start with an underscore
+}
+
+export interface JsonFeed {
+    version: string;
+    title: string;
+    description?: string;
+    home_page_url?: string;
+    feed_url?: string;
+    language?: string; // JSON Feed 1.1
+    items: JsonFeedItem[];
+}
+
+const JSON_FEED_VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+/**
+ * Detects a JSON Feed response from its Content-Type, falling back to sniffing
+ * the body for servers that answer with a generic type (text/plain, application/json).
+ */
+export function isJsonFeedResponse(contentType: string | undefined, body: string): boolean {
+    const type = (contentType || '').toLowerCase();
+    if (type.includes('application/feed+json')) return true;
+    if (type.includes('xml')) return false;
+
+    const start = body.trimStart();
+    return start.startsWith('{') && start.includes(JSON_FEED_VERSION_PREFIX);
+}
+
+/**
+ * Parses and validates a JSON Feed document.
+ *
+ * @throws {Error} If the body is not JSON or not a JSON Feed.
+ */
+export function parseJsonFeed(body: string): JsonFeed {
+    let data: Partial<JsonFeed>;
+    try {
+        data = JSON.parse(body);
+    } catch {
+        throw new Error('Invalid JSON Feed: body is not valid JSON');
+    }
+
+    if (!data || typeof data.version !== 'string' || !data.version.startsWith(JSON_FEED_VERSION_PREFIX)) {
+        throw new Error('Invalid JSON Feed: missing or unknown version');
+    }
+    if (!Array.isArray(data.items)) {
+        throw new Error('Invalid JSON Feed: items must be an array');
+    }
+
+    return {
+        version: data.version,
+        title: data.title ?? '',
+        home_page_url: data.home_page_url,
+        feed_url: data.feed_url,
+        language: data.language,
+        items: data.items.filter(item => item && typeof item === 'object')
+    };
+}
+
+/**
+ * Returns the author names of an item, supporting both the 1.1 `authors`
+ * array and the deprecated 1.0 `author` object.
+ */
+export function getJsonFeedAuthors(item: JsonFeedItem): string[] {
+    const authors = item.authors ?? (item.author ? [item.author] : []);
+    return authors
+        .map(author => author?.name?.trim())
+        .filter((name): name is string => !!name);
+}
@@ -0,0 +1,114 @@
+// src/utils/languageDetection.ts
+
+export interface LanguageGuess {
+    language: string;
+    confidence: number; // 0-1: margin over the runner-up, reduced for short texts
+}
+
+/**
+ * Most frequent character trigrams of each language, most frequent first
+ * (spaces mark word boundaries). Latin-script languages are told apart by these.
+ */
+const TRIGRAM_PROFILES: Record<string, string[]> = {
+    en: [' th', 'the', 'he ', 'ed ', ' to', ' an', 'and', 'nd ', 'ing', 'ng ', ' of', 'of ', ' in', 'to ', 'ion', 'er ',
+        'in ', ' co', 'es ', 're ', 'on ', 'tio', 'at ', 'is ', 'for', ' fo', 'or ', 'hat', ' wa', 'as ', ' be', 'ere',
+        ' re', 'ter', 'was', 'his', 'ly ', 'll ', 'st ', 'rs ', 'ith', 'wit', 'th ', 'ts ', ' wh', 'ow ', 'ate', 'ers'],
+    fr: ['es ', ' de', 'de ', 'le ', ' le', 'ent', 'nt ', ' la', 'la ', 'les', 're ', 'ion', 'on ', 'des', ' co', ' et',
+        'et ', ' pa', 'que', 'ue ', ' qu', ' po', 'ne ', 'tio', ' un', 'ur ', 'pou', 'our', 'une', 'men', 'par', 'ait',
+        'est', ' da', 'dan', 'ans', 'au ', ' au', 'ux ', 'ée ', 'és ', ' à ', ' du', 'du ', 'eur', 'ses', 'ont', 'aux', 'ché'],
+    es: [' de', 'de ', 'os ', 'la ', ' la', ' el', 'el ', 'es ', 'as ', ' en', 'en ', 'que', 'ue ', ' qu', 'ent', 'ión',
+        'ón ', ' co', 'ad ', 'nte', 'aci', 'ien', ' lo', 'los', 'las', 'del', 'con', 'do ', 'ara', ' pa', 'par', ' se',
+        'cia', 'ció', ' po', 'por', 'or ', 'ado', ' es', 'est', 'ero', ' un', 'una', ' y ', 'ía ', 'año', 'ños', 'ida'],
+    pt: [' de', 'de ', 'os ', ' qu', 'que', 'ue ', 'ão ', 'ção', 'ent', ' co', 'do ', 'da ', 'es ', ' da', ' do', 'as ',
+        'com', 'ra ', 'nte', 'men', ' pa', 'par', 'em ', ' em', 'ado', 'er ', ' se', 'ões', 'nto', 'ara', ' um', 'uma',
+        'não', ' nã', 'ia ', 'ais', 'ica', 'est', 'eir', ' no', 'no ', 'ças', 'açã', 'ndo', 'ou ', ' ao', 'ao '],
+    it: [' di', 'di ', 'la ', 'che', ' de', 'to ', 're ', 'el ', 'one', 'ne ', 'zio', 'ell', 'lla', ' co', 'del', 'ent',
+        'per', ' pe', ' la', 'no ', 'ta ', 'ion', 'on ', 'le ', ' ch', 'ato', 'nte', 'con', ' il', 'il ', ' un', 'ere',
+        'are', 'gli', ' gl', 'ita', 'sta', ' in', 'ti ', 'ri ', 'io ', 'ali', 'nel', ' ne', 'ia ', 'll ', ' è '],
+    de: ['en ', 'er ', 'der', ' de', 'ch ', 'ie ', 'ein', 'sch', 'ich', 'die', ' di', 'nd ', 'und', ' un', 'den', 'cht',
+        'te ', ' ei', 'ine', 'in ', 'es ', 'gen', 'ung', 'ng ', ' da', 'ver', ' ge', 'ter', 'ten', 'auf', 'ist', ' is',
+        'st ', 'das', 'nen', 'ber', 'mit', ' mi', 'sie', ' si', 'ach', 'eit', 'lic', 'für', ' fü', ' zu', 'ür ', 'rn '],
+    nl: ['en ', 'de ', ' de', 'et ', 'an ', ' he', 'het', 'van', ' va', 'er ', 'een', ' ee', 'ij ', 'aar', 'cht', 'ing',
+        'oor', ' in', 'in ', 'nd ', 'ver', ' ge', 'ge ', 'te ', 'sch', ' te', 'den', 'ijk', 'lij', ' op', 'op ', 'ie ',
+        ' zi', 'zij', 'ers', 'eer', 'nde', 'ar ', 'ten', 'wor', 'ord', ' vo', 'voo', 'ijn', 'ee ', 'aan', ' aa']
+};
+
+/**
+ * Languages identified by their script alone (share of the letters written in it).
+ * Japanese is checked before Chinese: Japanese text mixes kana with Han characters.
+ */
+const SCRIPT_LANGUAGES: [string, RegExp][] = [
+    ['ja', /[぀-ヿ]/gu],
+    ['zh', /[一-鿿]/gu],
+    ['ru', /[Ѐ-ӿ]/gu],
+    ['ar', /[؀-ۿ]/gu]
+];
+
+/** Below this many trigrams, the confidence is scaled down. */
+const RELIABLE_TRIGRAM_COUNT = 60;
+const MIN_SCRIPT_SHARE = 0.3;
+
+const PROFILE_WEIGHTS = Object.fromEntries(Object.entries(TRIGRAM_PROFILES).map(([language, trigrams]) => [
+    language,
+    new Map(trigrams.map((trigram, rank) => [trigram, 1 - rank / (2 * trigrams.length)]))
+]));
+
+function normalize(text: string): string {
+    return text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/https?:\/\/\S+/g, ' ')
+        .toLowerCase();
+}
+
+function countTrigrams(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const word of text.split(/[^\p{L}]+/u).filter(Boolean)) {
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            const trigram = padded.slice(i, i + 3);
+            counts.set(trigram, (counts.get(trigram) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+function detectScript(text: string): LanguageGuess | null {
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    if (letters === 0) return null;
+    for (const [language, pattern] of SCRIPT_LANGUAGES) {
+        const share = (text.match(pattern)?.length ?? 0) / letters;
+        if (share >= MIN_SCRIPT_SHARE) return { language, confidence: Number(Math.min(1, share).toFixed(2)) };
+    }
+    return null;
+}
+
+function scoreProfiles(trigrams: Map<string, number>): [string, number][] {
+    return Object.entries(PROFILE_WEIGHTS)
+        .map(([language, weights]): [string, number] => {
+            let score = 0;
+            for (const [trigram, count] of trigrams) score += (weights.get(trigram) ?? 0) * count;
+            return [language, score];
+        })
+        .sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Identifies the language of a text offline: by script for Japanese, Chinese, Russian
+ * and Arabic, else by matching its character trigrams against per-language profiles.
+ *
+ * @returns {LanguageGuess | null} Null if the text has no recognisable content.
+ */
+export function detectLanguage(text: string): LanguageGuess | null {
+    const normalized = normalize(text);
+    const byScript = detectScript(normalized);
+    if (byScript) return byScript;
+
+    const trigrams = countTrigrams(normalized);
+    const total = [...trigrams.values()].reduce((sum, count) => sum + count, 0);
+    const [[language, best], [, runnerUp]] = scoreProfiles(trigrams);
+    if (best === 0) return null;
+
+    const margin = 1 - runnerUp / best;
+    const confidence = margin * Math.min(1, total / RELIABLE_TRIGRAM_COUNT);
+    return { language, confidence: Number(confidence.toFixed(2)) };
+}
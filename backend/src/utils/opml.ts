@@ -0,0 +1,125 @@
+import * as cheerio from 'cheerio';
+import { escapeXml } from './xml';
+
+/**
+ * A feed entry read from or written to an OPML document.
+ * `language`, `color`, `maxArticles` and `enabled` are Kognit custom attributes.
+ */
+export interface OpmlFeed {
+    name: string;
+    url: string;
+    category: string;
+    language?: string;
+    color?: string;
+    maxArticles?: number;
+    enabled?: boolean;
+}
+
+export const DEFAULT_OPML_CATEGORY = 'Imported';
+
+function buildFeedOutline(feed: OpmlFeed): string {
+    const attributes: [string, string | number | boolean | undefined][] = [
+        ['type', 'rss'],
+        ['text', feed.name],
+        ['title', feed.name],
+        ['xmlUrl', feed.url],
+        ['language', feed.language],
+        ['color', feed.color],
+        ['maxArticles', feed.maxArticles],
+        ['enabled', feed.enabled]
+    ];
+
+    const serialized = attributes
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+        .join(' ');
+
+    return `      <outline ${serialized}/>`;
+}
+
+/**
+ * Serializes feeds into an OPML 2.0 document, one outline group per category.
+ */
+export function buildOpml(feeds: OpmlFeed[], title: string = 'Kognit sources'): string {
+    const byCategory = new Map<string, OpmlFeed[]>();
+    for (const feed of feeds) {
+        if (!byCategory.has(feed.category)) byCategory.set(feed.category, []);
+        byCategory.get(feed.category)!.push(feed);
+    }
+
+    const groups = Array.from(byCategory.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([category, categoryFeeds]) => [
+            `    <outline text="${escapeXml(category)}" title="${escapeXml(category)}">`,
+            ...categoryFeeds.map(buildFeedOutline),
+            '    </outline>'
+        ].join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        '  <head>',
+        `    <title>${escapeXml(title)}</title>`,
+        `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+        '  </head>',
+        '  <body>',
+        ...groups,
+        '  </body>',
+        '</opml>',
+        ''
+    ].join('\n');
+}
+
+function parseOptionalNumber(value?: string): number | undefined {
+    if (!value) return undefined;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed <= 0 ? undefined : parsed;
+}
+
+function parseOptionalBoolean(value?: string): boolean | undefined {
+    if (value === undefined) return undefined;
+    return value.toLowerCase() !== 'false';
+}
+
+/**
+ * Resolves the category of a feed outline: the nearest parent group,
+ * then the OPML `category` attribute (e.g. "/Tech/AI"), then the default category.
+ */
+function resolveCategory(groupName?: string, categoryAttr?: string): string {
+    if (groupName && groupName.trim()) return groupName.trim();
+
+    if (categoryAttr) {
+        const last = categoryAttr.split(',')[0].split('/').filter(Boolean).pop();
+        if (last && last.trim()) return last.trim();
+    }
+    return DEFAULT_OPML_CATEGORY;
+}
+
+/**
+ * Extracts every feed outline (outlines carrying an `xmlUrl`) from an OPML document.
+ *
+ * @throws {Error} If the document has no `<opml>` root.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+    const $ = cheerio.load(xml, { xml: true });
+    if ($('opml').length === 0) {
+        throw new Error('Invalid OPML document: missing <opml> root element');
+    }
+
+    const feeds: OpmlFeed[] = [];
+    $('outline[xmlUrl]').each((_index, outline) => {
+        const attrs = $(outline).attr() || {};
+        const parentGroup = $(outline).parent('outline');
+        const url = attrs.xmlUrl.trim();
+        feeds.push({
+            name: (attrs.text || attrs.title || url).trim(),
+            url,
+            category: resolveCategory(parentGroup.attr('text') || parentGroup.attr('title'), attrs.category),
+            language: attrs.language || undefined,
+            color: attrs.color || undefined,
+            maxArticles: parseOptionalNumber(attrs.maxArticles),
+            enabled: parseOptionalBoolean(attrs.enabled)
+        });
+    });
+    return feeds;
+}
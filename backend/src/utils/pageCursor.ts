@@ -0,0 +1,51 @@
+import { ObjectId } from 'mongodb';
+import { AppError } from './errorHandler';
+
+/**
+ * Position of the last article of a page, in the (publicationDate desc, _id desc) order.
+ */
+export interface PageCursor {
+    publicationDate: string | null;
+    id: ObjectId;
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe token.
+ */
+export function encodePageCursor(publicationDate: string | null | undefined, id: ObjectId): string {
+    return Buffer.from(JSON.stringify([publicationDate ?? null, id.toHexString()])).toString('base64url');
+}
+
+/**
+ * @throws {AppError} 400 if the token was not produced by `encodePageCursor`.
+ */
+export function decodePageCursor(token: string): PageCursor {
+    try {
+        const [publicationDate, id] = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if ((publicationDate !== null && typeof publicationDate !== 'string') || !ObjectId.isValid(id)) throw new Error();
+        return { publicationDate, id: new ObjectId(id) };
+    } catch {
+        throw new AppError('Invalid pagination cursor', 400);
+    }
+}
+
+/**
+ * Encodes the position of the next page of a relevance-sorted listing. Text scores
+ * cannot be compared across queries, so these pages use an offset.
+ */
+export function encodeOffsetCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+/**
+ * @throws {AppError} 400 if the token was not produced by `encodeOffsetCursor`.
+ */
+export function decodeOffsetCursor(token: string): number {
+    try {
+        const { offset } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+        if (!Number.isInteger(offset) || offset < 0) throw new Error();
+        return offset;
+    } catch {
+        throw new AppError('Invalid pagination cursor', 400);
+    }
+}
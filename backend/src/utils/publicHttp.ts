@@ -0,0 +1,95 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { URL } from 'url';
+import { AppError } from './errorHandler';
+
+const MAX_REDIRECTS = 5;
+
+/** Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges. */
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+    NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Tells whether an IP address is reachable on the public internet.
+ * BlockList also matches IPv4-mapped IPv6 addresses (`::ffff:127.0.0.1`) against the IPv4 ranges.
+ */
+export function isPublicAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return false;
+    return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves a host name and fails if any of its addresses is not public.
+ *
+ * @throws {AppError} 400 if the host points to a private, loopback or link-local address.
+ */
+async function resolvePublicAddresses(hostname: string): Promise<{ address: string; family: number }[]> {
+    const host = hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+        throw new AppError(`Refusing to fetch ${hostname}: not a public address`, 400);
+    }
+    return addresses;
+}
+
+/**
+ * Checks that a URL is http(s) and that its host resolves to public addresses only.
+ *
+ * @throws {AppError} 400 otherwise.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new AppError(`Invalid URL: ${url}`, 400);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new AppError(`Refusing to fetch ${url}: only http and https are allowed`, 400);
+    }
+    await resolvePublicAddresses(parsed.hostname);
+}
+
+/**
+ * GETs a URL given by a user without letting it reach the internal network (SSRF).
+ * Every redirect hop is checked before it is followed, and the connection itself goes
+ * through a lookup that rejects private addresses, so a host re-resolving to an internal
+ * address between the check and the request (DNS rebinding) is refused as well.
+ *
+ * @returns {Promise<{ response: AxiosResponse<T>; url: string }>} The response and the final URL.
+ * @throws {AppError} 400 if a hop targets a non-public address.
+ */
+export async function fetchPublicUrl<T = string>(
+    url: string,
+    config: AxiosRequestConfig = {}
+): Promise<{ response: AxiosResponse<T>; url: string }> {
+    const accepts = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        await assertPublicUrl(current);
+        const response = await axios.get<T>(current, {
+            ...config,
+            maxRedirects: 0,
+            validateStatus: status => (status >= 300 && status < 400) || accepts(status),
+            lookup: async (hostname: string) => (await resolvePublicAddresses(hostname))[0]
+        } as AxiosRequestConfig);
+
+        const location = response.headers?.location;
+        if (response.status < 300 || response.status >= 400 || !location) return { response, url: current };
+        current = new URL(String(location), current).href;
+    }
+    throw new AppError(`Too many redirects fetching ${url}`, 502);
+}
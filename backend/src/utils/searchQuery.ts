@@ -0,0 +1,93 @@
+/**
+ * A parsed search box query. Syntax:
+ * - `word`, `"exact phrase"`: full-text search (title and summary)
+ * - `-word`, `-"phrase"`: exclude articles containing it
+ * - `title:word`, `entity:"Jerome Powell"`, `author:name`, `source:"Les Echos"`
+ * - `sentiment:bearish`
+ * - `after:2026-01-01`, `before:2026-02-01`, `date:2026-01-01..2026-01-31`, `date:2026-01-15`
+ */
+export interface SearchQuery {
+    terms: string[];
+    phrases: string[];
+    excluded: string[];
+    title: string[];
+    entities: string[];
+    authors: string[];
+    sources: string[];
+    sentiment: string | null;
+    after: string | null;  // ISO date, inclusive
+    before: string | null; // ISO date, exclusive
+}
+
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string): Date | null {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function applyDateRange(query: SearchQuery, value: string): void {
+    const [from, to] = value.split('..');
+    const start = from ? parseDay(from) : null;
+    // A single day, or the inclusive end of a range, covers that whole day
+    const end = parseDay(to ?? from);
+    if (start) query.after = start.toISOString();
+    if (end && (to || start)) query.before = new Date(end.getTime() + DAY_MS).toISOString();
+}
+
+const FIELD_HANDLERS: Record<string, (query: SearchQuery, value: string) => void> = {
+    title: (query, value) => { query.title.push(value); },
+    entity: (query, value) => { query.entities.push(value); },
+    author: (query, value) => { query.authors.push(value); },
+    source: (query, value) => { query.sources.push(value); },
+    sentiment: (query, value) => { query.sentiment = value.toLowerCase(); },
+    after: (query, value) => { query.after = parseDay(value)?.toISOString() ?? query.after; },
+    before: (query, value) => { query.before = parseDay(value)?.toISOString() ?? query.before; },
+    date: applyDateRange
+};
+
+function applyTextToken(query: SearchQuery, value: string, quoted: boolean, negated: boolean): void {
+    if (negated) query.excluded.push(value);
+    else if (quoted) query.phrases.push(value);
+    else query.terms.push(value);
+}
+
+/**
+ * Parses a search box query. Unknown `field:` prefixes are searched as plain text.
+ */
+export function parseSearchQuery(input: string = ''): SearchQuery {
+    const query: SearchQuery = {
+        terms: [], phrases: [], excluded: [], title: [], entities: [], authors: [], sources: [],
+        sentiment: null, after: null, before: null
+    };
+
+    for (const [, negated, field, quoted, bare] of input.matchAll(TOKEN_PATTERN)) {
+        const value = (quoted ?? bare ?? '').trim();
+        const handler = field ? FIELD_HANDLERS[field.toLowerCase()] : undefined;
+        if (!value) continue;
+        if (handler) handler(query, value);
+        else applyTextToken(query, field ? `${field}:${value}` : value, quoted !== undefined, Boolean(negated));
+    }
+    return query;
+}
+
+/**
+ * The `$text` search string of the free-text part (`word "phrase" -excluded`), or null
+ * without positive terms: `$text` matches nothing when it only has negations.
+ */
+export function toTextSearch(query: SearchQuery): string | null {
+    if (query.terms.length === 0 && query.phrases.length === 0) return null;
+    return [
+        ...query.terms,
+        ...query.phrases.map(phrase => `"${phrase.replace(/"/g, '')}"`),
+        ...query.excluded.map(term => (/\s/.test(term) ? `-"${term}"` : `-${term}`))
+    ].join(' ');
+}
+
+/**
+ * Words to highlight in the results.
+ */
+export function highlightTerms(query: SearchQuery): string[] {
+    return [...query.phrases, ...query.terms, ...query.title, ...query.entities];
+}
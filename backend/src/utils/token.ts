@@ -0,0 +1,71 @@
+// src/utils/token.ts
+import crypto from 'crypto';
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+function hmac(secret: string, data: string): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Signs a JSON Web Token (HS256) valid for `ttlSeconds`.
+ */
+export function signToken<T extends object>(payload: T, secret: string, ttlSeconds: number, now: number = Date.now()): string {
+    const iat = Math.floor(now / 1000);
+    const body = base64url(JSON.stringify({ ...payload, iat, exp: iat + ttlSeconds }));
+    return `${HEADER}.${body}.${hmac(secret, `${HEADER}.${body}`)}`;
+}
+
+/**
+ * Verifies the signature and expiry of an HS256 JSON Web Token.
+ *
+ * @returns {T | null} The payload, or null if the token is malformed, forged or expired.
+ */
+export function verifyToken<T extends { exp: number }>(token: string, secret: string, now: number = Date.now()): T | null {
+    const [header, body, signature] = token.split('.');
+    if (header !== HEADER || !body || !hasValidSignature(`${header}.${body}`, signature, secret)) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T;
+        return typeof payload.exp === 'number' && payload.exp * 1000 > now ? payload : null;
+    } catch {
+        return null;
+    }
+}
+
+function hasValidSignature(data: string, signature: string | undefined, secret: string): boolean {
+    if (!signature) return false;
+    const expected = Buffer.from(hmac(secret, data));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Hashes a password with scrypt and a random salt (`salt:hash`, hex).
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt);
+    return `${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a `hashPassword` result in constant time.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hashHex] = stored.split(':');
+    if (!salt || !hashHex) return false;
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scrypt(password, salt);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function scrypt(password: string, salt: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, 64, (error, key) => (error ? reject(error) : resolve(key)));
+    });
+}
@@ -1,9 +1,22 @@
 import { connectToDatabase } from '../config/database';
 import logger from '../utils/logger';
-import { ProcessedArticleData, FinancialAnalysis as ArticleAnalysis } from '../types/rss';
+import { ProcessedArticleData, ArticleEntity, FinancialAnalysis as ArticleAnalysis } from '../types/rss';
 import { ScraperService } from '../utils/scraper';
 import { RssRepository } from '../repositories/rssRepository';
 import { aiService, SentimentResult } from '../services/aiService';
+import { JobQueueService } from '../services/jobQueueService';
+import { WebhookService } from '../services/webhookService';
+import { AlertService } from '../services/alertService';
+import { AlertRepository } from '../repositories/alertRepository';
+import { JobRepository } from '../repositories/jobRepository';
+import { TranslationService } from '../services/translationService';
+import { AssetExtractionService } from '../services/assetExtractionService';
+import { EntityService } from '../services/entityService';
+import { LanguageDetectionService } from '../services/languageDetectionService';
+import { jobConfig } from '../config/jobConfig';
+import { Job, JobType, JOB_TYPES, WorkerMessage } from '../types/job';
+import { AiTask } from '../types/ai';
+import { EntityMention } from '../types/entity';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -14,19 +27,38 @@ dotenv.config({ path: path.resolve(process.cwd(), envPath) });
 // Flag to stop the worker gracefully
 let isRunning = true;
 
+// Set by the supervisor; a worker started by hand runs every stage
+const WORKER_ID = process.env.WORKER_ID || `ai-worker-${process.pid}`;
+const WORKER_STAGES = (process.env.WORKER_STAGE ? [process.env.WORKER_STAGE] : JOB_TYPES) as JobType[];
+
+/** Models each stage runs: a summary worker never loads the NER or translation models. */
+const STAGE_AI_TASKS: Record<JobType, AiTask[]> = {
+    analysis: ['sentiment', 'ner'],
+    summary: ['summarization'],
+    translation: ['translation']
+};
+
+/** A handler returns a date when the job has to wait (it is then requeued without counting the attempt). */
+type JobHandler = (job: Job, article: ProcessedArticleData) => Promise<{ deferUntil: Date; reason: string } | void>;
+
 async function startWorker() {
     try {
         // 1. Initialize standalone DB connection
         await connectToDatabase();
         logger.info('🧵 [AI Worker] Database connected.');
 
-        // 2. Initialize AI Models
-        logger.info('🧵 [AI Worker] Initializing AI models...');
-        await aiService.init();
+        // 2. Initialize the AI models of this worker's stages only
+        logger.info(`🧵 [AI Worker] Initializing AI models for ${WORKER_STAGES.join(', ')}...`);
+        await aiService.init(WORKER_STAGES.flatMap(stage => STAGE_AI_TASKS[stage]));
         logger.info('🧵 [AI Worker] AI Models ready.');
 
-        // 3. Main Loop
-        await runWorker();
+        // 3. Prepare the job queue (articles stored without a job are queued now)
+        await JobRepository.ensureIndexes();
+        await AlertRepository.ensureIndexes();
+        await JobQueueService.backfillPending();
+
+        // 4. Main Loops: one lane per stage, so the fast path is never blocked by a slow summary
+        await Promise.all(WORKER_STAGES.map(stage => runLane(stage, JOB_HANDLERS[stage])));
 
     } catch (startupError) {
         logger.error('❌ [AI Worker] Fatal Startup Error:', startupError);
@@ -34,118 +66,192 @@ async function startWorker() {
     }
 }
 
-// Flag for summary concurrency control
-let activeSummaries = 0;
-const MAX_CONCURRENT_SUMMARIES = 1;
-
 /**
- * Main worker loop.
+ * Claims and runs the jobs of one type, one at a time.
  */
-async function runWorker() {
-    logger.info('🧵 [AI Worker] Starting incremental analysis loop...');
+async function runLane(type: JobType, handler: JobHandler) {
+    logger.info(`🧵 [AI Worker] Starting ${type} lane...`);
 
     while (isRunning) {
         try {
-            const pendingArticles = await RssRepository.findPendingAnalysis(10);
-
-            if (pendingArticles.length === 0) {
-                await delay(5000);
+            const job = await JobQueueService.claimNext(WORKER_ID, [type]);
+            if (!job) {
+                await delay(jobConfig.pollIntervalMs);
                 continue;
             }
-
-            for (const article of pendingArticles) {
-                if (!isRunning) break;
-                await processArticleIncrementally(article);
-            }
-
+            await runJob(job, handler);
         } catch (error) {
-            logger.error('🧵 [AI Worker] Fatal error in loop:', error);
+            logger.error(`🧵 [AI Worker] Fatal error in ${type} lane:`, error);
             await delay(10000);
         }
     }
 }
 
 /**
- * Processes an article in stages:
- * 1. Fast Path: Sentiment + NER (awaited, then saved)
- * 2. Slow Path: Summarization (not awaited here)
+ * Runs a claimed job and records its outcome. Failed jobs are retried with backoff;
+ * once dead-lettered, the error is also stored on the article.
  */
-async function processArticleIncrementally(article: ProcessedArticleData) {
-    const startTime = Date.now();
-    const id = article._id ? article._id.toString() : '';
-    if (!id) return;
-
+async function runJob(job: Job, handler: JobHandler) {
+    const start = Date.now();
     try {
-        const content = await prepareArticleContent(article);
-        if (!content) {
-            await RssRepository.updateById(id, { processedAt: new Date().toISOString() });
+        const article = await RssRepository.findById(job.articleId);
+        // A deleted article leaves nothing to do
+        const deferral = article ? await handler(job, article) : undefined;
+        if (deferral) {
+            await JobQueueService.defer(job, deferral.reason, deferral.deferUntil);
             return;
         }
+        await JobQueueService.complete(job);
+        reportToSupervisor({ type: 'JOB_DONE', jobType: job.type, durationMs: Date.now() - start });
+    } catch (error) {
+        reportToSupervisor({ type: 'JOB_FAILED', jobType: job.type, durationMs: Date.now() - start });
+        logger.error(`🧵 [AI Worker] ❌ ${job.type} failed for [${job.articleId}] (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+        const dead = await JobQueueService.fail(job, error);
+        if (dead) {
+            await RssRepository.updateById(job.articleId, { error: String(error), processedAt: new Date().toISOString() });
+        }
+    }
+}
 
-        // --- STAGE 1: FAST PATH ---
-        logger.info(`🧵 [AI Worker] ⚡ FAST PATH: "${article.title.slice(0, 40)}..."`);
+/**
+ * Fast Path: Sentiment + NER, then queues the summary (slow path).
+ */
+async function processAnalysisJob(job: Job, article: ProcessedArticleData) {
+    const startTime = Date.now();
+    const id = job.articleId;
 
-        const articleContext = `${article.feedName} | ${article.title}`;
-        const [sentiment, entities] = await Promise.all([
-            aiService.analyzeSentiment(content, articleContext),
-            aiService.extractEntities(content, articleContext)
-        ]);
+    const content = await prepareArticleContent(article);
+    if (!content) {
+        await RssRepository.updateById(id, { processedAt: new Date().toISOString() });
+        return;
+    }
 
-        const analysis: ArticleAnalysis = {
-            sentiment: mapSentimentLabel(sentiment),
-            sentimentScore: sentiment?.score || 0,
-            entities: entities,
-            isPromotional: detectPromo(article.title, content)
-        };
+    logger.info(`🧵 [AI Worker] ⚡ FAST PATH: "${article.title.slice(0, 40)}..."`);
+
+    // The scraped text identifies the language more reliably than the feed summary
+    const language = LanguageDetectionService.detect(`${article.title}. ${content}`, article.language || 'en');
+
+    const articleContext = `${article.feedName} | ${article.title}`;
+    const [sentiment, rawEntities] = await Promise.all([
+        aiService.analyzeSentiment(content, articleContext),
+        aiService.extractEntities(content, articleContext)
+    ]);
+    const mentions = EntityService.canonicalize(rawEntities);
+    const entities: ArticleEntity[] = mentions.map(({ text, label, score, entityId }) => ({ text, label, score, entityId }));
+
+    const analysis: ArticleAnalysis = {
+        ...(article.analysis || {}),
+        sentiment: mapSentimentLabel(sentiment),
+        sentimentScore: sentiment?.score || 0,
+        entities: entities,
+        mentionedAssets: AssetExtractionService.extract(`${article.title}. ${content}`, entities),
+        isPromotional: detectPromo(article.title, content)
+    };
+
+    await RssRepository.updateById(id, {
+        analysis,
+        ...language,
+        error: null,
+        processedAt: new Date().toISOString()
+    });
+    await indexEntities(article, mentions);
+
+    logger.info(`🧵 [AI Worker] ✅ FAST PATH DONE for [${id}] in ${Date.now() - startTime}ms`);
+    reportToSupervisor({ type: 'COMPLETED', stage: 'analysis', articleId: id, title: article.title });
+    await AlertService.evaluate({ ...article, ...language, analysis });
+
+    // The translation follows the summary, so that it includes the AI summary
+    if (content.length >= 200) {
+        await JobQueueService.enqueue('summary', id, job.priority);
+    } else {
+        await enqueueTranslation(job, { ...article, ...language });
+    }
+    // Last step: if queuing throws, the retry must not notify subscribers a second time
+    await WebhookService.dispatch('article.analyzed', { ...article, ...language, analysis });
+}
 
-        await RssRepository.updateById(id, {
-            analysis,
-            processedAt: new Date().toISOString()
-        });
+/**
+ * Counts the article in the entity store unless an earlier analysis already did. Runs once
+ * the entity ids are saved on the article: a retry then sees them and does not count twice.
+ */
+async function indexEntities(article: ProcessedArticleData, mentions: EntityMention[]): Promise<void> {
+    const alreadyIndexed = article.analysis?.entities?.some(entity => entity.entityId);
+    if (alreadyIndexed) return;
+    try {
+        await EntityService.indexArticle(mentions, article.publicationDate || article.fetchedAt || new Date().toISOString());
+    } catch (error) {
+        logger.error(`❌ [AI Worker] Could not index the entities of [${article._id}]:`, error);
+    }
+}
 
-        logger.info(`🧵 [AI Worker] ✅ FAST PATH DONE for [${id}] in ${Date.now() - startTime}ms`);
+/**
+ * Slow Path: abstractive summary of the scraped content, then the translation.
+ */
+async function processSummaryJob(job: Job, article: ProcessedArticleData) {
+    const content = article.fullText || article.summary || '';
+    if (content.length >= 200) await summarizeArticle(job, article, content);
+    await enqueueTranslation(job, article);
+}
 
-        // --- STAGE 2: SLOW PATH ---
-        if (content.length >= 200) {
-            processSummaryInBackground(id, content, article.title, article.feedName || 'Unknown');
-        }
+async function summarizeArticle(job: Job, article: ProcessedArticleData, content: string) {
+    logger.info(`🧵 [AI Worker] 🐢 SLOW PATH START: Summarizing "${article.title.slice(0, 30)}..."`);
+    const start = Date.now();
+    const articleContext = `${article.feedName || 'Unknown'} | ${article.title}`;
+    const iaSummary = await aiService.summarize(content, articleContext);
+
+    if (iaSummary) {
+        // Re-read the article: the fast path may have updated the analysis meanwhile
+        const existing = await RssRepository.findById(job.articleId);
+        const updatedAnalysis = {
+            ...(existing?.analysis || {}),
+            iaSummary
+        };
 
-    } catch (error) {
-        logger.error(`🧵 [AI Worker] Error processing article ${id}:`, error);
-        await RssRepository.updateById(id, { error: String(error), processedAt: new Date().toISOString() });
+        await RssRepository.updateById(job.articleId, { analysis: updatedAnalysis as ArticleAnalysis });
+        logger.info(`🧵 [AI Worker] ✨ SLOW PATH DONE (${Date.now() - start}ms) for [${job.articleId}]`);
+        reportToSupervisor({ type: 'COMPLETED', stage: 'summary', articleId: job.articleId, title: article.title });
     }
 }
 
 /**
- * Handles summarization without blocking the main worker loop.
+ * Queues the translation if the article lacks one of the target languages. A translation
+ * done before the languages changed is reopened for the new ones.
  */
-async function processSummaryInBackground(id: string, content: string, title: string, feedName: string) {
-    while (activeSummaries >= MAX_CONCURRENT_SUMMARIES) {
-        await delay(2000);
+async function enqueueTranslation(job: Job, article: ProcessedArticleData) {
+    const languages = await TranslationService.getTargetLanguages();
+    if (TranslationService.missingLanguages(article, languages).length > 0) {
+        await JobQueueService.requeue('translation', job.articleId, job.priority);
     }
+}
+
+/**
+ * Translates the title, summary and AI summary into the target languages. Once the
+ * daily budget is spent, the job waits for the next budget day.
+ */
+async function processTranslationJob(job: Job, article: ProcessedArticleData) {
+    const targets = TranslationService.missingLanguages(article, await TranslationService.getTargetLanguages());
+    if (targets.length === 0) return;
 
-    activeSummaries++;
     try {
-        logger.info(`🧵 [AI Worker] 🐢 SLOW PATH START: Summarizing "${title.slice(0, 30)}..."`);
-        const start = Date.now();
-        const articleContext = `${feedName} | ${title}`;
-        const iaSummary = await aiService.summarize(content, articleContext);
-
-        if (iaSummary) {
-            const existing = await RssRepository.findById(id);
-            const updatedAnalysis = {
-                ...(existing?.analysis || {}),
-                iaSummary
-            };
-
-            await RssRepository.updateById(id, { analysis: updatedAnalysis as ArticleAnalysis });
-            logger.info(`🧵 [AI Worker] ✨ SLOW PATH DONE (${Date.now() - start}ms) for [${id}]`);
-        }
+        await TranslationService.translateArticle(article, targets);
     } catch (error) {
-        logger.error(`🧵 [AI Worker] ❌ Summary failed for ${id}:`, error);
-    } finally {
-        activeSummaries--;
+        if (!TranslationService.isBudgetExhausted(error)) throw error;
+        return { deferUntil: TranslationService.budgetResetsAt(), reason: 'Daily translation budget exhausted' };
     }
+    logger.info(`🧵 [AI Worker] 🌐 TRANSLATED [${job.articleId}] into ${targets.join(', ')}`);
+}
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+    analysis: processAnalysisJob,
+    summary: processSummaryJob,
+    translation: processTranslationJob
+};
+
+/**
+ * Sends throughput and completion events to the supervisor (no-op when not forked).
+ */
+function reportToSupervisor(message: WorkerMessage) {
+    if (process.send) process.send(message);
 }
 
 function mapSentimentLabel(s: SentimentResult | null): 'bullish' | 'bearish' | 'neutral' {
@@ -30,6 +30,9 @@ export default [
                 HTMLElement: 'readonly',
                 IntersectionObserver: 'readonly',
                 fetch: 'readonly',
+                EventSource: 'readonly',
+                MessageEvent: 'readonly',
+                URLSearchParams: 'readonly',
             },
         },
         plugins: {
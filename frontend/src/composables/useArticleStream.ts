@@ -0,0 +1,59 @@
+import { ref, onUnmounted } from 'vue';
+import type { Article } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+export type ArticleStreamEventType = 'article.created' | 'article.analyzed' | 'article.summarized' | 'sync.completed';
+
+export interface ArticleStreamEvent {
+    id: number;
+    type: ArticleStreamEventType;
+    at: string;
+    article?: Article;
+    sync?: { processed: number; errors: number; notModified: number };
+}
+
+type ArticleStreamHandlers = Partial<Record<ArticleStreamEventType, (event: ArticleStreamEvent) => void>>;
+
+const EVENT_TYPES: ArticleStreamEventType[] = ['article.created', 'article.analyzed', 'article.summarized', 'sync.completed'];
+
+function toQueryString(params: Record<string, unknown>): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        if (value === null || value === undefined || value === '' || value === false) return;
+        query.append(key, String(value));
+    });
+    return query.toString();
+}
+
+/**
+ * Subscribes to the live article stream (Server-Sent Events) with the current feed filters.
+ * The browser reconnects on its own; `connect` must be called again when the filters change.
+ */
+export function useArticleStream(getFilters: () => Record<string, unknown>, handlers: ArticleStreamHandlers) {
+    const isLive = ref(false);
+    let source: EventSource | null = null;
+
+    const disconnect = () => {
+        source?.close();
+        source = null;
+        isLive.value = false;
+    };
+
+    const connect = () => {
+        disconnect();
+        source = new EventSource(`${API_BASE_URL}/api/rss/stream?${toQueryString(getFilters())}`);
+        source.onopen = () => { isLive.value = true; };
+        source.onerror = () => { isLive.value = false; };
+
+        EVENT_TYPES.forEach(type => {
+            const handler = handlers[type];
+            if (!handler) return;
+            source?.addEventListener(type, (message: MessageEvent) => handler(JSON.parse(message.data)));
+        });
+    };
+
+    onUnmounted(disconnect);
+
+    return { isLive, connect, disconnect };
+}
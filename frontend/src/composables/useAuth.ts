@@ -0,0 +1,47 @@
+import { ref, computed } from 'vue';
+import axios from 'axios';
+import type { AuthUser } from '../types';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '';
+
+export type AuthMode = 'login' | 'register';
+
+const token = ref<string | null>(localStorage.authToken || null);
+const user = ref<AuthUser | null>(localStorage.authUser ? JSON.parse(localStorage.authUser) : null);
+
+const logout = () => {
+    token.value = null;
+    user.value = null;
+    localStorage.removeItem('authToken');
+    localStorage.removeItem('authUser');
+};
+
+// Every API call carries the access token; an expired or revoked token ends the session
+axios.interceptors.request.use(config => {
+    if (token.value) config.headers.Authorization = `Bearer ${token.value}`;
+    return config;
+});
+
+axios.interceptors.response.use(response => response, error => {
+    if (axios.isAxiosError(error) && error.response?.status === 401 && token.value) logout();
+    return Promise.reject(error);
+});
+
+/**
+ * Session of the signed-in account (token and user kept in localStorage).
+ */
+export function useAuth() {
+    const isAuthenticated = computed(() => Boolean(token.value && user.value));
+    const isAdmin = computed(() => user.value?.role === 'admin');
+
+    const authenticate = async (mode: AuthMode, email: string, password: string): Promise<AuthUser> => {
+        const { data } = await axios.post(`${API_BASE_URL}/api/auth/${mode}`, { email, password });
+        token.value = data.token;
+        user.value = data.user;
+        localStorage.authToken = data.token;
+        localStorage.authUser = JSON.stringify(data.user);
+        return data.user;
+    };
+
+    return { user, isAuthenticated, isAdmin, authenticate, logout };
+}
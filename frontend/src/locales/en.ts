@@ -8,6 +8,7 @@ export default {
         refresh: "Refresh nexus",
         syncing: "Syncing...",
         search_placeholder: "Search the nexus...",
+        search_syntax: "Syntax: title:, entity:\"Jerome Powell\", author:, source:, sentiment:bearish, after:2026-01-01, date:2026-01-01..2026-01-31, \"exact phrase\", -exclude",
         all: "All",
         promotional: "Promotional",
         view_source: "View Source"
@@ -39,7 +40,8 @@ export default {
         coordinate_mismatch: "Coordinate Mismatch",
         no_signals: "No signals detected in this sector. Try recalibrating your search parameters or synchronize with the network.",
         reset_nexus: "Reset Nexus",
-        pulse_completed: "Pulse of the Nexus Completed"
+        pulse_completed: "Pulse of the Nexus Completed",
+        live: "Live"
     },
     article: {
         ai_insight: "AI Insight",
@@ -56,5 +58,26 @@ export default {
         total: "All Articles",
         saved: "Favorites",
         enriched: "Syntheses"
+    },
+    entity: {
+        back: "Back to feed",
+        articles: "{count} articles",
+        first_seen: "First mention",
+        last_seen: "Last mention",
+        aliases: "Also known as",
+        sentiment_trend: "Sentiment Trend",
+        recent_articles: "Recent Articles",
+        related: "Related Entities",
+        co_mentions: "{count} shared articles",
+        no_articles: "No recent articles",
+        no_related: "No related entities",
+        not_found: "Entity not found",
+        open: "Open the page of {name}",
+        labels: {
+            ORG: "Organization",
+            PER: "Person",
+            LOC: "Location",
+            MISC: "Miscellaneous"
+        }
     }
 };
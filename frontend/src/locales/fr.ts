@@ -8,6 +8,7 @@ export default {
         refresh: "Actualiser le nexus",
         syncing: "Synchronisation...",
         search_placeholder: "Explorer le nexus...",
+        search_syntax: "Syntaxe : title:, entity:\"Jerome Powell\", author:, source:, sentiment:bearish, after:2026-01-01, date:2026-01-01..2026-01-31, \"phrase exacte\", -exclure",
         all: "Tous",
         promotional: "Promotionnel",
         view_source: "Voir la source"
@@ -39,7 +40,8 @@ export default {
         coordinate_mismatch: "Coordonnées erronées",
         no_signals: "Aucun signal détecté dans ce secteur. Essayez de recalibrer vos paramètres de recherche ou synchronisez avec le réseau.",
         reset_nexus: "Réinitialiser le Nexus",
-        pulse_completed: "Impulsion du Nexus complétée"
+        pulse_completed: "Impulsion du Nexus complétée",
+        live: "En direct"
     },
     article: {
         ai_insight: "Analyse IA",
@@ -56,5 +58,26 @@ export default {
         total: "Tous les articles",
         saved: "Favoris",
         enriched: "Synthèses"
+    },
+    entity: {
+        back: "Retour au flux",
+        articles: "{count} articles",
+        first_seen: "Première mention",
+        last_seen: "Dernière mention",
+        aliases: "Aussi appelé",
+        sentiment_trend: "Tendance du sentiment",
+        recent_articles: "Articles récents",
+        related: "Entités liées",
+        co_mentions: "{count} articles communs",
+        no_articles: "Aucun article récent",
+        no_related: "Aucune entité liée",
+        not_found: "Entité introuvable",
+        open: "Voir la fiche de {name}",
+        labels: {
+            ORG: "Organisation",
+            PER: "Personne",
+            LOC: "Lieu",
+            MISC: "Divers"
+        }
     }
 };
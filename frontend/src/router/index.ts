@@ -2,6 +2,7 @@
 import { createRouter, createWebHistory, type RouteRecordRaw } from 'vue-router';
 import AnalyticsDashboard from '../views/AnalyticsDashboard.vue';
 import HomeView from '../views/HomeView.vue';
+import EntityView from '../views/EntityView.vue';
 
 const routes: RouteRecordRaw[] = [
     {
@@ -15,6 +16,12 @@ const routes: RouteRecordRaw[] = [
         name: 'Analytics',
         component: AnalyticsDashboard,
         meta: { title: 'Analytics Dashboard - Kognit' }
+    },
+    {
+        path: '/entities/:id',
+        name: 'Entity',
+        component: EntityView,
+        meta: { title: 'Entity - Kognit' }
     }
 ];
 
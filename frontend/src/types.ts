@@ -22,6 +22,7 @@ export interface Article {
         sentimentScore: number;
         iaSummary?: string;
         isPromotional?: boolean;
+        entities?: { text: string; label: string; score: number; entityId?: string }[];
     };
     translations?: Record<string, {
         title: string;
@@ -31,6 +32,10 @@ export interface Article {
     imageUrl?: string;
     sourceColor?: string;
     isBookmarked?: boolean;
+    highlight?: {
+        title: string;           // HTML-escaped, search matches wrapped in <mark>
+        snippet: string | null;
+    };
 }
 
 export interface BriefingSection {
@@ -50,3 +55,65 @@ export interface GlobalBriefing {
     topTrends: string[];
     date: string;
 }
+
+export interface SavedSearch {
+    id: string;
+    name: string;
+    query: Record<string, unknown>;
+    isAlert: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface UserAlert {
+    _id: string;
+    searchId: string;
+    searchName: string;
+    articleId: string;
+    title: string;
+    link: string;
+    feedName: string | null;
+    matchedEntities: string[];
+    read: boolean;
+    createdAt: string;
+}
+
+export interface AuthUser {
+    id: string;
+    email: string;
+    role: 'user' | 'admin';
+    profileId: string;
+}
+
+export interface EntitySentimentPoint {
+    date: string;
+    count: number;
+    bullish: number;
+    bearish: number;
+    neutral: number;
+    netSentiment: number;    // (bullish - bearish) / count
+}
+
+export interface EntityProfile {
+    entity: {
+        id: string;
+        name: string;
+        label: string;
+        aliases: string[];
+        assetSymbol?: string;
+        articleCount: number;
+        firstSeenAt: string;
+        lastSeenAt: string;
+    };
+    articles: {
+        _id: string;
+        title: string;
+        link: string;
+        feedName?: string | null;
+        publicationDate?: string | null;
+        sentiment?: 'bullish' | 'bearish' | 'neutral';
+        sentimentScore?: number;
+    }[];
+    sentimentTrend: EntitySentimentPoint[];
+    related: { id: string; name: string; label: string; count: number }[];
+}